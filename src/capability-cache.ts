@@ -0,0 +1,74 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type {
+  Implementation,
+  ServerCapabilities,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { getStateDir } from "./constants.js";
+import { createLogger } from "./logger.js";
+import { writeFileAtomic } from "./write-file-atomic.js";
+
+const log = createLogger("CAPABILITY-CACHE");
+
+/**
+ * What the upstream server reported the last time the proxy connected
+ */
+export interface CachedServer {
+  capabilities: ServerCapabilities;
+  // Epoch milliseconds of the connection that reported it
+  savedAt: number;
+  serverInfo: Implementation;
+}
+
+export interface CapabilityCacheOptions {
+  serverUrl: string;
+  directory?: string;
+}
+
+/**
+ * Remembers each upstream server's capabilities so the stdio side can
+ * answer initialize without reaching the server first
+ */
+export class CapabilityCache {
+  readonly directory: string;
+  readonly serverUrl: string;
+
+  constructor({ directory, serverUrl }: CapabilityCacheOptions) {
+    this.directory = directory ?? getStateDir();
+    this.serverUrl = serverUrl;
+  }
+
+  get filePath(): string {
+    return path.join(this.directory, "capabilities.json");
+  }
+
+  read(): CachedServer | undefined {
+    return this.readAll()[this.serverUrl];
+  }
+
+  write(entry: Omit<CachedServer, "savedAt">): void {
+    const all = this.readAll();
+    all[this.serverUrl] = { ...entry, savedAt: Date.now() };
+
+    fs.mkdirSync(this.directory, { mode: 0o700, recursive: true });
+    writeFileAtomic(this.filePath, JSON.stringify(all, null, 2));
+  }
+
+  private readAll(): Record<string, CachedServer> {
+    if (!fs.existsSync(this.filePath)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as Record<
+        string,
+        CachedServer
+      >;
+    } catch (error) {
+      log.warn(`Ignoring unreadable cache: ${String(error)}`);
+      return {};
+    }
+  }
+}
@@ -1,9 +1,9 @@
 #!/usr/bin/env node
 
-import { main } from "./index.js";
+import { runCli } from "./commands/index.js";
 
-// Run the main function when this file is executed directly
-main().catch((error) => {
+// Run the requested subcommand, or the stdio bridge by default
+runCli(process.argv.slice(2)).catch((error) => {
   console.error("Unexpected error starting MCP proxy:", error);
   process.exit(1);
 });
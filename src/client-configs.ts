@@ -0,0 +1,324 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { DEFAULT_TARGET_URL } from "./config.js";
+import { PROXY_NAME } from "./constants.js";
+
+export const CLIENT_IDS = [
+  "claude-desktop",
+  "cursor",
+  "lm-studio",
+  "perplexity",
+  "vscode",
+  "windsurf",
+] as const;
+
+export type ClientId = (typeof CLIENT_IDS)[number];
+
+export const SERVER_TRANSPORTS = ["stdio", "http"] as const;
+
+export type ServerTransport = (typeof SERVER_TRANSPORTS)[number];
+
+// Key of the FoundRole entry in every client's server list
+export const SERVER_ENTRY_NAME = "foundrole";
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Where a client keeps its config on this machine. Tests point `home` and
+ * `appData` at fixture directories.
+ */
+export interface ClientEnvironment {
+  home: string;
+  platform: NodeJS.Platform;
+  // %APPDATA% on Windows
+  appData?: string;
+}
+
+export interface ServerEntryOptions {
+  targetUrl: string;
+  transport: ServerTransport;
+  profile?: string;
+}
+
+interface ClientConfigFormat {
+  // Name shown to the user
+  label: string;
+  // Key of the object holding the servers
+  serversKey: "mcpServers" | "servers";
+  // Extra keys of a stdio entry
+  stdioFields?: JsonObject;
+  // The config file, for clients that keep their servers in one
+  file?: (env: ClientEnvironment) => string;
+  // The entry for a direct HTTP connection, for clients that support one
+  httpEntry?: (url: string) => JsonObject;
+}
+
+const pathsFor = (env: ClientEnvironment) =>
+  env.platform === "win32" ? path.win32 : path.posix;
+
+// Where desktop apps built on Electron keep their settings
+const userDataDir = (env: ClientEnvironment, app: string): string => {
+  const paths = pathsFor(env);
+  switch (env.platform) {
+    case "darwin":
+      return paths.join(env.home, "Library", "Application Support", app);
+    case "win32":
+      return paths.join(
+        env.appData ?? paths.join(env.home, "AppData", "Roaming"),
+        app
+      );
+    default:
+      return paths.join(env.home, ".config", app);
+  }
+};
+
+const CLIENTS: Record<ClientId, ClientConfigFormat> = {
+  "claude-desktop": {
+    file: (env) =>
+      pathsFor(env).join(
+        userDataDir(env, "Claude"),
+        "claude_desktop_config.json"
+      ),
+    label: "Claude Desktop",
+    serversKey: "mcpServers",
+  },
+  cursor: {
+    file: (env) => pathsFor(env).join(env.home, ".cursor", "mcp.json"),
+    httpEntry: (url) => ({ url }),
+    label: "Cursor",
+    serversKey: "mcpServers",
+  },
+  "lm-studio": {
+    file: (env) => pathsFor(env).join(env.home, ".lmstudio", "mcp.json"),
+    httpEntry: (url) => ({ url }),
+    label: "LM Studio",
+    serversKey: "mcpServers",
+  },
+  // Perplexity keeps its servers inside the app, added from its settings
+  perplexity: {
+    label: "Perplexity",
+    serversKey: "mcpServers",
+  },
+  vscode: {
+    file: (env) =>
+      pathsFor(env).join(userDataDir(env, "Code"), "User", "mcp.json"),
+    httpEntry: (url) => ({ type: "http", url }),
+    label: "VS Code",
+    serversKey: "servers",
+    stdioFields: { type: "stdio" },
+  },
+  windsurf: {
+    file: (env) =>
+      pathsFor(env).join(env.home, ".codeium", "windsurf", "mcp_config.json"),
+    httpEntry: (serverUrl) => ({ serverUrl }),
+    label: "Windsurf",
+    serversKey: "mcpServers",
+  },
+};
+
+export const isClientId = (value: string): value is ClientId =>
+  (CLIENT_IDS as readonly string[]).includes(value);
+
+export const isServerTransport = (value: string): value is ServerTransport =>
+  (SERVER_TRANSPORTS as readonly string[]).includes(value);
+
+export const defaultClientEnvironment = (): ClientEnvironment => ({
+  home: os.homedir(),
+  platform: process.platform,
+  ...(process.env.APPDATA && { appData: process.env.APPDATA }),
+});
+
+export const clientLabel = (client: ClientId): string => CLIENTS[client].label;
+
+/**
+ * The client's config file, or undefined when it has none to edit
+ */
+export const clientConfigPath = (
+  client: ClientId,
+  env: ClientEnvironment
+): string | undefined => CLIENTS[client].file?.(env);
+
+/**
+ * The entry that connects the client to FoundRole, through the stdio bridge
+ * or straight to the HTTP endpoint
+ */
+export function createServerEntry(
+  client: ClientId,
+  { profile, targetUrl, transport }: ServerEntryOptions
+): JsonObject {
+  const format = CLIENTS[client];
+  if (transport === "http") {
+    if (!format.httpEntry) {
+      throw new Error(
+        `${format.label} cannot connect to an HTTP endpoint from its config file; use the stdio transport`
+      );
+    }
+    return format.httpEntry(targetUrl);
+  }
+
+  // Only settings that differ from the bridge's defaults are written
+  const env = {
+    ...(profile && { MCP_PROFILE: profile }),
+    ...(targetUrl !== DEFAULT_TARGET_URL && { MCP_TARGET_URL: targetUrl }),
+  };
+  return {
+    ...format.stdioFields,
+    args: [`${PROXY_NAME}@latest`],
+    command: "npx",
+    ...(Object.keys(env).length && { env }),
+  };
+}
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Reads a client config file, which need not exist yet. Anything that is
+ * not a JSON object is refused rather than overwritten.
+ */
+export function readClientConfig(file: string): JsonObject | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Could not read ${file}: ${error instanceof Error ? error.message : String(error)}. Fix or remove it and try again.`
+    );
+  }
+  if (!isObject(config)) {
+    throw new Error(`${file} does not hold a JSON object`);
+  }
+  return config;
+}
+
+/**
+ * The server list in a client config, empty when there is none yet
+ */
+export function serversIn(client: ClientId, config: JsonObject): JsonObject {
+  const { serversKey } = CLIENTS[client];
+  const servers = config[serversKey] ?? {};
+  if (!isObject(servers)) {
+    throw new Error(
+      `"${serversKey}" in the ${clientLabel(client)} config is not an object`
+    );
+  }
+  return servers;
+}
+
+/**
+ * A copy of `config` with `entry` as the FoundRole server, leaving every
+ * other server and setting as it was
+ */
+export function withServerEntry(
+  client: ClientId,
+  config: JsonObject,
+  entry: JsonObject
+): JsonObject {
+  return {
+    ...config,
+    [CLIENTS[client].serversKey]: {
+      ...serversIn(client, config),
+      [SERVER_ENTRY_NAME]: entry,
+    },
+  };
+}
+
+/**
+ * A copy of `config` without the FoundRole server
+ */
+export function withoutServerEntry(
+  client: ClientId,
+  config: JsonObject
+): JsonObject {
+  const { [SERVER_ENTRY_NAME]: _removed, ...servers } = serversIn(
+    client,
+    config
+  );
+  return { ...config, [CLIENTS[client].serversKey]: servers };
+}
+
+/**
+ * How a server entry reaches FoundRole. `version` is the package version
+ * npx is told to run, absent when none is pinned.
+ */
+export interface FoundRoleServer {
+  name: string;
+  transport: ServerTransport;
+  version?: string;
+}
+
+const entryUrl = (entry: JsonObject): string | undefined =>
+  [entry.url, entry.serverUrl].find((url) => typeof url === "string");
+
+const isFoundRoleUrl = (url: string, targetUrl: string): boolean => {
+  if (url === targetUrl) {
+    return true;
+  }
+  try {
+    return /(^|\.)foundrole\.com$/.test(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The servers in a client config that connect to FoundRole, whether
+ * through the bridge package or straight to the endpoint, under any name
+ */
+export function findFoundRoleServers(
+  client: ClientId,
+  config: JsonObject,
+  targetUrl: string
+): FoundRoleServer[] {
+  const found: FoundRoleServer[] = [];
+  for (const [name, entry] of Object.entries(serversIn(client, config))) {
+    if (!isObject(entry)) {
+      continue;
+    }
+    const url = entryUrl(entry);
+    if (url !== undefined) {
+      if (name === SERVER_ENTRY_NAME || isFoundRoleUrl(url, targetUrl)) {
+        found.push({ name, transport: "http" });
+      }
+      continue;
+    }
+
+    const args = Array.isArray(entry.args) ? entry.args : [];
+    const packageArg = args.find(
+      (arg): arg is string =>
+        typeof arg === "string" &&
+        (arg === PROXY_NAME || arg.startsWith(`${PROXY_NAME}@`))
+    );
+    const command = typeof entry.command === "string" ? entry.command : "";
+    if (
+      packageArg ||
+      name === SERVER_ENTRY_NAME ||
+      path.basename(command).startsWith("ai-job-search-mcp")
+    ) {
+      const version = packageArg?.slice(PROXY_NAME.length + 1);
+      found.push({
+        name,
+        transport: "stdio",
+        ...(version && { version }),
+      });
+    }
+  }
+  return found;
+}
+
+/**
+ * Serializes a config the way `original` was indented, two spaces for a
+ * new file
+ */
+export function formatClientConfig(
+  config: JsonObject,
+  original?: string
+): string {
+  const indent = original?.match(/^[ \t]+(?=")/m)?.[0] ?? 2;
+  return `${JSON.stringify(config, null, indent)}\n`;
+}
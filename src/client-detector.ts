@@ -1,10 +1,23 @@
 import findProcess from "find-process";
 
 import { PROXY_NAME, PROXY_VERSION } from "./constants.js";
+import { createLogger } from "./logger.js";
 import type { ClientInfo } from "./types.js";
 import { VersionExtractor } from "./version-extractor.js";
 
-interface ProcessInfo {
+const log = createLogger("CLIENT-DETECTOR");
+
+// Names SDKs and frameworks report by default, which identify no application
+const GENERIC_CLIENT_NAMES = new Set([
+  "client",
+  "electron",
+  "mcp",
+  "mcp-client",
+  "node",
+  "unknown",
+]);
+
+export interface ProcessInfo {
   cmd: string;
   name: string;
   pid: number;
@@ -134,40 +147,34 @@ async function identifyClientFromProcess(
 ): Promise<ClientInfo> {
   const { cmd, name } = process;
 
-  console.error(`[CLIENT-DETECTOR] Analyzing process: ${name} (${cmd})`);
+  log.trace(`Analyzing process: ${name} (${cmd})`);
 
   try {
     // Extract executable path from command
     const executablePath = extractExecutablePath(cmd, name);
 
     if (!executablePath) {
-      console.error(
-        "[CLIENT-DETECTOR] Could not extract executable path, using proxy identity"
-      );
+      log.warn("Could not extract executable path, using proxy identity");
       return {
         name: PROXY_NAME,
         version: PROXY_VERSION,
       };
     }
 
-    console.error(
-      `[CLIENT-DETECTOR] Extracted executable path: ${executablePath}`
-    );
+    log.trace(`Extracted executable path: ${executablePath}`);
 
     // Extract app name from executable path
     const appName = extractAppName(executablePath, name);
     const osName = getOSName();
     const clientName = `${osName}//${appName}`;
 
-    console.error(`[CLIENT-DETECTOR] Extracted app name: ${appName}`);
+    log.trace(`Extracted app name: ${appName}`);
 
     // Try to extract version from executable
     let version = "unknown"; // Default to unknown when app is identified but version fails
 
     try {
-      console.error(
-        `[CLIENT-DETECTOR] Extracting version from: ${executablePath}`
-      );
+      log.trace(`Extracting version from: ${executablePath}`);
       const versionResult = await VersionExtractor.extractVersion(
         executablePath,
         name
@@ -175,48 +182,36 @@ async function identifyClientFromProcess(
 
       if (versionResult.version) {
         version = versionResult.version;
-        console.error(
-          `[CLIENT-DETECTOR] Version extracted from ${versionResult.source}: ${version}`
-        );
+        log.debug(`Version extracted from ${versionResult.source}: ${version}`);
       } else {
-        console.error(
-          `[CLIENT-DETECTOR] Version extraction failed: ${versionResult.error}`
-        );
+        log.debug(`Version extraction failed: ${versionResult.error}`);
         // Try extracting from command line as fallback
         const cmdVersion = extractVersionFromCommand(cmd);
         if (cmdVersion) {
           version = cmdVersion;
-          console.error(
-            `[CLIENT-DETECTOR] Version extracted from command: ${version}`
-          );
+          log.debug(`Version extracted from command: ${version}`);
         } else {
-          console.error(`[CLIENT-DETECTOR] No version found, using 'unknown'`);
+          log.debug(`No version found, using 'unknown'`);
         }
       }
     } catch (error) {
-      console.error(
-        `[CLIENT-DETECTOR] Version extraction error: ${String(error)}`
-      );
+      log.warn(`Version extraction error: ${String(error)}`);
       // Try command line extraction as final fallback
       const cmdVersion = extractVersionFromCommand(cmd);
       if (cmdVersion) {
         version = cmdVersion;
-        console.error(
-          `[CLIENT-DETECTOR] Version extracted from command: ${version}`
-        );
+        log.debug(`Version extracted from command: ${version}`);
       }
     }
 
-    console.error(`[CLIENT-DETECTOR] Identified as ${clientName}@${version}`);
+    log.debug(`Identified as ${clientName}@${version}`);
     return {
       name: clientName,
       version,
     };
   } catch (error) {
-    console.error(
-      `[CLIENT-DETECTOR] Error during client identification: ${String(error)}`
-    );
-    console.error("[CLIENT-DETECTOR] Using proxy identity as fallback");
+    log.warn(`Error during client identification: ${String(error)}`);
+    log.warn("Using proxy identity as fallback");
     return {
       name: PROXY_NAME,
       version: PROXY_VERSION,
@@ -277,14 +272,14 @@ function isIntermediaryProcess(process: ProcessInfo): boolean {
  */
 async function findRealClient(
   currentPid: number,
-  depth: number = 0
+  depth: number = 0,
+  // Collects each process looked at, for diagnostics
+  chain: ProcessInfo[] = []
 ): Promise<ClientInfo> {
   const MAX_DEPTH = 5; // Prevent infinite traversal
 
   if (depth >= MAX_DEPTH) {
-    console.error(
-      `[CLIENT-DETECTOR] Reached max traversal depth ${MAX_DEPTH}, using fallback`
-    );
+    log.warn(`Reached max traversal depth ${MAX_DEPTH}, using fallback`);
     return {
       name: PROXY_NAME,
       version: PROXY_VERSION,
@@ -292,9 +287,7 @@ async function findRealClient(
   }
 
   try {
-    console.error(
-      `[CLIENT-DETECTOR] Traversing process tree, depth ${depth}, PID: ${currentPid}`
-    );
+    log.trace(`Traversing process tree, depth ${depth}, PID: ${currentPid}`);
 
     const processes = await ((findProcess as any).default ?? findProcess)(
       "pid",
@@ -302,9 +295,7 @@ async function findRealClient(
     );
 
     if (processes.length === 0) {
-      console.error(
-        `[CLIENT-DETECTOR] Process ${currentPid} not found at depth ${depth}`
-      );
+      log.warn(`Process ${currentPid} not found at depth ${depth}`);
       return {
         name: PROXY_NAME,
         version: PROXY_VERSION,
@@ -312,20 +303,17 @@ async function findRealClient(
     }
 
     const currentProcess = processes[0] as ProcessInfo;
-    console.error(
-      `[CLIENT-DETECTOR] Found process: ${currentProcess.name} (${currentProcess.cmd})`
-    );
+    chain.push(currentProcess);
+    log.trace(`Found process: ${currentProcess.name} (${currentProcess.cmd})`);
 
     // Check if this is an intermediary process we should skip
     if (isIntermediaryProcess(currentProcess)) {
-      console.error(
-        `[CLIENT-DETECTOR] Process '${currentProcess.name}' is intermediary, checking parent`
+      log.trace(
+        `Process '${currentProcess.name}' is intermediary, checking parent`
       );
 
       if (!currentProcess.ppid) {
-        console.error(
-          `[CLIENT-DETECTOR] No parent PID available for intermediary process`
-        );
+        log.warn(`No parent PID available for intermediary process`);
         return {
           name: PROXY_NAME,
           version: PROXY_VERSION,
@@ -333,18 +321,14 @@ async function findRealClient(
       }
 
       // Recursively check parent process
-      return await findRealClient(currentProcess.ppid, depth + 1);
+      return await findRealClient(currentProcess.ppid, depth + 1, chain);
     }
 
     // This looks like a real client process
-    console.error(
-      `[CLIENT-DETECTOR] Found real client process: ${currentProcess.name}`
-    );
+    log.debug(`Found real client process: ${currentProcess.name}`);
     return await identifyClientFromProcess(currentProcess);
   } catch (error) {
-    console.error(
-      `[CLIENT-DETECTOR] Error during traversal at depth ${depth}: ${String(error)}`
-    );
+    log.warn(`Error during traversal at depth ${depth}: ${String(error)}`);
     return {
       name: PROXY_NAME,
       version: PROXY_VERSION,
@@ -359,17 +343,66 @@ export async function extractClientInfoFromParent(): Promise<ClientInfo> {
   const parentPid = process.ppid;
 
   if (!parentPid) {
-    console.error("[CLIENT-DETECTOR] No parent PID available");
+    log.warn("No parent PID available");
     return {
       name: PROXY_NAME,
       version: PROXY_VERSION,
     };
   }
 
-  console.error(
-    `[CLIENT-DETECTOR] Looking up parent process PID: ${parentPid}`
-  );
+  log.trace(`Looking up parent process PID: ${parentPid}`);
 
   // Use the new traversal logic to find the real client
   return await findRealClient(parentPid);
 }
+
+/**
+ * A process walked through while detecting the client, and whether it was
+ * passed over as a launcher such as npx or a shell
+ */
+export interface DetectedProcess extends ProcessInfo {
+  intermediary: boolean;
+}
+
+/**
+ * Detects the client from the parent process like
+ * extractClientInfoFromParent, also returning the processes it walked
+ * through from the nearest parent up
+ */
+export async function detectClientChain(): Promise<{
+  client: ClientInfo;
+  processes: DetectedProcess[];
+}> {
+  const chain: ProcessInfo[] = [];
+  const client = process.ppid
+    ? await findRealClient(process.ppid, 0, chain)
+    : { name: PROXY_NAME, version: PROXY_VERSION };
+  return {
+    client,
+    processes: chain.map((info) => ({
+      ...info,
+      intermediary: isIntermediaryProcess(info),
+    })),
+  };
+}
+
+/**
+ * Resolves the identity forwarded upstream: the clientInfo the MCP client
+ * sent in its initialize request, or the parent process when that is
+ * missing or too generic to identify the application
+ */
+export async function resolveClientInfo(
+  clientInfo: ClientInfo | undefined
+): Promise<ClientInfo> {
+  const name = clientInfo?.name?.trim();
+  if (clientInfo && name && !GENERIC_CLIENT_NAMES.has(name.toLowerCase())) {
+    return { ...clientInfo, name, version: clientInfo.version || "unknown" };
+  }
+
+  log.debug(
+    name
+      ? `Client reported generic name "${name}", detecting from parent process`
+      : "Client sent no clientInfo, detecting from parent process"
+  );
+  return extractClientInfoFromParent();
+}
@@ -0,0 +1,116 @@
+import { DEFAULT_PROFILE } from "../constants.js";
+import type { ProxyOAuthProviderOptions } from "../oauth-provider.js";
+import {
+  describeAccount,
+  ProxyOAuthProvider,
+  signIn,
+  signOut,
+} from "../oauth-provider.js";
+import { TokenStore } from "../token-store.js";
+import type { ProxyConfig } from "../types.js";
+
+// Lets tests stand in for the user's browser
+export type AuthCommandOptions = Pick<
+  ProxyOAuthProviderOptions,
+  "callbackPort" | "openBrowser"
+>;
+
+function createProvider(
+  config: ProxyConfig,
+  options: AuthCommandOptions
+): ProxyOAuthProvider {
+  const store = new TokenStore({
+    serverUrl: config.targetUrl,
+    ...(config.profile && { profile: config.profile }),
+  });
+  return new ProxyOAuthProvider({ ...options, store });
+}
+
+export function formatExpiry(expiresAt: number | undefined): string {
+  if (expiresAt === undefined) {
+    return "no expiry reported";
+  }
+  const remainingMinutes = Math.round((expiresAt - Date.now()) / 60000);
+  const when = new Date(expiresAt).toISOString();
+  return remainingMinutes > 0
+    ? `${when} (in ${remainingMinutes} min)`
+    : `${when} (expired)`;
+}
+
+/**
+ * Signs in interactively and stores the credentials for later bridge runs
+ */
+export async function login(
+  config: ProxyConfig,
+  options: AuthCommandOptions = {}
+): Promise<number> {
+  const profile = config.profile ?? DEFAULT_PROFILE;
+  const provider = createProvider(config, options);
+
+  console.log(`Signing in to ${config.targetUrl} (profile: ${profile})...`);
+  await signIn(provider, config.targetUrl);
+
+  const tokens = provider.storedTokens;
+  const account = tokens && describeAccount(tokens);
+  console.log(`Signed in${account ? ` as ${account}` : ""}.`);
+  console.log(`Access token expires: ${formatExpiry(provider.expiresAt)}`);
+  return 0;
+}
+
+/**
+ * Revokes and deletes the stored credentials of the profile
+ */
+export async function logout(
+  config: ProxyConfig,
+  options: AuthCommandOptions = {}
+): Promise<number> {
+  const profile = config.profile ?? DEFAULT_PROFILE;
+  const provider = createProvider(config, options);
+
+  if (!provider.storedTokens && !provider.clientInformation()) {
+    console.log(`Not signed in (profile: ${profile}).`);
+    return 0;
+  }
+
+  const revoked = await signOut(provider);
+  console.log(
+    revoked
+      ? `Signed out and removed stored credentials (profile: ${profile}).`
+      : `Removed stored credentials (profile: ${profile}), but the server could not confirm token revocation.`
+  );
+  return 0;
+}
+
+/**
+ * Prints the signed-in account and token expiry of the profile
+ */
+export function whoami(
+  config: ProxyConfig,
+  options: AuthCommandOptions = {}
+): number {
+  const profile = config.profile ?? DEFAULT_PROFILE;
+  const provider = createProvider(config, options);
+  const tokens = provider.storedTokens;
+
+  console.log(`Profile: ${profile}`);
+  console.log(`Server: ${config.targetUrl}`);
+
+  if (!tokens) {
+    console.log("Not signed in. Run `ai-job-search-mcp login` to sign in.");
+    return 1;
+  }
+
+  console.log(`Account: ${describeAccount(tokens) ?? "unknown"}`);
+  console.log(`Access token expires: ${formatExpiry(provider.expiresAt)}`);
+  console.log(
+    `Refresh token: ${tokens.refresh_token ? "stored" : "not available"}`
+  );
+
+  const otherProfiles = TokenStore.listProfiles().filter(
+    (name) => name !== profile
+  );
+  if (otherProfiles.length > 0) {
+    console.log(`Other profiles: ${otherProfiles.join(", ")}`);
+  }
+  return 0;
+}
@@ -0,0 +1,431 @@
+import dns from "node:dns/promises";
+import fs from "node:fs";
+import tls from "node:tls";
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+
+import { detectClientChain } from "../client-detector.js";
+import {
+  DEFAULT_PROFILE,
+  DOCTOR_CHECK_TIMEOUT_MS,
+  findPackageJson,
+  getPackageInfo,
+  PROXY_NAME,
+  PROXY_VERSION,
+} from "../constants.js";
+import { describeAccount, ProxyOAuthProvider } from "../oauth-provider.js";
+import { TokenStore } from "../token-store.js";
+import type { ProxyConfig } from "../types.js";
+
+import { formatExpiry } from "./auth.js";
+
+export const CHECK_STATUSES = ["pass", "warn", "fail", "skip"] as const;
+
+export type CheckStatus = (typeof CHECK_STATUSES)[number];
+
+export interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  summary: string;
+  // Further lines for the report, such as the detected process chain
+  details?: string[];
+}
+
+export interface DoctorOptions {
+  // Print the report as JSON instead of text
+  json?: boolean;
+  // Lets tests stand in for the running Node.js
+  nodeVersion?: string;
+  // How long each network check waits
+  timeoutMs?: number;
+}
+
+/**
+ * Everything the doctor command found, as printed with --json
+ */
+export interface DoctorReport {
+  checks: CheckResult[];
+  generatedAt: string;
+  node: string;
+  platform: string;
+  proxy: { name: string; version: string };
+  targetUrl: string;
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const withTimeout = async <T>(
+  promise: Promise<T>,
+  ms: number,
+  what: string
+): Promise<T> => {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+          reject(new Error(`${what} timed out after ${ms} ms`));
+        }, ms);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Only the ">=x.y.z" form package.json uses is understood
+const meetsMinimum = (version: string, range: string): boolean | undefined => {
+  const minimum = /^>=\s*v?(\d+)\.(\d+)\.(\d+)$/.exec(range.trim());
+  const actual = /^v?(\d+)\.(\d+)\.(\d+)/.exec(version);
+  if (!minimum || !actual) {
+    return undefined;
+  }
+  for (let index = 1; index <= 3; index++) {
+    const difference = Number(actual[index]) - Number(minimum[index]);
+    if (difference !== 0) {
+      return difference > 0;
+    }
+  }
+  return true;
+};
+
+interface PackageJson {
+  engines?: { node?: string };
+  name?: string;
+  version?: string;
+}
+
+function checkPackage(): { packageJson?: PackageJson; result: CheckResult } {
+  const { name, version } = getPackageInfo();
+  let file: string;
+  try {
+    file = findPackageJson();
+  } catch (error) {
+    return {
+      result: {
+        name: "Package",
+        status: "warn",
+        summary: `${errorMessage(error)}; reporting itself as ${name} ${version}`,
+      },
+    };
+  }
+
+  let packageJson: PackageJson;
+  try {
+    packageJson = JSON.parse(fs.readFileSync(file, "utf-8")) as PackageJson;
+  } catch (error) {
+    return {
+      result: {
+        name: "Package",
+        status: "warn",
+        summary: `Could not read ${file}: ${errorMessage(error)}`,
+      },
+    };
+  }
+
+  const details = [`package.json: ${file}`];
+  if (packageJson.name !== PROXY_NAME) {
+    return {
+      result: {
+        details,
+        name: "Package",
+        status: "warn",
+        summary: `Found the package.json of ${packageJson.name ?? "an unnamed package"} instead of the bridge's, so the bridge reports itself as ${name} ${version}`,
+      },
+    };
+  }
+  return {
+    packageJson,
+    result: {
+      details,
+      name: "Package",
+      status: "pass",
+      summary: `${name} ${version}`,
+    },
+  };
+}
+
+function checkNode(
+  packageJson: PackageJson | undefined,
+  version: string
+): CheckResult {
+  const required = packageJson?.engines?.node;
+  if (!required) {
+    return {
+      name: "Node.js",
+      status: "skip",
+      summary: `${version}; no required version found in package.json`,
+    };
+  }
+  const meets = meetsMinimum(version, required);
+  if (meets === undefined) {
+    return {
+      name: "Node.js",
+      status: "warn",
+      summary: `${version}; cannot check against the requirement ${required}`,
+    };
+  }
+  return {
+    name: "Node.js",
+    status: meets ? "pass" : "fail",
+    summary: `${version} (requires ${required})`,
+  };
+}
+
+async function checkClient(): Promise<CheckResult> {
+  const { client, processes } = await detectClientChain();
+  const details = processes.map(
+    ({ cmd, intermediary, name, pid }) =>
+      `${intermediary ? "passed over" : "identified"}: ${name} (pid ${pid}) ${cmd}`
+  );
+  const fellBack = client.name === PROXY_NAME;
+  return {
+    details,
+    name: "Client detection",
+    status: fellBack ? "warn" : "pass",
+    summary: fellBack
+      ? "No client identified from the parent processes; the bridge will use its own name unless the client sends one"
+      : `${client.name}@${client.version}`,
+  };
+}
+
+async function checkDns(url: URL, timeoutMs: number): Promise<CheckResult> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = await withTimeout(
+    dns.lookup(hostname, { all: true }),
+    timeoutMs,
+    "DNS lookup"
+  );
+  return {
+    name: "DNS",
+    status: "pass",
+    summary: `${hostname} resolves to ${addresses.map(({ address }) => address).join(", ")}`,
+  };
+}
+
+async function checkTls(url: URL, timeoutMs: number): Promise<CheckResult> {
+  if (url.protocol !== "https:") {
+    return {
+      name: "TLS",
+      status: "skip",
+      summary: `${url.protocol} URL, no TLS`,
+    };
+  }
+  const socket = tls.connect({
+    host: url.hostname,
+    port: Number(url.port || 443),
+    servername: url.hostname,
+  });
+  try {
+    await withTimeout(
+      new Promise<void>((resolve, reject) => {
+        socket.once("secureConnect", resolve);
+        socket.once("error", reject);
+      }),
+      timeoutMs,
+      "TLS handshake"
+    );
+    const certificate = socket.getPeerCertificate();
+    return {
+      name: "TLS",
+      status: "pass",
+      summary: `${socket.getProtocol() ?? "TLS"}, certificate for ${String(certificate.subject?.CN ?? url.hostname)} valid until ${certificate.valid_to}`,
+    };
+  } finally {
+    socket.destroy();
+  }
+}
+
+async function checkHttp(url: URL, timeoutMs: number): Promise<CheckResult> {
+  const started = Date.now();
+  const response = await fetch(url, {
+    headers: { Accept: "application/json, text/event-stream" },
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  await response.body?.cancel();
+  // An MCP endpoint may refuse a plain GET; any answer shows it is reachable
+  return {
+    name: "HTTP",
+    status: response.status < 500 ? "pass" : "fail",
+    summary: `HTTP ${response.status} ${response.statusText} in ${Date.now() - started} ms`,
+  };
+}
+
+async function checkMcp(url: URL, timeoutMs: number): Promise<CheckResult> {
+  // Without sign-in, as a fresh client would connect
+  const client = new Client(
+    { name: PROXY_NAME, version: PROXY_VERSION },
+    { capabilities: {} }
+  );
+  const transport = new StreamableHTTPClientTransport(url);
+  try {
+    await client.connect(transport as Transport, { timeout: timeoutMs });
+    const serverInfo = client.getServerVersion();
+    const capabilities = client.getServerCapabilities() ?? {};
+    return {
+      details: Object.entries(capabilities).map(
+        ([name, options]) =>
+          `${name}${
+            options &&
+            typeof options === "object" &&
+            Object.keys(options).length
+              ? ` (${Object.keys(options).join(", ")})`
+              : ""
+          }`
+      ),
+      name: "MCP initialize",
+      status: "pass",
+      summary: serverInfo
+        ? `${serverInfo.name} ${serverInfo.version}`
+        : "Initialized",
+    };
+  } finally {
+    await client.close().catch(() => {});
+  }
+}
+
+function checkAuth(config: ProxyConfig): CheckResult {
+  const profile = config.profile ?? DEFAULT_PROFILE;
+  const provider = new ProxyOAuthProvider({
+    store: new TokenStore({
+      serverUrl: config.targetUrl,
+      ...(config.profile && { profile: config.profile }),
+    }),
+  });
+  const tokens = provider.storedTokens;
+  if (!tokens) {
+    return {
+      name: "Sign-in",
+      status: "warn",
+      summary: `Not signed in (profile: ${profile}). Searching works without it; run \`ai-job-search-mcp login\` to save and track jobs.`,
+    };
+  }
+
+  const account = describeAccount(tokens) ?? "unknown account";
+  const expired =
+    provider.expiresAt !== undefined && provider.expiresAt <= Date.now();
+  return {
+    details: [
+      `Access token expires: ${formatExpiry(provider.expiresAt)}`,
+      `Refresh token: ${tokens.refresh_token ? "stored" : "not available"}`,
+    ],
+    name: "Sign-in",
+    status: expired && !tokens.refresh_token ? "warn" : "pass",
+    summary: `${account} (profile: ${profile})`,
+  };
+}
+
+// Runs a check, turning a thrown error into its failure
+const runCheck = async (
+  name: string,
+  check: () => CheckResult | Promise<CheckResult>
+): Promise<CheckResult> => {
+  try {
+    return await check();
+  } catch (error) {
+    return { name, status: "fail", summary: errorMessage(error) };
+  }
+};
+
+const skipped = (name: string, reason: string): CheckResult => ({
+  name,
+  status: "skip",
+  summary: reason,
+});
+
+/**
+ * Runs every check, skipping network checks that cannot succeed once an
+ * earlier one failed
+ */
+export async function runDoctor(
+  config: ProxyConfig,
+  {
+    nodeVersion = process.versions.node,
+    timeoutMs = DOCTOR_CHECK_TIMEOUT_MS,
+  }: DoctorOptions = {}
+): Promise<DoctorReport> {
+  const { packageJson, result: packageResult } = checkPackage();
+  const checks = [checkNode(packageJson, nodeVersion), packageResult];
+  checks.push(await runCheck("Client detection", checkClient));
+
+  const url = new URL(config.targetUrl);
+  const dnsResult = await runCheck("DNS", () => checkDns(url, timeoutMs));
+  checks.push(dnsResult);
+  if (dnsResult.status === "fail") {
+    const reason = "Skipped, the host name did not resolve";
+    checks.push(
+      skipped("TLS", reason),
+      skipped("HTTP", reason),
+      skipped("MCP initialize", reason)
+    );
+  } else {
+    const tlsResult = await runCheck("TLS", () => checkTls(url, timeoutMs));
+    const httpResult =
+      tlsResult.status === "fail"
+        ? skipped("HTTP", "Skipped, the TLS handshake failed")
+        : await runCheck("HTTP", () => checkHttp(url, timeoutMs));
+    checks.push(
+      tlsResult,
+      httpResult,
+      ["fail", "skip"].includes(httpResult.status)
+        ? skipped("MCP initialize", "Skipped, the HTTP request failed")
+        : await runCheck("MCP initialize", () => checkMcp(url, timeoutMs))
+    );
+  }
+  checks.push(await runCheck("Sign-in", () => checkAuth(config)));
+
+  return {
+    checks,
+    generatedAt: new Date().toISOString(),
+    node: nodeVersion,
+    platform: `${process.platform} ${process.arch}`,
+    proxy: { name: PROXY_NAME, version: PROXY_VERSION },
+    targetUrl: config.targetUrl,
+  };
+}
+
+/**
+ * The report as text for pasting into an issue
+ */
+export function formatReport(report: DoctorReport): string {
+  const lines = [
+    `${report.proxy.name} ${report.proxy.version} doctor, ${report.generatedAt}`,
+    `Platform: ${report.platform}, Node.js ${report.node}`,
+    `Server: ${report.targetUrl}`,
+    "",
+  ];
+  for (const { details = [], name, status, summary } of report.checks) {
+    lines.push(`[${status.toUpperCase()}] ${name}: ${summary}`);
+    lines.push(...details.map((detail) => `       ${detail}`));
+  }
+  const counts = CHECK_STATUSES.map(
+    (status) =>
+      [
+        status,
+        report.checks.filter((check) => check.status === status).length,
+      ] as const
+  )
+    .filter(([, count]) => count > 0)
+    .map(([status, count]) => `${count} ${status}`);
+  lines.push("", counts.join(", "));
+  return lines.join("\n");
+}
+
+/**
+ * Checks the environment, the connection to FoundRole and the stored
+ * sign-in, printing a report. Fails when any check fails.
+ */
+export async function doctor(
+  config: ProxyConfig,
+  options: DoctorOptions = {}
+): Promise<number> {
+  const report = await runDoctor(config, options);
+  console.log(
+    options.json ? JSON.stringify(report, null, 2) : formatReport(report)
+  );
+  return report.checks.some((check) => check.status === "fail") ? 1 : 0;
+}
@@ -0,0 +1,405 @@
+import type { ParseArgsOptionsConfig } from "node:util";
+import { parseArgs } from "node:util";
+
+import type { ConfigOptions } from "../config.js";
+import { getProxyConfig, parseRenames, parseTimeouts } from "../config.js";
+import { main } from "../index.js";
+import { configureLogger } from "../logger.js";
+import type {
+  FilterRules,
+  NameRules,
+  ProxyConfig,
+  ProxyFilters,
+  ProxyNames,
+} from "../types.js";
+
+import { login, logout, whoami } from "./auth.js";
+import { doctor } from "./doctor.js";
+import type { InspectOptions } from "./inspect.js";
+import { inspect } from "./inspect.js";
+import { install, status, uninstall } from "./install.js";
+import { repl } from "./repl.js";
+
+type CommandFlags = Record<
+  string,
+  (boolean | string)[] | boolean | string | undefined
+>;
+
+interface Command {
+  // Flags the command accepts besides the settings flags
+  options?: ParseArgsOptionsConfig;
+  // Whether it takes arguments besides flags, such as a tool name
+  takesArguments?: boolean;
+  run(
+    config: ProxyConfig,
+    flags: CommandFlags,
+    args: string[]
+  ): number | Promise<number>;
+}
+
+const INSTALL_OPTIONS = {
+  client: { type: "string" },
+  "dry-run": { type: "boolean" },
+  transport: { type: "string" },
+} as const;
+
+const UNINSTALL_OPTIONS = {
+  client: { type: "string" },
+  "dry-run": { type: "boolean" },
+} as const;
+
+// For commands printing a report
+const JSON_OPTIONS = {
+  json: { type: "boolean" },
+} as const;
+
+const INSPECT_OPTIONS = {
+  args: { type: "string" },
+  ...JSON_OPTIONS,
+} as const;
+
+const toInspectOptions = (flags: CommandFlags): InspectOptions => ({
+  ...(typeof flags.args === "string" && { args: flags.args }),
+  ...(flags.json === true && { json: true }),
+});
+
+const inspectCommand = (kind: "prompts" | "resources" | "tools"): Command => ({
+  options: INSPECT_OPTIONS,
+  run: (config, flags, args) =>
+    inspect(config, kind, args, toInspectOptions(flags)),
+  takesArguments: true,
+});
+
+const COMMANDS: Record<string, Command> = {
+  // Shorthand for tools call
+  call: {
+    options: INSPECT_OPTIONS,
+    run: (config, flags, args) =>
+      inspect(config, "tools", ["call", ...args], toInspectOptions(flags)),
+    takesArguments: true,
+  },
+  doctor: {
+    options: JSON_OPTIONS,
+    run: (config, flags) =>
+      doctor(config, { ...(flags.json === true && { json: true }) }),
+  },
+  install: {
+    options: INSTALL_OPTIONS,
+    run: (config, flags) =>
+      install(config, {
+        ...(typeof flags.client === "string" && { client: flags.client }),
+        ...(flags["dry-run"] === true && { dryRun: true }),
+        ...(typeof flags.transport === "string" && {
+          transport: flags.transport,
+        }),
+      }),
+  },
+  login: { run: (config) => login(config) },
+  logout: { run: (config) => logout(config) },
+  prompts: inspectCommand("prompts"),
+  repl: { run: (config) => repl(config) },
+  resources: inspectCommand("resources"),
+  status: {
+    options: JSON_OPTIONS,
+    run: (config, flags) =>
+      status(config, { ...(flags.json === true && { json: true }) }),
+  },
+  tools: inspectCommand("tools"),
+  uninstall: {
+    options: UNINSTALL_OPTIONS,
+    run: (config, flags) =>
+      uninstall(config, {
+        ...(typeof flags.client === "string" && { client: flags.client }),
+        ...(flags["dry-run"] === true && { dryRun: true }),
+      }),
+  },
+  whoami: { run: (config) => whoami(config) },
+};
+
+export const USAGE = `Usage: ai-job-search-mcp [command] [options]
+
+Without a command, runs the stdio bridge for your MCP client.
+
+Commands:
+  call <name>       Call a tool, the same as tools call
+  doctor            Check Node.js, client detection, the connection and
+                    sign-in
+  install           Add FoundRole to an MCP client's config file
+  login             Sign in to FoundRole and store the credentials
+  logout            Revoke and delete the stored credentials
+  prompts list, prompts get <name>
+                    List FoundRole's prompts or show one filled in
+  repl              Explore FoundRole's tools, prompts and resources in an
+                    interactive shell
+  resources list, resources read <uri>
+                    List FoundRole's resources or print one
+  status            Show which MCP client configs on this machine use
+                    FoundRole
+  tools list, tools call <name>
+                    List FoundRole's tools with their arguments or call one
+  uninstall         Remove the entries install added to MCP client configs
+  whoami            Show the signed-in account and token expiry
+
+Options:
+  --allow-tool <pattern>, --deny-tool <pattern>
+  --allow-prompt <pattern>, --deny-prompt <pattern>
+  --allow-resource <uri-pattern>, --deny-resource <uri-pattern>
+                    Expose only matching tools, prompts or resources, or hide
+                    them; * and ? are wildcards; repeatable
+  --confirm-destructive
+                    Ask before running tools annotated as destructive
+  --confirm-fallback <allow|argument|block>
+                    For clients that cannot ask: run the tool, require a
+                    confirm: true argument, or refuse it (default: block)
+  --config <file>   Read settings from this file instead of ./.foundrole-mcp.json
+  --lazy-connect    Start from cached capabilities and connect on first use
+  --log-file <file> Also write the log to this file, rotating it as it grows
+  --log-format <f>  human (default) or json
+  --log-level <lvl> error, warn, info (default), debug or trace
+  --prompt-prefix <prefix>, --tool-prefix <prefix>
+                    Show prompt or tool names with this prefix
+  --rename-prompt <name=new>, --rename-tool <name=new>
+                    Show a prompt or tool under another name; repeatable
+  --profile <name>  Account profile to use (default: MCP_PROFILE or "default")
+  --read-only       Hide and refuse tools not annotated as read-only
+  --record <file>   Append every JSON-RPC message to this session file
+  --redact <field>  Also blank this field in the session file; repeatable
+  --replay <file>   Answer from a recorded session instead of FoundRole
+  --schema-shim <name>
+                    Rewrite tool schemas for cursor, gemini or openai-strict
+                    instead of the detected client, or none; repeatable
+  --timeout <[method=]ms>
+                    Upstream deadline for a method such as tools/call, or
+                    for all others without a method; repeatable
+  --unannotated-tools <allow|block>
+                    Whether --read-only lets through tools without
+                    annotations (default: block)
+  --url <url>       FoundRole MCP endpoint (default: MCP_TARGET_URL)
+  -h, --help        Show this help
+
+Install and uninstall options:
+  --client <name>   claude-desktop, cursor, lm-studio, perplexity, vscode or
+                    windsurf; uninstall without it removes every entry
+  --dry-run         Show the change to the config file without writing it
+  --transport <t>   stdio (default) to run this bridge, or http to connect
+                    straight to FoundRole where the client supports it
+
+Doctor and status options:
+  --json            Print the result as JSON
+
+Tools, call, prompts and resources options:
+  --args <json>     Arguments for the tool or prompt, as a JSON object
+  --json            Print what FoundRole returned as JSON
+
+Settings are read from ~/.foundrole-mcp/config.json, then the project
+config file, then MCP_* environment variables, then these flags.`;
+
+// Settings flags shared by the bridge and every command
+const CONFIG_OPTIONS = {
+  "allow-prompt": { multiple: true, type: "string" },
+  "allow-resource": { multiple: true, type: "string" },
+  "allow-tool": { multiple: true, type: "string" },
+  config: { type: "string" },
+  "confirm-destructive": { type: "boolean" },
+  "confirm-fallback": { type: "string" },
+  "deny-prompt": { multiple: true, type: "string" },
+  "deny-resource": { multiple: true, type: "string" },
+  "deny-tool": { multiple: true, type: "string" },
+  "lazy-connect": { type: "boolean" },
+  "log-file": { type: "string" },
+  "log-format": { type: "string" },
+  "log-level": { type: "string" },
+  profile: { type: "string" },
+  "prompt-prefix": { type: "string" },
+  "read-only": { type: "boolean" },
+  record: { type: "string" },
+  redact: { multiple: true, type: "string" },
+  "rename-prompt": { multiple: true, type: "string" },
+  "rename-tool": { multiple: true, type: "string" },
+  replay: { type: "string" },
+  "schema-shim": { multiple: true, type: "string" },
+  timeout: { multiple: true, type: "string" },
+  "tool-prefix": { type: "string" },
+  "unannotated-tools": { type: "string" },
+  url: { type: "string" },
+} as const;
+
+// The filter rule each repeatable filter flag adds its pattern to
+const FILTER_FLAGS = {
+  "allow-prompt": ["prompts", "allow"],
+  "allow-resource": ["resources", "allow"],
+  "allow-tool": ["tools", "allow"],
+  "deny-prompt": ["prompts", "deny"],
+  "deny-resource": ["resources", "deny"],
+  "deny-tool": ["tools", "deny"],
+} as const;
+
+const toFilters = (
+  values: Partial<Record<keyof typeof FILTER_FLAGS, (boolean | string)[]>>
+): ProxyFilters => {
+  const filters: ProxyFilters = {};
+  for (const [flag, [kind, rule]] of Object.entries(FILTER_FLAGS)) {
+    const patterns = values[flag as keyof typeof FILTER_FLAGS];
+    if (patterns) {
+      const rules: FilterRules = (filters[kind] ??= {});
+      rules[rule] = patterns.map(String);
+    }
+  }
+  return filters;
+};
+
+const toNameRules = (
+  prefix: boolean | string | undefined,
+  rename: (boolean | string)[] | undefined
+): NameRules | undefined =>
+  prefix !== undefined || rename
+    ? {
+        ...(prefix !== undefined && { prefix: String(prefix) }),
+        ...(rename && { rename: parseRenames(rename.map(String)) }),
+      }
+    : undefined;
+
+const toConfigOptions = (values: {
+  "allow-prompt"?: (boolean | string)[];
+  "allow-resource"?: (boolean | string)[];
+  "allow-tool"?: (boolean | string)[];
+  config?: boolean | string;
+  "confirm-destructive"?: boolean | string;
+  "confirm-fallback"?: boolean | string;
+  "deny-prompt"?: (boolean | string)[];
+  "deny-resource"?: (boolean | string)[];
+  "deny-tool"?: (boolean | string)[];
+  "lazy-connect"?: boolean | string;
+  "log-file"?: boolean | string;
+  "log-format"?: boolean | string;
+  "log-level"?: boolean | string;
+  profile?: boolean | string;
+  "prompt-prefix"?: boolean | string;
+  "read-only"?: boolean | string;
+  record?: boolean | string;
+  redact?: (boolean | string)[];
+  "rename-prompt"?: (boolean | string)[];
+  "rename-tool"?: (boolean | string)[];
+  replay?: boolean | string;
+  "schema-shim"?: (boolean | string)[];
+  timeout?: (boolean | string)[];
+  "tool-prefix"?: boolean | string;
+  "unannotated-tools"?: boolean | string;
+  url?: boolean | string;
+}): ConfigOptions => {
+  const filters = toFilters(values);
+  const prompts = toNameRules(values["prompt-prefix"], values["rename-prompt"]);
+  const tools = toNameRules(values["tool-prefix"], values["rename-tool"]);
+  const names: ProxyNames = {
+    ...(prompts && { prompts }),
+    ...(tools && { tools }),
+  };
+  return {
+    ...(typeof values.config === "string" && { configFile: values.config }),
+    flags: {
+      ...(values["confirm-destructive"] !== undefined && {
+        confirmDestructive: values["confirm-destructive"],
+      }),
+      ...(values["confirm-fallback"] !== undefined && {
+        confirmFallback: values["confirm-fallback"],
+      }),
+      ...(Object.keys(filters).length && { filters }),
+      ...(values["lazy-connect"] !== undefined && {
+        lazyConnect: values["lazy-connect"],
+      }),
+      ...(values["log-file"] !== undefined && { logFile: values["log-file"] }),
+      ...(values["log-format"] !== undefined && {
+        logFormat: values["log-format"],
+      }),
+      ...(values["log-level"] !== undefined && {
+        logLevel: values["log-level"],
+      }),
+      ...(Object.keys(names).length && { names }),
+      ...(values.profile !== undefined && { profile: values.profile }),
+      ...(values["read-only"] !== undefined && {
+        readOnly: values["read-only"],
+      }),
+      ...(values.record !== undefined && { recordFile: values.record }),
+      ...(values.redact && { redactFields: values.redact }),
+      ...(values.replay !== undefined && { replayFile: values.replay }),
+      ...(values["schema-shim"] && { schemaShims: values["schema-shim"] }),
+      ...(values.timeout && {
+        timeouts: parseTimeouts(values.timeout.map(String)),
+      }),
+      ...(values["unannotated-tools"] !== undefined && {
+        unannotatedTools: values["unannotated-tools"],
+      }),
+      ...(values.url !== undefined && { targetUrl: values.url }),
+    },
+  };
+};
+
+const reportError = (error: unknown): void => {
+  console.error(
+    `Error: ${error instanceof Error ? error.message : String(error)}`
+  );
+  process.exitCode = 1;
+};
+
+/**
+ * Entry point for the ai-job-search-mcp binary: dispatches subcommands and
+ * falls back to the stdio bridge when none is given
+ */
+export async function runCli(argv: string[]): Promise<void> {
+  const [name, ...rest] = argv;
+
+  if (name === "-h" || name === "--help" || name === "help") {
+    console.log(USAGE);
+    return;
+  }
+
+  const command =
+    name && Object.hasOwn(COMMANDS, name) ? COMMANDS[name] : undefined;
+  if (!command) {
+    // MCP clients launch the bridge with arbitrary extra arguments, so
+    // unknown ones are ignored rather than rejected
+    let config: ProxyConfig;
+    try {
+      const { values } = parseArgs({
+        allowPositionals: true,
+        args: argv,
+        options: CONFIG_OPTIONS,
+        strict: false,
+      });
+      config = getProxyConfig(toConfigOptions(values));
+    } catch (error) {
+      reportError(error);
+      return;
+    }
+    await main(config);
+    return;
+  }
+
+  try {
+    const { positionals, values } = parseArgs({
+      allowPositionals: command.takesArguments ?? false,
+      args: rest,
+      options: {
+        ...CONFIG_OPTIONS,
+        ...command.options,
+        help: { short: "h", type: "boolean" },
+      },
+      strict: true,
+    });
+
+    if (values.help) {
+      console.log(USAGE);
+      return;
+    }
+
+    const config = getProxyConfig(toConfigOptions(values));
+    configureLogger({
+      ...(config.logFile && { file: config.logFile }),
+      ...(config.logFormat && { format: config.logFormat }),
+      ...(config.logLevel && { level: config.logLevel }),
+    });
+    process.exitCode = await command.run(config, values, positionals);
+  } catch (error) {
+    reportError(error);
+  }
+}
@@ -0,0 +1,523 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  ContentBlock,
+  GetPromptResult,
+  Prompt,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import {
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  PROXY_NAME,
+  PROXY_VERSION,
+} from "../constants.js";
+import { createFilter, isReadOnlyTool } from "../filters.js";
+import { ProxyOAuthProvider } from "../oauth-provider.js";
+import { SessionRecorder } from "../session-recorder.js";
+import { readSession } from "../session-replay.js";
+import { createHttpClient } from "../stdio-server.js";
+import { TokenStore } from "../token-store.js";
+import { CONFIRM_ARGUMENT, isDestructiveTool } from "../tool-confirmation.js";
+import type { ProxyConfig, RequestTimeouts } from "../types.js";
+
+export interface InspectOptions {
+  // Arguments for the tool or prompt, as a JSON object
+  args?: string;
+  // Print what the server returned as JSON instead of text
+  json?: boolean;
+}
+
+export type RequestOptionsFor = (
+  method: keyof RequestTimeouts
+) => RequestOptions;
+
+/**
+ * Refuses what the bridge would refuse under the configured filters,
+ * read-only mode and destructive tool confirmation, since these commands
+ * use the same settings and sign-in
+ */
+export interface Guard {
+  // Whether tool calls are checked against the tool's annotations, so the
+  // tool has to be looked up first
+  needsTool: boolean;
+  prompt(name: string): void;
+  resource(uri: string): void;
+  // Returns the arguments to send
+  toolCall(
+    name: string,
+    args: Record<string, unknown> | undefined,
+    tool: Tool | undefined
+  ): Record<string, unknown> | undefined;
+}
+
+type Inspect = (
+  client: Client,
+  args: string[],
+  options: InspectOptions,
+  requestOptions: RequestOptionsFor,
+  guard: Guard
+) => Promise<number>;
+
+const USAGES = {
+  prompts: "prompts list | prompts get <name> [--args <json>]",
+  resources: "resources list | resources read <uri>",
+  tools: "tools list | tools call <name> [--args <json>]",
+};
+
+const usageError = (kind: keyof typeof USAGES): Error =>
+  new Error(`Usage: ai-job-search-mcp ${USAGES[kind]}`);
+
+export const printJson = (value: unknown): void => {
+  console.log(JSON.stringify(value, null, 2));
+};
+
+const parseArguments = (
+  text: string | undefined
+): Record<string, unknown> | undefined => {
+  if (text === undefined) {
+    return undefined;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `--args is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("--args must be a JSON object");
+  }
+  return parsed as Record<string, unknown>;
+};
+
+// Collects every page of a list request
+const listAll = async <T>(
+  listPage: (cursor?: string) => Promise<{ items: T[]; nextCursor?: string }>
+): Promise<T[]> => {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await listPage(cursor);
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+};
+
+export const fetchTools = (
+  client: Client,
+  requestOptions: RequestOptionsFor
+): Promise<Tool[]> =>
+  listAll(async (cursor) => {
+    const page = await client.listTools(
+      cursor ? { cursor } : {},
+      requestOptions("tools/list")
+    );
+    return {
+      items: page.tools,
+      ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    };
+  });
+
+export const fetchPrompts = (
+  client: Client,
+  requestOptions: RequestOptionsFor
+): Promise<Prompt[]> =>
+  listAll(async (cursor) => {
+    const page = await client.listPrompts(
+      cursor ? { cursor } : {},
+      requestOptions("prompts/list")
+    );
+    return {
+      items: page.prompts,
+      ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    };
+  });
+
+export const fetchResources = (
+  client: Client,
+  requestOptions: RequestOptionsFor
+): Promise<Resource[]> =>
+  listAll(async (cursor) => {
+    const page = await client.listResources(
+      cursor ? { cursor } : {},
+      requestOptions("resources/list")
+    );
+    return {
+      items: page.resources,
+      ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    };
+  });
+
+export const fetchResourceTemplates = (
+  client: Client,
+  requestOptions: RequestOptionsFor
+): Promise<ResourceTemplate[]> =>
+  listAll(async (cursor) => {
+    const page = await client.listResourceTemplates(
+      cursor ? { cursor } : {},
+      requestOptions("resources/templates/list")
+    );
+    return {
+      items: page.resourceTemplates,
+      ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    };
+  });
+
+const indent = (text: string, by = "  "): string =>
+  text
+    .split("\n")
+    .map((line) => `${by}${line}`)
+    .join("\n");
+
+// The top-level properties of a tool's input schema, one per line
+export const describeArguments = (schema: Tool["inputSchema"]): string[] => {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const details =
+      typeof property === "object" && property !== null
+        ? (property as { description?: unknown; type?: unknown })
+        : {};
+    const type = Array.isArray(details.type)
+      ? details.type.join(" | ")
+      : typeof details.type === "string"
+        ? details.type
+        : "any";
+    return `${name} (${type}${required.has(name) ? ", required" : ""})${
+      typeof details.description === "string" ? `: ${details.description}` : ""
+    }`;
+  });
+};
+
+export const describeContent = (block: ContentBlock): string => {
+  switch (block.type) {
+    case "text":
+      return block.text;
+    case "image":
+    case "audio":
+      return `[${block.type}: ${block.mimeType}, ${Buffer.from(block.data, "base64").length} bytes]`;
+    case "resource_link":
+      return `[resource: ${block.uri}]`;
+    case "resource":
+      return "text" in block.resource
+        ? block.resource.text
+        : `[resource: ${block.resource.uri}, binary]`;
+    default:
+      return JSON.stringify(block);
+  }
+};
+
+const blocked = (what: string): Error =>
+  new Error(`${what} is blocked by the proxy configuration`);
+
+export const createGuard = (config: ProxyConfig): Guard => {
+  const promptAllowed = createFilter(config.filters?.prompts);
+  const resourceAllowed = createFilter(config.filters?.resources);
+  const toolAllowed = createFilter(config.filters?.tools);
+  return {
+    needsTool: Boolean(config.readOnly || config.confirmDestructive),
+    prompt: (name) => {
+      if (!promptAllowed(name)) {
+        throw blocked(`Prompt ${name}`);
+      }
+    },
+    resource: (uri) => {
+      if (!resourceAllowed(uri)) {
+        throw blocked(`Resource ${uri}`);
+      }
+    },
+    toolCall: (name, args, tool) => {
+      if (!toolAllowed(name)) {
+        throw blocked(`Tool ${name}`);
+      }
+      if (
+        config.readOnly &&
+        !(tool && isReadOnlyTool(tool, config.unannotatedTools ?? "block"))
+      ) {
+        throw new Error(
+          `Tool ${name} is not marked read-only and is blocked in read-only mode`
+        );
+      }
+      if (!config.confirmDestructive || !tool || !isDestructiveTool(tool)) {
+        return args;
+      }
+      // Nothing here can ask the user, so the fallback for clients that
+      // cannot ask applies
+      switch (config.confirmFallback ?? "block") {
+        case "allow":
+          return args;
+        case "argument": {
+          const { [CONFIRM_ARGUMENT]: confirm, ...rest } = args ?? {};
+          if (confirm !== true) {
+            throw new Error(
+              `${name} is destructive; pass "${CONFIRM_ARGUMENT}": true to run it`
+            );
+          }
+          return rest;
+        }
+        case "block":
+          throw new Error(
+            `${name} is destructive and destructive tools need confirming, which this command cannot ask for`
+          );
+      }
+    },
+  };
+};
+
+const listTools: Inspect = async (client, _args, options, requestOptions) => {
+  const tools = await fetchTools(client, requestOptions);
+  if (options.json) {
+    printJson(tools);
+    return 0;
+  }
+  for (const tool of tools) {
+    console.log(tool.name);
+    if (tool.description) {
+      console.log(indent(tool.description));
+    }
+    const args = describeArguments(tool.inputSchema);
+    if (args.length) {
+      console.log("  Arguments:");
+      console.log(indent(args.join("\n"), "    "));
+    }
+    console.log("");
+  }
+  return 0;
+};
+
+const callTool: Inspect = async (
+  client,
+  args,
+  options,
+  requestOptions,
+  guard
+) => {
+  const [name] = args;
+  if (!name || args.length > 1) {
+    throw usageError("tools");
+  }
+  const tool = guard.needsTool
+    ? (await fetchTools(client, requestOptions)).find(
+        (candidate) => candidate.name === name
+      )
+    : undefined;
+  const toolArguments = guard.toolCall(
+    name,
+    parseArguments(options.args),
+    tool
+  );
+  const result = await client.callTool(
+    { name, ...(toolArguments && { arguments: toolArguments }) },
+    undefined,
+    requestOptions("tools/call")
+  );
+  if (options.json) {
+    printJson(result);
+  } else if (Array.isArray(result.content) && result.content.length) {
+    console.log(
+      (result.content as ContentBlock[]).map(describeContent).join("\n")
+    );
+  } else if (result.structuredContent !== undefined) {
+    printJson(result.structuredContent);
+  }
+  return result.isError ? 1 : 0;
+};
+
+const listPrompts: Inspect = async (client, _args, options, requestOptions) => {
+  const prompts = await fetchPrompts(client, requestOptions);
+  if (options.json) {
+    printJson(prompts);
+    return 0;
+  }
+  for (const prompt of prompts) {
+    console.log(prompt.name);
+    if (prompt.description) {
+      console.log(indent(prompt.description));
+    }
+    for (const argument of prompt.arguments ?? []) {
+      console.log(
+        `    ${argument.name}${argument.required ? " (required)" : ""}${
+          argument.description ? `: ${argument.description}` : ""
+        }`
+      );
+    }
+  }
+  return 0;
+};
+
+const getPrompt: Inspect = async (
+  client,
+  args,
+  options,
+  requestOptions,
+  guard
+) => {
+  const [name] = args;
+  if (!name || args.length > 1) {
+    throw usageError("prompts");
+  }
+  guard.prompt(name);
+  const promptArguments = parseArguments(options.args);
+  if (
+    promptArguments &&
+    Object.values(promptArguments).some((value) => typeof value !== "string")
+  ) {
+    throw new Error("Prompt arguments must be strings");
+  }
+  const result: GetPromptResult = await client.getPrompt(
+    {
+      name,
+      ...(promptArguments && {
+        arguments: promptArguments as Record<string, string>,
+      }),
+    },
+    requestOptions("prompts/get")
+  );
+  if (options.json) {
+    printJson(result);
+    return 0;
+  }
+  if (result.description) {
+    console.log(`${result.description}\n`);
+  }
+  for (const message of result.messages) {
+    console.log(`${message.role}:`);
+    console.log(indent(describeContent(message.content)));
+  }
+  return 0;
+};
+
+const listResources: Inspect = async (
+  client,
+  _args,
+  options,
+  requestOptions
+) => {
+  const resources = await fetchResources(client, requestOptions);
+  const templates = await fetchResourceTemplates(client, requestOptions);
+  if (options.json) {
+    printJson({ resources, resourceTemplates: templates });
+    return 0;
+  }
+  for (const { mimeType, name, uri } of resources) {
+    console.log(`${uri}  ${name}${mimeType ? ` (${mimeType})` : ""}`);
+  }
+  for (const { mimeType, name, uriTemplate } of templates) {
+    console.log(
+      `${uriTemplate}  ${name}${mimeType ? ` (${mimeType})` : ""}, template`
+    );
+  }
+  return 0;
+};
+
+const readResource: Inspect = async (
+  client,
+  args,
+  options,
+  requestOptions,
+  guard
+) => {
+  const [uri] = args;
+  if (!uri || args.length > 1) {
+    throw usageError("resources");
+  }
+  guard.resource(uri);
+  const result: ReadResourceResult = await client.readResource(
+    { uri },
+    requestOptions("resources/read")
+  );
+  if (options.json) {
+    printJson(result);
+    return 0;
+  }
+  for (const contents of result.contents) {
+    console.log(
+      "text" in contents
+        ? contents.text
+        : `[binary: ${contents.mimeType ?? "unknown type"}, ${
+            Buffer.from(contents.blob, "base64").length
+          } bytes]`
+    );
+  }
+  return 0;
+};
+
+const ACTIONS: Record<keyof typeof USAGES, Record<string, Inspect>> = {
+  prompts: { get: getPrompt, list: listPrompts },
+  resources: { list: listResources, read: readResource },
+  tools: { call: callTool, list: listTools },
+};
+
+/**
+ * Connects to FoundRole as the bridge would, with the stored sign-in of the
+ * profile and any recording or replay the settings ask for
+ */
+export const connectUpstream = async (config: ProxyConfig): Promise<Client> =>
+  createHttpClient({
+    authProvider: new ProxyOAuthProvider({
+      store: new TokenStore({
+        serverUrl: config.targetUrl,
+        ...(config.profile && { profile: config.profile }),
+      }),
+    }),
+    clientInfo: { name: PROXY_NAME, version: PROXY_VERSION },
+    url: config.targetUrl,
+    ...(config.recordFile && {
+      recorder: new SessionRecorder({
+        file: config.recordFile,
+        targetUrl: config.targetUrl,
+        ...(config.redactFields && { redactFields: config.redactFields }),
+      }),
+    }),
+    ...(config.replayFile && { replay: readSession(config.replayFile) }),
+  });
+
+// The deadline the bridge would use for each method
+export const requestOptionsFor =
+  (config: ProxyConfig): RequestOptionsFor =>
+  (method) => ({
+    resetTimeoutOnProgress: true,
+    timeout:
+      config.timeouts?.[method] ??
+      config.timeouts?.default ??
+      DEFAULT_REQUEST_TIMEOUT_MS,
+  });
+
+/**
+ * Runs one inspection command. Tools, prompts and resources are shown as
+ * upstream lists them, without the bridge's names, but calls, prompts and
+ * reads are refused as the bridge would refuse them.
+ */
+export async function inspect(
+  config: ProxyConfig,
+  kind: keyof typeof USAGES,
+  [action, ...args]: string[],
+  options: InspectOptions = {}
+): Promise<number> {
+  const actions = ACTIONS[kind];
+  const run =
+    action && Object.hasOwn(actions, action) ? actions[action] : undefined;
+  if (!run) {
+    throw new Error(
+      `${action ? `Unknown ${kind} action "${action}"` : `No ${kind} action given`}; use one of: ${Object.keys(actions).join(", ")}`
+    );
+  }
+
+  const client = await connectUpstream(config);
+  try {
+    return await run(
+      client,
+      args,
+      options,
+      requestOptionsFor(config),
+      createGuard(config)
+    );
+  } finally {
+    await client.close();
+  }
+}
@@ -0,0 +1,371 @@
+import fs from "node:fs";
+import path from "node:path";
+import { isDeepStrictEqual } from "node:util";
+
+import type {
+  ClientEnvironment,
+  ClientId,
+  FoundRoleServer,
+} from "../client-configs.js";
+import {
+  CLIENT_IDS,
+  clientConfigPath,
+  clientLabel,
+  createServerEntry,
+  defaultClientEnvironment,
+  findFoundRoleServers,
+  formatClientConfig,
+  isClientId,
+  isServerTransport,
+  readClientConfig,
+  SERVER_ENTRY_NAME,
+  SERVER_TRANSPORTS,
+  serversIn,
+  withoutServerEntry,
+  withServerEntry,
+} from "../client-configs.js";
+import { InstallManifest } from "../install-manifest.js";
+import type { ProxyConfig } from "../types.js";
+import { writeFileAtomic } from "../write-file-atomic.js";
+
+export interface InstallOptions {
+  client?: string;
+  // Print the change instead of writing it
+  dryRun?: boolean;
+  // Where client config files are looked for, the user's own by default
+  environment?: ClientEnvironment;
+  transport?: string;
+}
+
+export interface UninstallOptions {
+  // Only this client, instead of every one install added FoundRole to
+  client?: string;
+  dryRun?: boolean;
+}
+
+export interface StatusOptions {
+  environment?: ClientEnvironment;
+  // Print the statuses as JSON, for scripts
+  json?: boolean;
+}
+
+type DiffLine = [" " | "+" | "-", string];
+
+/**
+ * Line diff of two texts, from their longest common subsequence. Client
+ * config files are small enough for the quadratic table.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.replace(/\n$/, "").split("\n") : [];
+  const b = after ? after.replace(/\n$/, "").split("\n") : [];
+  // Length of the longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const common = new Array<number>((a.length + 1) * width).fill(0);
+  const lcs = (i: number, j: number) => common[i * width + j] ?? 0;
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i * width + j] =
+        a[i] === b[j]
+          ? lcs(i + 1, j + 1) + 1
+          : Math.max(lcs(i + 1, j), lcs(i, j + 1));
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push([" ", a[i] ?? ""]);
+      i++;
+      j++;
+    } else if (
+      j < b.length &&
+      (i === a.length || lcs(i, j + 1) >= lcs(i + 1, j))
+    ) {
+      lines.push(["+", b[j++] ?? ""]);
+    } else {
+      lines.push(["-", a[i++] ?? ""]);
+    }
+  }
+  return lines;
+}
+
+// Next to the original, named so repeated changes never overwrite one
+const backupPath = (file: string): string =>
+  `${file}.${new Date().toISOString().replace(/[:.]/g, "-")}.bak`;
+
+/**
+ * Writes `after` over a client config file, backing up what was there, or
+ * on a dry run prints the diff instead. `before` is empty for a new file.
+ * Returns whether the file was written.
+ */
+function applyChange(
+  file: string,
+  before: string,
+  after: string,
+  dryRun: boolean | undefined
+): boolean {
+  if (dryRun) {
+    console.log(`--- ${before ? file : "/dev/null"}`);
+    console.log(`+++ ${file}`);
+    for (const [mark, line] of diffLines(before, after)) {
+      console.log(`${mark}${line}`);
+    }
+    console.log(`Dry run: ${file} was not changed.`);
+    return false;
+  }
+
+  if (before) {
+    const backup = backupPath(file);
+    fs.copyFileSync(file, backup);
+    console.log(`Backed up ${file} to ${backup}.`);
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  writeFileAtomic(file, after);
+  return true;
+}
+
+const toClientId = (client: string | undefined): ClientId => {
+  if (!client || !isClientId(client)) {
+    throw new Error(
+      `${client ? `Unknown client "${client}"` : "No client given"}; use --client with one of: ${CLIENT_IDS.join(", ")}`
+    );
+  }
+  return client;
+};
+
+/**
+ * Adds FoundRole to an MCP client's config file, keeping the servers
+ * already there and a backup of the file
+ */
+export function install(
+  config: ProxyConfig,
+  options: InstallOptions = {}
+): number {
+  const { dryRun, transport = "stdio" } = options;
+  const client = toClientId(options.client);
+  if (!isServerTransport(transport)) {
+    throw new Error(
+      `Unknown transport "${transport}"; use one of: ${SERVER_TRANSPORTS.join(", ")}`
+    );
+  }
+
+  const label = clientLabel(client);
+  const entry = createServerEntry(client, {
+    targetUrl: config.targetUrl,
+    transport,
+    ...(config.profile && { profile: config.profile }),
+  });
+
+  const file = clientConfigPath(
+    client,
+    options.environment ?? defaultClientEnvironment()
+  );
+  if (!file) {
+    console.log(
+      `${label} keeps its MCP servers in the app. Open its MCP settings and add this server as "${SERVER_ENTRY_NAME}":`
+    );
+    console.log(JSON.stringify(entry, null, 2));
+    return 0;
+  }
+
+  const existing = readClientConfig(file);
+  const before = existing ? fs.readFileSync(file, "utf-8") : "";
+  const after = formatClientConfig(
+    withServerEntry(client, existing ?? {}, entry),
+    before
+  );
+  if (existing && formatClientConfig(existing, before) === after) {
+    console.log(`FoundRole is already set up in ${label} (${file}).`);
+    return 0;
+  }
+
+  const replacing =
+    existing && SERVER_ENTRY_NAME in serversIn(client, existing);
+  if (!applyChange(file, before, after, dryRun)) {
+    return 0;
+  }
+  new InstallManifest().record(file, { client, entry });
+  console.log(
+    replacing
+      ? `Updated the FoundRole entry in ${file}.`
+      : `Added FoundRole to ${label} in ${file}.`
+  );
+  console.log(`Restart ${label} to connect.`);
+  return 0;
+}
+
+/**
+ * Removes the FoundRole entries the install command added, from one client
+ * or all of them. Entries changed since are left for the user to remove.
+ */
+export function uninstall(
+  _config: ProxyConfig,
+  options: UninstallOptions = {}
+): number {
+  const client =
+    options.client === undefined ? undefined : toClientId(options.client);
+  const manifest = new InstallManifest();
+  const records = Object.entries(manifest.readAll()).filter(
+    ([, record]) => !client || record.client === client
+  );
+  if (!records.length) {
+    console.log(
+      `The install command has not added FoundRole to ${client ? clientLabel(client) : "any client"}; nothing to remove.`
+    );
+    return 0;
+  }
+
+  let exitCode = 0;
+  for (const [file, record] of records) {
+    const label = clientLabel(record.client);
+    let existing: ReturnType<typeof readClientConfig>;
+    let current: unknown;
+    try {
+      existing = readClientConfig(file);
+      current =
+        existing && serversIn(record.client, existing)[SERVER_ENTRY_NAME];
+    } catch (error) {
+      console.error(
+        `Skipped ${label}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      exitCode = 1;
+      continue;
+    }
+
+    if (!existing || current === undefined) {
+      console.log(`FoundRole is no longer in ${label} (${file}).`);
+      if (!options.dryRun) {
+        manifest.forget(file);
+      }
+      continue;
+    }
+    if (!isDeepStrictEqual(current, record.entry)) {
+      console.log(
+        `Left ${label} alone: the FoundRole entry in ${file} was changed after it was installed. Remove it by hand if you no longer want it.`
+      );
+      exitCode = 1;
+      continue;
+    }
+
+    const before = fs.readFileSync(file, "utf-8");
+    const after = formatClientConfig(
+      withoutServerEntry(record.client, existing),
+      before
+    );
+    if (applyChange(file, before, after, options.dryRun)) {
+      manifest.forget(file);
+      console.log(`Removed FoundRole from ${label} in ${file}.`);
+    }
+  }
+  return exitCode;
+}
+
+/**
+ * What a client's config file says about FoundRole
+ */
+export interface ClientStatus {
+  client: ClientId;
+  // Why the file could not be read or is not a JSON object
+  error?: string;
+  exists?: boolean;
+  // Absent for clients that keep their servers in the app
+  file?: string;
+  // Whether the FoundRole entry is the one the install command wrote
+  installed?: boolean;
+  servers?: FoundRoleServer[];
+  valid?: boolean;
+}
+
+/**
+ * Looks at the config file of every known client
+ */
+export function inspectClients(
+  config: ProxyConfig,
+  environment: ClientEnvironment = defaultClientEnvironment()
+): ClientStatus[] {
+  const records = new InstallManifest().readAll();
+  return CLIENT_IDS.map((client): ClientStatus => {
+    const file = clientConfigPath(client, environment);
+    if (!file) {
+      return { client };
+    }
+    if (!fs.existsSync(file)) {
+      return { client, exists: false, file };
+    }
+    try {
+      const existing = readClientConfig(file) ?? {};
+      const record = records[file];
+      const entry = serversIn(client, existing)[SERVER_ENTRY_NAME];
+      return {
+        client,
+        exists: true,
+        file,
+        installed:
+          record !== undefined && isDeepStrictEqual(entry, record.entry),
+        servers: findFoundRoleServers(client, existing, config.targetUrl),
+        valid: true,
+      };
+    } catch (error) {
+      return {
+        client,
+        error: error instanceof Error ? error.message : String(error),
+        exists: true,
+        file,
+        valid: false,
+      };
+    }
+  });
+}
+
+const describeServer = ({ name, transport, version }: FoundRoleServer) =>
+  `"${name}" over ${transport}${
+    transport === "stdio"
+      ? version
+        ? `, version ${version}`
+        : ", no version pinned"
+      : ""
+  }`;
+
+const describeStatus = (status: ClientStatus): string => {
+  if (!status.file) {
+    return "keeps its servers in the app, not checked";
+  }
+  if (!status.exists) {
+    return "no config file";
+  }
+  if (!status.valid) {
+    return `invalid: ${status.error}`;
+  }
+  if (!status.servers?.length) {
+    return "FoundRole not configured";
+  }
+  return `FoundRole configured as ${status.servers.map(describeServer).join("; ")}${
+    status.installed ? " (added by install)" : ""
+  }`;
+};
+
+/**
+ * Lists every known client config on the machine and whether it connects
+ * to FoundRole. Fails when any config file cannot be read.
+ */
+export function status(
+  config: ProxyConfig,
+  options: StatusOptions = {}
+): number {
+  const statuses = inspectClients(config, options.environment);
+  if (options.json) {
+    console.log(JSON.stringify(statuses, null, 2));
+  } else {
+    for (const clientStatus of statuses) {
+      console.log(
+        `${clientLabel(clientStatus.client)}: ${describeStatus(clientStatus)}`
+      );
+      if (clientStatus.file) {
+        console.log(`  ${clientStatus.file}`);
+      }
+    }
+  }
+  return statuses.some((clientStatus) => clientStatus.valid === false) ? 1 : 0;
+}
@@ -0,0 +1,581 @@
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type {
+  CallToolResult,
+  ContentBlock,
+  Prompt,
+  Resource,
+  ResourceTemplate,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { AjvJsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/ajv-provider.js";
+import type { JsonSchemaType } from "@modelcontextprotocol/sdk/validation/types.js";
+
+import { getStateDir } from "../constants.js";
+import type { ProxyConfig } from "../types.js";
+
+import type { RequestOptionsFor } from "./inspect.js";
+import {
+  connectUpstream,
+  createGuard,
+  describeArguments,
+  describeContent,
+  fetchPrompts,
+  fetchResources,
+  fetchResourceTemplates,
+  fetchTools,
+  requestOptionsFor,
+} from "./inspect.js";
+
+export interface ReplOptions {
+  // Defaults to repl_history in the state directory
+  historyFile?: string;
+  // Let tests type into the shell
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}
+
+/**
+ * What the server offers, loaded once on connect for completion and
+ * argument checks
+ */
+export interface Catalog {
+  prompts: Prompt[];
+  resources: Resource[];
+  templates: ResourceTemplate[];
+  tools: Tool[];
+}
+
+const HISTORY_SIZE = 500;
+
+// Thrown by exit to leave the read loop
+class ExitRequest extends Error {}
+
+const HELP = `Commands:
+  tools                         List the tools
+  describe <tool>               Show a tool's arguments
+  call <tool> [key=value ...]   Call a tool; values are JSON or plain text,
+  call <tool> {json}            or pass the arguments as one JSON object
+  prompts                       List the prompts
+  prompt <name> [key=value ...] Show a prompt filled in
+  resources                     List the resources and templates
+  read <uri>                    Print a resource
+  complete prompt <name> <argument> [value]
+  complete resource <template> <argument> [value]
+                                Ask the server to complete an argument
+  json on|off                   Print raw JSON results instead of text
+  help                          Show this help
+  exit                          Leave the shell
+
+Tab completes commands, names and argument keys.`;
+
+const COMMAND_NAMES = [
+  "call",
+  "complete",
+  "describe",
+  "exit",
+  "help",
+  "json",
+  "prompt",
+  "prompts",
+  "read",
+  "resources",
+  "tools",
+];
+
+/**
+ * Splits a line into words at unquoted whitespace, dropping the quotes, so
+ * query="data engineer" stays one word
+ */
+export const splitWords = (line: string): string[] => {
+  const words: string[] = [];
+  let word: string | undefined;
+  let quote: string | undefined;
+  for (const char of line) {
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      } else {
+        word += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      word ??= "";
+    } else if (/\s/.test(char)) {
+      if (word !== undefined) {
+        words.push(word);
+        word = undefined;
+      }
+    } else {
+      word = (word ?? "") + char;
+    }
+  }
+  if (quote) {
+    throw new Error(`Unclosed ${quote} quote`);
+  }
+  if (word !== undefined) {
+    words.push(word);
+  }
+  return words;
+};
+
+// Variable names in an RFC 6570 URI template
+const templateVariables = (uriTemplate: string): string[] =>
+  [...uriTemplate.matchAll(/\{[+#./;?&]?([^}]+)\}/g)].flatMap(([, names]) =>
+    (names ?? "").split(",").map((name) => name.replace(/[*]|:\d+$/g, ""))
+  );
+
+const argumentKeys = (words: string[], keys: string[]): string[] => {
+  const used = new Set(words.map((word) => word.split("=")[0]));
+  return keys.filter((key) => !used.has(key)).map((key) => `${key}=`);
+};
+
+/**
+ * Tab completion for a line typed so far: commands first, then the names
+ * and argument keys the server's catalog offers
+ */
+export const completeLine = (
+  line: string,
+  catalog: Catalog
+): [string[], string] => {
+  const words = line.split(/\s+/);
+  const partial = words.pop() ?? "";
+  const [command, ...args] = words;
+
+  const candidates = ((): string[] => {
+    if (command === undefined || command === "") {
+      return COMMAND_NAMES;
+    }
+    const toolNames = catalog.tools.map(({ name }) => name);
+    const promptNames = catalog.prompts.map(({ name }) => name);
+    const [first, second] = args;
+    switch (command) {
+      case "call": {
+        if (first === undefined) {
+          return toolNames;
+        }
+        const tool = catalog.tools.find(({ name }) => name === first);
+        return argumentKeys(
+          args.slice(1),
+          Object.keys(tool?.inputSchema.properties ?? {})
+        );
+      }
+      case "complete":
+        if (first === undefined) {
+          return ["prompt", "resource"];
+        }
+        if (second === undefined) {
+          return first === "prompt"
+            ? promptNames
+            : catalog.templates.map(({ uriTemplate }) => uriTemplate);
+        }
+        if (args.length === 2) {
+          return first === "prompt"
+            ? (catalog.prompts
+                .find(({ name }) => name === second)
+                ?.arguments?.map(({ name }) => name) ?? [])
+            : templateVariables(second);
+        }
+        return [];
+      case "describe":
+        return first === undefined ? toolNames : [];
+      case "json":
+        return first === undefined ? ["off", "on"] : [];
+      case "prompt": {
+        if (first === undefined) {
+          return promptNames;
+        }
+        const prompt = catalog.prompts.find(({ name }) => name === first);
+        return argumentKeys(
+          args.slice(1),
+          prompt?.arguments?.map(({ name }) => name) ?? []
+        );
+      }
+      case "read":
+        return first === undefined
+          ? catalog.resources.map(({ uri }) => uri)
+          : [];
+      default:
+        return [];
+    }
+  })();
+
+  return [
+    candidates.filter((candidate) => candidate.startsWith(partial)),
+    partial,
+  ];
+};
+
+const parseObject = (text: string): Record<string, unknown> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Arguments are not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("Arguments must be a JSON object");
+  }
+  return parsed as Record<string, unknown>;
+};
+
+const parsePairs = (
+  words: string[],
+  toValue: (key: string, value: string) => unknown
+): Record<string, unknown> =>
+  Object.fromEntries(
+    words.map((word) => {
+      const separator = word.indexOf("=");
+      if (separator <= 0) {
+        throw new Error(`Expected key=value, got "${word}"`);
+      }
+      const key = word.slice(0, separator);
+      return [key, toValue(key, word.slice(separator + 1))];
+    })
+  );
+
+/**
+ * Reads a tool's arguments from the rest of a call line: one JSON object,
+ * or key=value pairs whose values are JSON unless the schema wants a string
+ */
+export const parseToolArguments = (
+  text: string,
+  tool: Tool
+): Record<string, unknown> => {
+  if (text.trimStart().startsWith("{")) {
+    return parseObject(text);
+  }
+  return parsePairs(splitWords(text), (key, value) => {
+    const property = tool.inputSchema.properties?.[key] as
+      | undefined
+      | { type?: unknown };
+    if (property?.type === "string") {
+      return value;
+    }
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      return value;
+    }
+  });
+};
+
+const validator = new AjvJsonSchemaValidator();
+
+/**
+ * Checks arguments against the tool's input schema, so a mistake is caught
+ * before anything is sent
+ */
+export const checkToolArguments = (
+  tool: Tool,
+  args: Record<string, unknown>
+): void => {
+  const result = validator.getValidator(tool.inputSchema as JsonSchemaType)(
+    args
+  );
+  if (!result.valid) {
+    throw new Error(
+      `Invalid arguments for ${tool.name}: ${result.errorMessage}`
+    );
+  }
+};
+
+const formatToolResult = (result: CallToolResult): string => {
+  const parts: string[] = [];
+  if (result.isError) {
+    parts.push("The tool reported an error:");
+  }
+  if (result.content.length) {
+    parts.push(result.content.map(describeContent).join("\n"));
+  }
+  if (result.structuredContent !== undefined) {
+    parts.push(
+      `Structured content:\n${JSON.stringify(result.structuredContent, null, 2)}`
+    );
+  }
+  return parts.join("\n");
+};
+
+const firstLine = (text: string | undefined): string =>
+  text ? `  ${text.split("\n")[0] ?? ""}` : "";
+
+const loadCatalog = async (
+  client: Client,
+  requestOptions: RequestOptionsFor
+): Promise<Catalog> => {
+  const capabilities = client.getServerCapabilities() ?? {};
+  return {
+    prompts: capabilities.prompts
+      ? await fetchPrompts(client, requestOptions)
+      : [],
+    resources: capabilities.resources
+      ? await fetchResources(client, requestOptions)
+      : [],
+    templates: capabilities.resources
+      ? await fetchResourceTemplates(client, requestOptions)
+      : [],
+    tools: capabilities.tools ? await fetchTools(client, requestOptions) : [],
+  };
+};
+
+const readHistory = (file: string): string[] => {
+  try {
+    return fs
+      .readFileSync(file, "utf-8")
+      .split("\n")
+      .filter((line) => line.trim());
+  } catch {
+    return [];
+  }
+};
+
+const writeHistory = (file: string, history: string[]): void => {
+  try {
+    fs.mkdirSync(path.dirname(file), { mode: 0o700, recursive: true });
+    // Arguments may be personal, so only the user may read them
+    fs.writeFileSync(file, history.slice(0, HISTORY_SIZE).join("\n"), {
+      mode: 0o600,
+    });
+  } catch {
+    // Losing the history is not worth interrupting the shell for
+  }
+};
+
+/**
+ * An interactive shell on FoundRole for trying tools, prompts and
+ * resources by hand. Like the inspection commands it talks to upstream
+ * directly, without the bridge's names, but refuses what the bridge would.
+ */
+export async function repl(
+  config: ProxyConfig,
+  options: ReplOptions = {}
+): Promise<number> {
+  const client = await connectUpstream(config);
+  const requestOptions = requestOptionsFor(config);
+  const guard = createGuard(config);
+  const historyFile =
+    options.historyFile ?? path.join(getStateDir(), "repl_history");
+  let json = false;
+
+  try {
+    const catalog = await loadCatalog(client, requestOptions);
+    const server = client.getServerVersion();
+    console.log(
+      `Connected to ${server ? `${server.name} ${server.version}` : config.targetUrl}. Type help for commands.`
+    );
+
+    const findTool = (name: string | undefined): Tool => {
+      const tool = catalog.tools.find((candidate) => candidate.name === name);
+      if (!tool) {
+        throw new Error(`Unknown tool "${name ?? ""}"; try tools`);
+      }
+      return tool;
+    };
+
+    const print = (value: unknown, text: () => string): void => {
+      console.log(json ? JSON.stringify(value, null, 2) : text());
+    };
+
+    const run = async (line: string): Promise<void> => {
+      const [, command = "", rest = ""] = /^(\S*)\s*(.*)$/s.exec(line) ?? [];
+      switch (command) {
+        case "":
+          return;
+        case "call": {
+          const [, name, argsText = ""] = /^(\S+)\s*(.*)$/s.exec(rest) ?? [];
+          const tool = findTool(name);
+          const args =
+            guard.toolCall(
+              tool.name,
+              parseToolArguments(argsText, tool),
+              tool
+            ) ?? {};
+          checkToolArguments(tool, args);
+          const result = (await client.callTool(
+            { arguments: args, name: tool.name },
+            undefined,
+            requestOptions("tools/call")
+          )) as CallToolResult;
+          print(result, () => formatToolResult(result));
+          return;
+        }
+        case "complete": {
+          const [kind, target, argument, value = ""] = splitWords(rest);
+          if (
+            (kind !== "prompt" && kind !== "resource") ||
+            !target ||
+            !argument
+          ) {
+            throw new Error(
+              "Usage: complete prompt <name> <argument> [value] or complete resource <template> <argument> [value]"
+            );
+          }
+          const { completion } = await client.complete(
+            {
+              argument: { name: argument, value },
+              ref:
+                kind === "prompt"
+                  ? { name: target, type: "ref/prompt" }
+                  : { type: "ref/resource", uri: target },
+            },
+            requestOptions("completion/complete")
+          );
+          print(completion, () => {
+            const more =
+              completion.total !== undefined
+                ? completion.total - completion.values.length
+                : 0;
+            return [
+              ...completion.values,
+              ...(more > 0 || completion.hasMore
+                ? [`(${more > 0 ? `${more} ` : ""}more)`]
+                : []),
+            ].join("\n");
+          });
+          return;
+        }
+        case "describe": {
+          const tool = findTool(rest.trim());
+          print(tool, () =>
+            [
+              tool.name,
+              ...(tool.description ? [tool.description] : []),
+              ...describeArguments(tool.inputSchema).map(
+                (argument) => `  ${argument}`
+              ),
+            ].join("\n")
+          );
+          return;
+        }
+        case "exit":
+        case "quit":
+          throw new ExitRequest();
+        case "help":
+          console.log(HELP);
+          return;
+        case "json":
+          if (rest !== "on" && rest !== "off") {
+            throw new Error("Usage: json on|off");
+          }
+          json = rest === "on";
+          return;
+        case "prompt": {
+          const [name, ...pairs] = splitWords(rest);
+          if (!name) {
+            throw new Error("Usage: prompt <name> [key=value ...]");
+          }
+          guard.prompt(name);
+          const result = await client.getPrompt(
+            {
+              arguments: parsePairs(pairs, (_key, value) => value) as Record<
+                string,
+                string
+              >,
+              name,
+            },
+            requestOptions("prompts/get")
+          );
+          print(result, () =>
+            result.messages
+              .map(
+                ({ content, role }) =>
+                  `${role}:\n${describeContent(content as ContentBlock)}`
+              )
+              .join("\n")
+          );
+          return;
+        }
+        case "prompts":
+          print(catalog.prompts, () =>
+            catalog.prompts
+              .map(
+                ({ description, name }) => `${name}${firstLine(description)}`
+              )
+              .join("\n")
+          );
+          return;
+        case "read": {
+          const uri = rest.trim();
+          if (!uri) {
+            throw new Error("Usage: read <uri>");
+          }
+          guard.resource(uri);
+          const result = await client.readResource(
+            { uri },
+            requestOptions("resources/read")
+          );
+          print(result, () =>
+            result.contents
+              .map((contents) =>
+                "text" in contents
+                  ? contents.text
+                  : `[binary: ${contents.mimeType ?? "unknown type"}]`
+              )
+              .join("\n")
+          );
+          return;
+        }
+        case "resources":
+          print(
+            { resources: catalog.resources, templates: catalog.templates },
+            () =>
+              [
+                ...catalog.resources.map(({ name, uri }) => `${uri}  ${name}`),
+                ...catalog.templates.map(
+                  ({ name, uriTemplate }) => `${uriTemplate}  ${name}, template`
+                ),
+              ].join("\n")
+          );
+          return;
+        case "tools":
+          print(catalog.tools, () =>
+            catalog.tools
+              .map(
+                ({ description, name }) => `${name}${firstLine(description)}`
+              )
+              .join("\n")
+          );
+          return;
+        default:
+          throw new Error(`Unknown command "${command}"; try help`);
+      }
+    };
+
+    const rl = readline.createInterface({
+      completer: (line: string) => completeLine(line, catalog),
+      history: readHistory(historyFile),
+      historySize: HISTORY_SIZE,
+      input: options.input ?? process.stdin,
+      output: options.output ?? process.stdout,
+      removeHistoryDuplicates: true,
+    });
+    rl.on("history", (history: string[]) => {
+      writeHistory(historyFile, history);
+    });
+    rl.setPrompt("foundrole> ");
+    rl.prompt();
+
+    for await (const line of rl) {
+      try {
+        await run(line.trim());
+      } catch (error) {
+        if (error instanceof ExitRequest) {
+          break;
+        }
+        console.error(
+          `Error: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      rl.prompt();
+    }
+    rl.close();
+    return 0;
+  } finally {
+    await client.close();
+  }
+}
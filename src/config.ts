@@ -1,15 +1,496 @@
-import type { ProxyConfig } from "./types.js";
+import fs from "node:fs";
+import path from "node:path";
 
-export function getProxyConfig(): ProxyConfig {
-  const envTargetUrl = process.env.MCP_TARGET_URL;
-  const hasCustomUrl = !!(envTargetUrl && envTargetUrl.trim());
-  const targetUrl = hasCustomUrl
-    ? envTargetUrl
-    : "https://www.foundrole.com/mcp";
-  const debugMode = hasCustomUrl;
+import { z } from "zod";
 
-  return {
-    debugMode,
+import { getStateDir, TIMEOUT_METHODS } from "./constants.js";
+import { FILTER_KINDS, UNANNOTATED_TOOL_POLICIES } from "./filters.js";
+import { LOG_FORMATS, LOG_LEVELS } from "./logger.js";
+import { MAX_NAME_LENGTH, NAME_PATTERN } from "./names.js";
+import { SCHEMA_SHIM_NAMES } from "./schema-shims.js";
+import { CONFIRM_FALLBACKS } from "./tool-confirmation.js";
+import type {
+  FilterRules,
+  NameRules,
+  ProxyConfig,
+  ProxyFilters,
+  ProxyNames,
+} from "./types.js";
+
+export const DEFAULT_TARGET_URL = "https://www.foundrole.com/mcp";
+
+// Project-level config file, looked up in the working directory
+export const PROJECT_CONFIG_FILE = ".foundrole-mcp.json";
+
+// Environment variable and flag behind each setting, for error messages
+const ENV_VARS: Record<string, string> = {
+  confirmDestructive: "MCP_CONFIRM_DESTRUCTIVE",
+  confirmFallback: "MCP_CONFIRM_FALLBACK",
+  "filters.prompts.allow": "MCP_ALLOW_PROMPTS",
+  "filters.prompts.deny": "MCP_DENY_PROMPTS",
+  "filters.resources.allow": "MCP_ALLOW_RESOURCES",
+  "filters.resources.deny": "MCP_DENY_RESOURCES",
+  "filters.tools.allow": "MCP_ALLOW_TOOLS",
+  "filters.tools.deny": "MCP_DENY_TOOLS",
+  lazyConnect: "MCP_LAZY_CONNECT",
+  logFile: "MCP_LOG_FILE",
+  logFormat: "MCP_LOG_FORMAT",
+  logLevel: "MCP_LOG_LEVEL",
+  "names.prompts.prefix": "MCP_PROMPT_PREFIX",
+  "names.prompts.rename": "MCP_RENAME_PROMPTS",
+  "names.tools.prefix": "MCP_TOOL_PREFIX",
+  "names.tools.rename": "MCP_RENAME_TOOLS",
+  profile: "MCP_PROFILE",
+  readOnly: "MCP_READ_ONLY",
+  recordFile: "MCP_RECORD_FILE",
+  redactFields: "MCP_REDACT_FIELDS",
+  replayFile: "MCP_REPLAY_FILE",
+  schemaShims: "MCP_SCHEMA_SHIMS",
+  targetUrl: "MCP_TARGET_URL",
+  timeouts: "MCP_TIMEOUTS",
+  unannotatedTools: "MCP_UNANNOTATED_TOOLS",
+};
+const FLAGS: Record<string, string> = {
+  confirmDestructive: "--confirm-destructive",
+  confirmFallback: "--confirm-fallback",
+  "filters.prompts.allow": "--allow-prompt",
+  "filters.prompts.deny": "--deny-prompt",
+  "filters.resources.allow": "--allow-resource",
+  "filters.resources.deny": "--deny-resource",
+  "filters.tools.allow": "--allow-tool",
+  "filters.tools.deny": "--deny-tool",
+  lazyConnect: "--lazy-connect",
+  logFile: "--log-file",
+  logFormat: "--log-format",
+  logLevel: "--log-level",
+  "names.prompts.prefix": "--prompt-prefix",
+  "names.prompts.rename": "--rename-prompt",
+  "names.tools.prefix": "--tool-prefix",
+  "names.tools.rename": "--rename-tool",
+  profile: "--profile",
+  readOnly: "--read-only",
+  recordFile: "--record",
+  redactFields: "--redact",
+  replayFile: "--replay",
+  schemaShims: "--schema-shim",
+  targetUrl: "--url",
+  timeouts: "--timeout",
+  unannotatedTools: "--unannotated-tools",
+};
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const TIMEOUT_MESSAGE = "must be a positive number of milliseconds";
+
+const patternList = z.array(
+  z.string().trim().min(1, "must not contain empty patterns")
+);
+const filterRules = z.strictObject({
+  allow: patternList.optional(),
+  deny: patternList.optional(),
+});
+
+const NAME_MESSAGE = "may only contain letters, digits, _ and -";
+const exposedName = z
+  .string()
+  .min(1, "must not be empty")
+  .max(MAX_NAME_LENGTH, `must be at most ${MAX_NAME_LENGTH} characters`)
+  .regex(NAME_PATTERN, NAME_MESSAGE);
+const nameRules = z.strictObject({
+  // Leaves room for at least one character of the name
+  prefix: z
+    .string()
+    .max(
+      MAX_NAME_LENGTH - 1,
+      `must be at most ${MAX_NAME_LENGTH - 1} characters`
+    )
+    .regex(NAME_PATTERN, NAME_MESSAGE)
+    .optional(),
+  rename: z
+    .record(z.string().min(1, "must not rename an empty name"), exposedName)
+    .refine(
+      (rename) =>
+        new Set(Object.values(rename)).size === Object.keys(rename).length,
+      "must not give two names the same new name"
+    )
+    .optional(),
+});
+
+/**
+ * Settings accepted from every layer. Unknown keys are rejected so a typo
+ * in a config file is reported instead of silently ignored.
+ */
+export const configSchema = z.strictObject({
+  confirmDestructive: z.boolean().optional(),
+  confirmFallback: z.enum(CONFIRM_FALLBACKS).optional(),
+  filters: z
+    .strictObject({
+      prompts: filterRules.optional(),
+      resources: filterRules.optional(),
+      tools: filterRules.optional(),
+    })
+    .optional(),
+  lazyConnect: z.boolean().optional(),
+  logFile: z.string().trim().min(1, "must not be empty").optional(),
+  logFormat: z.enum(LOG_FORMATS).optional(),
+  logLevel: z.enum(LOG_LEVELS).optional(),
+  names: z
+    .strictObject({
+      prompts: nameRules.optional(),
+      tools: nameRules.optional(),
+    })
+    .optional(),
+  profile: z.string().trim().min(1, "must not be empty").optional(),
+  readOnly: z.boolean().optional(),
+  recordFile: z.string().trim().min(1, "must not be empty").optional(),
+  redactFields: z
+    .array(z.string().trim().min(1, "must not contain empty names"))
+    .optional(),
+  replayFile: z.string().trim().min(1, "must not be empty").optional(),
+  // "none" turns off the shims detected for the client
+  schemaShims: z.array(z.enum([...SCHEMA_SHIM_NAMES, "none"])).optional(),
+  targetUrl: z
+    .string()
+    .refine(isHttpUrl, "must be an http:// or https:// URL")
+    .optional(),
+  timeouts: z
+    .partialRecord(
+      z.enum(["default", ...TIMEOUT_METHODS]),
+      z
+        .number({ error: TIMEOUT_MESSAGE })
+        .int(TIMEOUT_MESSAGE)
+        .positive(TIMEOUT_MESSAGE),
+      {
+        error: (issue) =>
+          issue.code === "invalid_key"
+            ? "is not a method that can have a timeout"
+            : undefined,
+      }
+    )
+    .optional(),
+  unannotatedTools: z.enum(UNANNOTATED_TOOL_POLICIES).optional(),
+});
+
+export type ConfigLayer = z.infer<typeof configSchema>;
+
+export interface ConfigOptions {
+  // Read instead of the project config file; it must exist
+  configFile?: string;
+  // Working directory holding the project config file
+  cwd?: string;
+  // Values from command-line flags, applied last
+  flags?: Record<string, unknown>;
+  // Directory holding the user config file; defaults to getStateDir()
+  userDir?: string;
+}
+
+// Names a setting by the variable or flag behind the longest matching
+// prefix of its path, keeping the rest, as in MCP_TIMEOUTS.tools/call
+const describePath = (
+  path: string[],
+  names: Record<string, string>
+): string => {
+  for (let end = path.length; end > 0; end--) {
+    const name = names[path.slice(0, end).join(".")];
+    if (name) {
+      return [name, ...path.slice(end)].join(".");
+    }
+  }
+  return path.join(".");
+};
+
+function parseLayer(
+  input: unknown,
+  source: string,
+  names: Record<string, string> = {}
+): ConfigLayer {
+  const result = configSchema.safeParse(input);
+  if (result.success) {
+    return result.data;
+  }
+
+  const problems = result.error.issues.map((issue) => {
+    const key = issue.path.length
+      ? describePath(issue.path.map(String), names)
+      : "(root)";
+    const unknownKeys =
+      issue.code === "unrecognized_keys" ? `: ${issue.keys.join(", ")}` : "";
+    return `  ${key}: ${issue.message}${unknownKeys}`;
+  });
+  throw new Error(
+    `Invalid configuration in ${source}:\n${problems.join("\n")}`
+  );
+}
+
+function readConfigFile(filePath: string, required: boolean): ConfigLayer {
+  if (!required && !fs.existsSync(filePath)) {
+    return {};
+  }
+
+  let input: unknown;
+  try {
+    input = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read config file ${filePath}: ${reason}`);
+  }
+  return parseLayer(input, filePath);
+}
+
+function parseBooleanEnv(name: string): boolean | string | undefined {
+  const value = process.env[name]?.trim().toLowerCase();
+  if (!value) {
+    return undefined;
+  }
+  if (["1", "true", "yes"].includes(value)) {
+    return true;
+  }
+  if (["0", "false", "no"].includes(value)) {
+    return false;
+  }
+  // Left as a string so validation reports it
+  return value;
+}
+
+/**
+ * Parses timeouts written as `method=ms`, or a bare `ms` for the default,
+ * from a flag or a comma-separated environment variable. Values that are
+ * not whole numbers are kept as given so validation reports them.
+ */
+export function parseTimeouts(entries: string[]): Record<string, unknown> {
+  const timeouts: Record<string, unknown> = {};
+  for (const entry of entries) {
+    const separator = entry.lastIndexOf("=");
+    const method = separator < 0 ? "default" : entry.slice(0, separator);
+    const value = entry.slice(separator + 1).trim();
+    timeouts[method.trim()] = /^\d+$/.test(value) ? Number(value) : value;
+  }
+  return timeouts;
+}
+
+/**
+ * Parses renames written as `name=new_name`, from a flag or a
+ * comma-separated environment variable. An entry without `=` renames the
+ * name to nothing, which validation reports.
+ */
+export function parseRenames(entries: string[]): Record<string, string> {
+  const rename: Record<string, string> = {};
+  for (const entry of entries) {
+    const separator = entry.indexOf("=");
+    const from = separator < 0 ? entry : entry.slice(0, separator);
+    rename[from.trim()] =
+      separator < 0 ? "" : entry.slice(separator + 1).trim();
+  }
+  return rename;
+}
+
+// Comma-separated environment values, without blank entries
+const splitList = (value: string | undefined): string[] =>
+  (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+/**
+ * Collects filter rules from MCP_ALLOW_TOOLS, MCP_DENY_TOOLS and the like
+ */
+function readFilterEnv(): ProxyFilters {
+  const filters: ProxyFilters = {};
+  for (const kind of FILTER_KINDS) {
+    const rules: FilterRules = {};
+    for (const rule of ["allow", "deny"] as const) {
+      const patterns = splitList(
+        process.env[`MCP_${rule.toUpperCase()}_${kind.toUpperCase()}`]
+      );
+      if (patterns.length) {
+        rules[rule] = patterns;
+      }
+    }
+    if (Object.keys(rules).length) {
+      filters[kind] = rules;
+    }
+  }
+  return filters;
+}
+
+/**
+ * Merges filters rule by rule, so a layer that only denies a tool keeps
+ * the allow list from the layers below
+ */
+const mergeFilters = (layers: ConfigLayer["filters"][]): ProxyFilters => {
+  const merged: ProxyFilters = {};
+  for (const filters of layers) {
+    for (const kind of FILTER_KINDS) {
+      const { allow, deny } = filters?.[kind] ?? {};
+      if (allow || deny) {
+        merged[kind] = {
+          ...merged[kind],
+          ...(allow && { allow }),
+          ...(deny && { deny }),
+        };
+      }
+    }
+  }
+  return merged;
+};
+
+/**
+ * Collects name rules from MCP_TOOL_PREFIX, MCP_RENAME_TOOLS and the
+ * prompt equivalents
+ */
+function readNamesEnv(): ProxyNames {
+  const names: ProxyNames = {};
+  for (const [kind, noun] of [
+    ["prompts", "PROMPT"],
+    ["tools", "TOOL"],
+  ] as const) {
+    const prefix = process.env[`MCP_${noun}_PREFIX`]?.trim();
+    const rename = splitList(process.env[`MCP_RENAME_${noun}S`]);
+    const rules: NameRules = {
+      ...(prefix && { prefix }),
+      ...(rename.length && { rename: parseRenames(rename) }),
+    };
+    if (Object.keys(rules).length) {
+      names[kind] = rules;
+    }
+  }
+  return names;
+}
+
+/**
+ * Merges name rules per kind, with renames merged name by name
+ */
+const mergeNames = (layers: ConfigLayer["names"][]): ProxyNames => {
+  const merged: ProxyNames = {};
+  for (const names of layers) {
+    for (const kind of ["prompts", "tools"] as const) {
+      const { prefix, rename } = names?.[kind] ?? {};
+      if (prefix !== undefined || rename) {
+        merged[kind] = {
+          ...merged[kind],
+          ...(prefix !== undefined && { prefix }),
+          ...(rename && { rename: { ...merged[kind]?.rename, ...rename } }),
+        };
+      }
+    }
+  }
+  return merged;
+};
+
+function readEnvLayer(): ConfigLayer {
+  const targetUrl = process.env.MCP_TARGET_URL;
+  const profile = process.env.MCP_PROFILE?.trim();
+  const lazyConnect = parseBooleanEnv("MCP_LAZY_CONNECT");
+  const confirmDestructive = parseBooleanEnv("MCP_CONFIRM_DESTRUCTIVE");
+  const confirmFallback =
+    process.env.MCP_CONFIRM_FALLBACK?.trim().toLowerCase();
+  const readOnly = parseBooleanEnv("MCP_READ_ONLY");
+  const filters = readFilterEnv();
+  const names = readNamesEnv();
+  const logFile = process.env.MCP_LOG_FILE?.trim();
+  const logFormat = process.env.MCP_LOG_FORMAT?.trim().toLowerCase();
+  const logLevel = process.env.MCP_LOG_LEVEL?.trim().toLowerCase();
+  const recordFile = process.env.MCP_RECORD_FILE?.trim();
+  const redactFields = splitList(process.env.MCP_REDACT_FIELDS);
+  const replayFile = process.env.MCP_REPLAY_FILE?.trim();
+  const schemaShims = splitList(process.env.MCP_SCHEMA_SHIMS?.toLowerCase());
+  const timeouts = splitList(process.env.MCP_TIMEOUTS);
+  const unannotatedTools =
+    process.env.MCP_UNANNOTATED_TOOLS?.trim().toLowerCase();
+
+  return parseLayer(
+    {
+      ...(confirmDestructive !== undefined && { confirmDestructive }),
+      ...(confirmFallback && { confirmFallback }),
+      ...(Object.keys(filters).length && { filters }),
+      ...(lazyConnect !== undefined && { lazyConnect }),
+      ...(logFile && { logFile }),
+      ...(logFormat && { logFormat }),
+      ...(logLevel && { logLevel }),
+      ...(Object.keys(names).length && { names }),
+      ...(profile && { profile }),
+      ...(readOnly !== undefined && { readOnly }),
+      ...(recordFile && { recordFile }),
+      ...(redactFields.length && { redactFields }),
+      ...(replayFile && { replayFile }),
+      ...(schemaShims.length && { schemaShims }),
+      ...(targetUrl?.trim() && { targetUrl }),
+      ...(timeouts.length && { timeouts: parseTimeouts(timeouts) }),
+      ...(unannotatedTools && { unannotatedTools }),
+    },
+    "environment",
+    ENV_VARS
+  );
+}
+
+/**
+ * Builds the proxy configuration from, lowest precedence first: the user
+ * config file, the project config file, environment variables and flags
+ */
+export function getProxyConfig(options: ConfigOptions = {}): ProxyConfig {
+  const userDir = options.userDir ?? getStateDir();
+  const projectFile = options.configFile
+    ? path.resolve(options.configFile)
+    : path.join(options.cwd ?? process.cwd(), PROJECT_CONFIG_FILE);
+
+  const layers = [
+    readConfigFile(path.join(userDir, "config.json"), false),
+    readConfigFile(projectFile, !!options.configFile),
+    readEnvLayer(),
+    parseLayer(options.flags ?? {}, "command-line flags", FLAGS),
+  ];
+  const merged: ConfigLayer = Object.assign({}, ...layers);
+  // Timeouts merge per method, so a flag for one keeps the file's others
+  const timeouts = Object.assign(
+    {},
+    ...layers.map((layer) => layer.timeouts)
+  ) as NonNullable<ConfigLayer["timeouts"]>;
+  const filters = mergeFilters(layers.map((layer) => layer.filters));
+  const names = mergeNames(layers.map((layer) => layer.names));
+
+  const {
+    confirmDestructive,
+    confirmFallback,
+    lazyConnect,
+    logFile,
+    logFormat,
+    logLevel,
+    profile,
+    readOnly,
+    recordFile,
+    redactFields,
+    replayFile,
+    schemaShims,
     targetUrl,
+    unannotatedTools,
+  } = merged;
+
+  return {
+    debugMode: logLevel === "debug" || logLevel === "trace",
+    targetUrl: targetUrl ?? DEFAULT_TARGET_URL,
+    ...(confirmDestructive && { confirmDestructive }),
+    ...(confirmFallback && { confirmFallback }),
+    ...(Object.keys(filters).length && { filters }),
+    ...(lazyConnect && { lazyConnect }),
+    ...(logFile && { logFile }),
+    ...(logFormat && { logFormat }),
+    ...(logLevel && { logLevel }),
+    ...(Object.keys(names).length && { names }),
+    ...(profile && { profile }),
+    ...(readOnly && { readOnly }),
+    ...(recordFile && { recordFile }),
+    ...(redactFields?.length && { redactFields }),
+    ...(replayFile && { replayFile }),
+    ...(schemaShims && {
+      schemaShims: schemaShims.filter((name) => name !== "none"),
+    }),
+    ...(Object.keys(timeouts).length && { timeouts }),
+    ...(unannotatedTools && { unannotatedTools }),
   };
 }
@@ -0,0 +1,260 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+
+import {
+  RECONNECT_INITIAL_DELAY_MS,
+  RECONNECT_MAX_DELAY_MS,
+} from "./constants.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("CONNECTION");
+
+export interface ConnectionManagerOptions {
+  initialDelayMs?: number;
+  // Consecutive failed attempts before giving up; unlimited by default
+  maxAttempts?: number;
+  maxDelayMs?: number;
+}
+
+// Failures the SDK reports for the SSE stream once its own retries run out
+const STREAM_FAILURE =
+  /SSE stream disconnected|Failed to reconnect|Maximum reconnection attempts/;
+
+/**
+ * Whether an upstream error means the HTTP session is gone and a fresh
+ * connection is needed, as opposed to a failed request or rejected sign-in
+ */
+export function isConnectionError(error: Error): boolean {
+  // StreamableHTTPError carries the HTTP status; 404 means the session expired
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === "number") {
+    return code === 404 || code >= 500;
+  }
+  // fetch rejects with a TypeError when the network or server is unreachable
+  return error instanceof TypeError || STREAM_FAILURE.test(error.message);
+}
+
+/**
+ * Whether the server refused a request because its HTTP session expired.
+ * Unlike other connection errors, this means the request never ran.
+ */
+export function isSessionExpired(error: Error): boolean {
+  return (error as { code?: unknown }).code === 404;
+}
+
+// A status of 500 or above fails the request it answered; the session may
+// well be fine
+const isServerError = (error: Error): boolean => {
+  const code = (error as { code?: unknown }).code;
+  return typeof code === "number" && code >= 500;
+};
+
+/**
+ * Owns the upstream client and replaces it when the connection drops,
+ * retrying with exponential backoff and jitter. Pass `getClient` and
+ * `recover` to `proxyServer` so requests always go to the current client.
+ */
+export class ConnectionManager {
+  // Called with each client connected after start(), lazily or to replace
+  // a dropped one, once it is ready
+  onConnect?: (client: Client) => Promise<void> | void;
+  // Resource URIs the downstream client is subscribed to
+  readonly subscriptions = new Set<string>();
+
+  private client: Client | undefined;
+  private closed = false;
+  private connecting: Promise<Client> | undefined;
+  private reconnecting: Promise<Client> | undefined;
+  // The reconnect in progress, but failing as soon as one attempt has, so
+  // requests made while FoundRole is down fail instead of waiting it out
+  private replacement: Promise<Client> | undefined;
+
+  constructor(
+    private readonly connect: () => Promise<Client>,
+    private readonly options: ConnectionManagerOptions = {}
+  ) {}
+
+  /**
+   * Opens the first upstream connection
+   */
+  async start(): Promise<Client> {
+    const client = await this.connect();
+    this.attach(client);
+    return client;
+  }
+
+  /**
+   * Returns the current client, waiting for a reconnect in progress so a
+   * request made meanwhile goes to the replacement, not the dropped client.
+   * Rejects once a reconnect attempt has failed, until one succeeds.
+   */
+  getClient = async (): Promise<Client> => {
+    if (this.replacement) {
+      return this.replacement;
+    }
+    if (!this.client) {
+      throw new Error("Upstream connection has not been started");
+    }
+    return this.client;
+  };
+
+  /**
+   * Returns the current client, opening the first connection on demand.
+   * Concurrent callers share one attempt; after a failure the next call
+   * tries again.
+   */
+  ensureClient = (): Promise<Client> => {
+    if (this.replacement) {
+      return this.replacement;
+    }
+    if (this.client) {
+      return Promise.resolve(this.client);
+    }
+    this.connecting ??= this.start()
+      .then(async (client) => {
+        await this.notifyConnected(client);
+        return client;
+      })
+      .finally(() => {
+        this.connecting = undefined;
+      });
+    return this.connecting;
+  };
+
+  /**
+   * Replaces the upstream client; concurrent calls share one attempt
+   */
+  reconnect(reason: string): Promise<Client> {
+    if (!this.reconnecting) {
+      let attemptFailed: (error: unknown) => void = () => undefined;
+      const firstFailure = new Promise<never>((_resolve, reject) => {
+        attemptFailed = reject;
+      });
+      this.reconnecting = this.reconnectWithBackoff(
+        reason,
+        attemptFailed
+      ).finally(() => {
+        this.reconnecting = undefined;
+        this.replacement = undefined;
+      });
+      this.replacement = Promise.race([this.reconnecting, firstFailure]);
+      // Only rejections someone waits for are worth reporting
+      this.replacement.catch(() => undefined);
+    }
+    return this.reconnecting;
+  }
+
+  /**
+   * The client to retry a request on after it failed with a connection
+   * error: the replacement if `failed` was already replaced, otherwise one
+   * from a reconnect that the failure starts or joins. Rejects like
+   * getClient when a reconnect attempt fails.
+   */
+  recover = (failed: Client, error: Error): Promise<Client> => {
+    if (this.client && this.client !== failed && !this.reconnecting) {
+      return Promise.resolve(this.client);
+    }
+    this.reconnectInBackground(error.message);
+    return this.replacement ?? this.getClient();
+  };
+
+  /**
+   * Stops reconnecting and closes the current client
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.client?.close();
+  }
+
+  private attach(client: Client): void {
+    this.client = client;
+    const { onclose, onerror } = client;
+
+    client.onerror = (error) => {
+      onerror?.(error);
+      if (
+        client === this.client &&
+        isConnectionError(error) &&
+        !isServerError(error)
+      ) {
+        this.reconnectInBackground(error.message);
+      }
+    };
+    client.onclose = () => {
+      onclose?.();
+      if (client === this.client && !this.closed) {
+        this.reconnectInBackground("connection closed");
+      }
+    };
+  }
+
+  private reconnectInBackground(reason: string): void {
+    // Failures are logged by reconnectWithBackoff
+    this.reconnect(reason).catch(() => {});
+  }
+
+  private async reconnectWithBackoff(
+    reason: string,
+    attemptFailed: (error: unknown) => void
+  ): Promise<Client> {
+    const maxAttempts = this.options.maxAttempts ?? Infinity;
+    const previous = this.client;
+    log.warn(`Upstream connection lost (${reason}), reconnecting...`);
+
+    for (let attempt = 1; ; attempt++) {
+      if (this.closed) {
+        throw new Error("Connection manager was closed");
+      }
+
+      let client: Client;
+      try {
+        client = await this.connect();
+      } catch (error) {
+        attemptFailed(error);
+        const message = error instanceof Error ? error.message : String(error);
+        if (attempt >= maxAttempts) {
+          log.error(`Giving up after ${attempt} attempt(s): ${message}`);
+          throw error;
+        }
+        const delay = this.backoffDelay(attempt);
+        log.warn(
+          `Reconnect attempt ${attempt} failed: ${message}; retrying in ${delay}ms`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay).unref());
+        continue;
+      }
+
+      this.attach(client);
+      previous?.close().catch(() => {});
+      await this.restoreSubscriptions(client);
+      await this.notifyConnected(client);
+      log.info(`Reconnected after ${attempt} attempt(s)`);
+      return client;
+    }
+  }
+
+  private async notifyConnected(client: Client): Promise<void> {
+    try {
+      await this.onConnect?.(client);
+    } catch (error) {
+      log.error("Connect handler failed:", { error });
+    }
+  }
+
+  private async restoreSubscriptions(client: Client): Promise<void> {
+    for (const uri of this.subscriptions) {
+      try {
+        await client.subscribeResource({ uri });
+      } catch (error) {
+        log.warn(`Could not restore subscription to ${uri}:`, { error });
+      }
+    }
+  }
+
+  // Exponential growth capped at maxDelayMs, with equal jitter
+  private backoffDelay(attempt: number): number {
+    const initial = this.options.initialDelayMs ?? RECONNECT_INITIAL_DELAY_MS;
+    const max = this.options.maxDelayMs ?? RECONNECT_MAX_DELAY_MS;
+    const capped = Math.min(max, initial * 2 ** (attempt - 1));
+    return Math.round(capped / 2 + (Math.random() * capped) / 2);
+  }
+}
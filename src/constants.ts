@@ -1,4 +1,5 @@
 import fs from "node:fs";
+import os from "node:os";
 import path from "node:path";
 
 // Find package.json by trying multiple search strategies
@@ -71,3 +72,60 @@ export const USER_AGENT = `${PROXY_NAME}/${PROXY_VERSION}`;
 // the actual protocol version on connect. Kept current with what the FoundRole
 // server (jobs-back) supports: 2025-11-25, 2025-06-18, 2025-03-26.
 export const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+// Loopback redirect used by the stdio bridge's OAuth sign-in (RFC 8252).
+// The port is fixed so the redirect URI registered with the authorization
+// server stays valid across restarts.
+export const OAUTH_CALLBACK_HOST = "127.0.0.1";
+export const OAUTH_CALLBACK_PATH = "/oauth/callback";
+export const OAUTH_CALLBACK_PORT = 33418;
+
+// Account used for stored FoundRole credentials when no profile is configured
+export const DEFAULT_PROFILE = "default";
+
+/**
+ * Directory holding the proxy's persistent state (credentials, caches).
+ * Overridable with FOUNDROLE_MCP_HOME, mainly for tests and shared machines.
+ */
+export function getStateDir(): string {
+  const override = process.env.FOUNDROLE_MCP_HOME;
+  if (override && override.trim()) {
+    return path.resolve(override.trim());
+  }
+  return path.join(os.homedir(), ".foundrole-mcp");
+}
+
+// Backoff bounds for re-establishing a dropped upstream session
+export const RECONNECT_INITIAL_DELAY_MS = 500;
+export const RECONNECT_MAX_DELAY_MS = 30_000;
+
+// Size at which the optional log file is rotated, and rotated files kept
+export const LOG_FILE_MAX_BYTES = 5 * 1024 * 1024;
+export const LOG_FILE_MAX_FILES = 3;
+
+// Forwarded requests taking at least this long are logged as slow
+export const SLOW_REQUEST_MS = 5_000;
+
+// Forwarded requests whose upstream deadline can be set on its own
+export const TIMEOUT_METHODS = [
+  "completion/complete",
+  "logging/setLevel",
+  "prompts/get",
+  "prompts/list",
+  "resources/list",
+  "resources/read",
+  "resources/subscribe",
+  "resources/templates/list",
+  "resources/unsubscribe",
+  "tools/call",
+  "tools/list",
+] as const;
+
+// Deadline for methods without one of their own, as in the MCP SDK
+export const DEFAULT_REQUEST_TIMEOUT_MS = 60_000;
+
+// How long a confirmation prompt for a destructive tool waits for the user
+export const CONFIRMATION_TIMEOUT_MS = 10 * 60_000;
+
+// How long each network check of the doctor command waits
+export const DOCTOR_CHECK_TIMEOUT_MS = 10_000;
@@ -0,0 +1,63 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+import type { FilterRules } from "./types.js";
+
+// What allow and deny rules can apply to: tool and prompt names, and
+// resource URIs (and URI templates)
+export const FILTER_KINDS = ["prompts", "resources", "tools"] as const;
+
+export type FilterKind = (typeof FILTER_KINDS)[number];
+
+// What read-only mode does with tools that carry neither readOnlyHint nor
+// destructiveHint
+export const UNANNOTATED_TOOL_POLICIES = ["allow", "block"] as const;
+
+export type UnannotatedToolPolicy = (typeof UNANNOTATED_TOOL_POLICIES)[number];
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Turns a pattern into a regular expression matching the whole name.
+ * `*` matches any run of characters, `/` included, and `?` any one.
+ */
+export const globToRegExp = (pattern: string): RegExp =>
+  new RegExp(
+    `^${pattern
+      .split("")
+      .map((char) =>
+        char === "*" ? ".*" : char === "?" ? "." : escapeRegExp(char)
+      )
+      .join("")}$`
+  );
+
+/**
+ * Returns whether a name passes `rules`: it must match an allow pattern,
+ * when there are any, and no deny pattern. Deny wins over allow.
+ */
+export function createFilter(
+  rules: FilterRules = {}
+): (name: string) => boolean {
+  const allow = rules.allow?.map(globToRegExp);
+  const deny = (rules.deny ?? []).map(globToRegExp);
+  return (name) =>
+    (!allow || allow.some((pattern) => pattern.test(name))) &&
+    !deny.some((pattern) => pattern.test(name));
+}
+
+/**
+ * Whether read-only mode lets a tool through. The upstream server has to
+ * mark it `readOnlyHint`; hints are only taken at their word when they
+ * agree, so a tool also marked `destructiveHint` is refused. Tools with
+ * neither hint follow `unannotated`.
+ */
+export function isReadOnlyTool(
+  tool: Pick<Tool, "annotations">,
+  unannotated: UnannotatedToolPolicy
+): boolean {
+  const { destructiveHint, readOnlyHint } = tool.annotations ?? {};
+  if (readOnlyHint === undefined && destructiveHint === undefined) {
+    return unannotated === "allow";
+  }
+  return readOnlyHint === true && destructiveHint !== true;
+}
@@ -1,72 +1,144 @@
 import { getProxyConfig } from "./config.js";
 import { PROXY_NAME, PROXY_VERSION } from "./constants.js";
+import { configureLogger, createLogger, DEFAULT_LOG_LEVEL } from "./logger.js";
 import { startStdioServer } from "./stdio-server.js";
 import type { ProxyConfig } from "./types.js";
 
+export type { ConfigOptions } from "./config.js";
 export { getProxyConfig } from "./config.js";
 export { PROXY_NAME, PROXY_VERSION } from "./constants.js";
+export type { LogFormat, Logger, LogLevel } from "./logger.js";
+export { createLogger } from "./logger.js";
 export { startStdioServer } from "./stdio-server.js";
-export type { ProxyConfig } from "./types.js";
+export type {
+  FilterRules,
+  NameRules,
+  ProxyConfig,
+  ProxyFilters,
+  ProxyNames,
+  RequestTimeouts,
+} from "./types.js";
 
-// Safe console.error wrapper that handles errors gracefully
-function safeConsoleError(...args: any[]): void {
-  try {
-    console.error(...args);
-  } catch {
-    // Silently ignore console errors to prevent crashes
-    // In production, logging infrastructure might be broken
-  }
-}
+// Startup messages read as plain lines, so no component prefix
+const log = createLogger();
 
 export async function startProxy(config: ProxyConfig): Promise<() => void> {
-  safeConsoleError(`Starting ${PROXY_NAME} (stdio -> HTTPStream)`);
-  safeConsoleError(`Target URL: ${config.targetUrl}`);
-  safeConsoleError(`Debug mode: ${config.debugMode ? "enabled" : "disabled"}`);
+  configureLogger({
+    level: config.logLevel ?? (config.debugMode ? "debug" : DEFAULT_LOG_LEVEL),
+    ...(config.logFile && { file: config.logFile }),
+    ...(config.logFormat && { format: config.logFormat }),
+  });
+  log.info(`Starting ${PROXY_NAME} (stdio -> HTTPStream)`);
+  log.info(`Target URL: ${config.targetUrl}`);
+  log.info(`Debug mode: ${config.debugMode ? "enabled" : "disabled"}`);
+  if (config.logLevel) {
+    log.info(`Log level: ${config.logLevel}`);
+  }
+  if (config.profile) {
+    log.info(`Profile: ${config.profile}`);
+  }
+  if (config.lazyConnect) {
+    log.info("Lazy connect: enabled");
+  }
+  for (const [kind, rules] of Object.entries(config.names ?? {})) {
+    const renames = Object.entries<string>(rules.rename ?? {}).map(
+      ([from, to]) => `${from} as ${to}`
+    );
+    log.info(
+      `Renaming ${kind}: ${[
+        ...(rules.prefix ? [`prefix ${rules.prefix}`] : []),
+        ...renames,
+      ].join(", ")}`
+    );
+  }
+  if (config.readOnly) {
+    log.info(
+      `Read-only mode: enabled (tools without annotations: ${config.unannotatedTools ?? "block"})`
+    );
+  }
+  if (config.confirmDestructive) {
+    log.info(
+      `Confirming destructive tools: enabled (fallback: ${config.confirmFallback ?? "block"})`
+    );
+  }
+  for (const [kind, rules] of Object.entries(config.filters ?? {})) {
+    const parts = [
+      ...(rules.allow ? [`allow ${rules.allow.join(", ")}`] : []),
+      ...(rules.deny ? [`deny ${rules.deny.join(", ")}`] : []),
+    ];
+    log.info(`Filtering ${kind}: ${parts.join("; ")}`);
+  }
+  if (config.recordFile) {
+    log.info(`Recording session to: ${config.recordFile}`);
+  }
+  if (config.replayFile) {
+    log.info(
+      `Replaying session from: ${config.replayFile} (not connecting to ${config.targetUrl})`
+    );
+  }
+  if (config.timeouts) {
+    const timeouts = Object.entries(config.timeouts).map(
+      ([method, ms]) => `${method}=${ms}ms`
+    );
+    log.info(`Request timeouts: ${timeouts.join(", ")}`);
+  }
 
-  try {
-    await startStdioServer({
-      url: config.targetUrl,
-    });
+  await startStdioServer({
+    url: config.targetUrl,
+    ...(config.confirmDestructive && { confirmDestructive: true }),
+    ...(config.confirmFallback && {
+      confirmFallback: config.confirmFallback,
+    }),
+    ...(config.filters && { filters: config.filters }),
+    ...(config.lazyConnect && { lazyConnect: true }),
+    ...(config.names && { names: config.names }),
+    ...(config.profile && { profile: config.profile }),
+    ...(config.readOnly && { readOnly: true }),
+    ...(config.recordFile && { recordFile: config.recordFile }),
+    ...(config.redactFields && { redactFields: config.redactFields }),
+    ...(config.replayFile && { replayFile: config.replayFile }),
+    ...(config.schemaShims && { schemaShims: config.schemaShims }),
+    ...(config.timeouts && { timeouts: config.timeouts }),
+    ...(config.unannotatedTools && {
+      unannotatedTools: config.unannotatedTools,
+    }),
+  });
 
-    safeConsoleError("AI Job Search MCP server started successfully");
-    safeConsoleError("Ready to accept MCP client connections via stdio");
-    safeConsoleError("Original client info will be forwarded to backend");
+  // Nothing has reached FoundRole yet: the upstream connection opens when
+  // the MCP client initializes
+  log.info(
+    `Waiting for an MCP client on stdio before connecting to ${config.targetUrl}`
+  );
+  log.info("Original client info will be forwarded to backend");
 
-    const sigintHandler = () => {
-      safeConsoleError("Shutting down proxy server...");
-      process.exit(0);
-    };
+  const sigintHandler = () => {
+    log.info("Shutting down proxy server...");
+    process.exit(0);
+  };
 
-    const sigtermHandler = () => {
-      safeConsoleError("Shutting down proxy server...");
-      process.exit(0);
-    };
+  const sigtermHandler = () => {
+    log.info("Shutting down proxy server...");
+    process.exit(0);
+  };
 
-    process.on("SIGINT", sigintHandler);
-    process.on("SIGTERM", sigtermHandler);
+  process.on("SIGINT", sigintHandler);
+  process.on("SIGTERM", sigtermHandler);
 
-    return () => {
-      process.removeListener("SIGINT", sigintHandler);
-      process.removeListener("SIGTERM", sigtermHandler);
-    };
-  } catch (error) {
-    safeConsoleError("Failed to connect to target MCP server:", error);
-    safeConsoleError(
-      `Please check that the target server at ${config.targetUrl} is accessible`
-    );
-    safeConsoleError(
-      "For debugging, try setting MCP_TARGET_URL to a local server"
-    );
-    throw error;
-  }
+  return () => {
+    process.removeListener("SIGINT", sigintHandler);
+    process.removeListener("SIGTERM", sigtermHandler);
+  };
 }
 
-export async function main(): Promise<() => void> {
+/**
+ * Runs the stdio bridge, reading the configuration unless the CLI already
+ * resolved it from its flags
+ */
+export async function main(config?: ProxyConfig): Promise<() => void> {
   try {
-    const config = getProxyConfig();
-    return await startProxy(config);
+    return await startProxy(config ?? getProxyConfig());
   } catch (error) {
-    safeConsoleError("Unexpected error starting MCP proxy:", error);
+    log.error("Unexpected error starting MCP proxy:", { error });
     process.exit(1);
   }
 }
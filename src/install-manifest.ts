@@ -0,0 +1,75 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { ClientId } from "./client-configs.js";
+import { getStateDir } from "./constants.js";
+import { createLogger } from "./logger.js";
+import { writeFileAtomic } from "./write-file-atomic.js";
+
+const log = createLogger("INSTALL");
+
+/**
+ * A server entry the install command wrote into a client config file
+ */
+export interface InstallRecord {
+  client: ClientId;
+  entry: Record<string, unknown>;
+  // Epoch milliseconds of the install
+  installedAt: number;
+}
+
+export interface InstallManifestOptions {
+  directory?: string;
+}
+
+/**
+ * Remembers which client config entries the install command added, so
+ * uninstall removes those and never one the user wrote by hand. Kept
+ * beside the config files rather than as a key inside each entry, since
+ * some clients refuse entries with keys they do not know.
+ */
+export class InstallManifest {
+  readonly directory: string;
+
+  constructor({ directory }: InstallManifestOptions = {}) {
+    this.directory = directory ?? getStateDir();
+  }
+
+  get filePath(): string {
+    return path.join(this.directory, "installs.json");
+  }
+
+  // Keyed by config file path
+  readAll(): Record<string, InstallRecord> {
+    if (!fs.existsSync(this.filePath)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as Record<
+        string,
+        InstallRecord
+      >;
+    } catch (error) {
+      log.warn(`Ignoring unreadable install manifest: ${String(error)}`);
+      return {};
+    }
+  }
+
+  record(file: string, record: Omit<InstallRecord, "installedAt">): void {
+    this.writeAll({
+      ...this.readAll(),
+      [file]: { ...record, installedAt: Date.now() },
+    });
+  }
+
+  forget(file: string): void {
+    const { [file]: _forgotten, ...rest } = this.readAll();
+    this.writeAll(rest);
+  }
+
+  private writeAll(all: Record<string, InstallRecord>): void {
+    fs.mkdirSync(this.directory, { mode: 0o700, recursive: true });
+    writeFileAtomic(this.filePath, JSON.stringify(all, null, 2));
+  }
+}
@@ -0,0 +1,100 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+
+import { PROXY_NAME } from "./constants.js";
+import type { LogLevel, LogRecord } from "./logger.js";
+import { addLogSink, getLogLevel, serializeError } from "./logger.js";
+
+// MCP levels in increasing severity, as in the specification
+const MCP_SEVERITY: LoggingLevel[] = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+];
+
+// MCP has no trace level; trace records stay local, since they include
+// every message the client sends and would echo it straight back
+const MCP_LEVELS: Record<Exclude<LogLevel, "trace">, LoggingLevel> = {
+  debug: "debug",
+  error: "error",
+  info: "info",
+  warn: "warning",
+};
+
+const severity = (level: LoggingLevel): number => MCP_SEVERITY.indexOf(level);
+
+// Records held back until the client has finished initializing
+const MAX_PENDING_RECORDS = 100;
+
+/**
+ * Sends the proxy's own log records to the downstream client as MCP
+ * `notifications/message`, next to the ones relayed from upstream, so
+ * they show up in the client's log panel. Records logged before `start`
+ * (client detection, the first connection) are queued and sent then.
+ */
+export class LogMirror {
+  // Until the client calls logging/setLevel, follow the local level
+  level: LoggingLevel;
+  private pending: LogRecord[] | undefined = [];
+  private readonly server: Server;
+  private readonly stopSink: () => void;
+
+  constructor(server: Server) {
+    this.server = server;
+    const local = getLogLevel();
+    this.level = local === "trace" ? "debug" : MCP_LEVELS[local];
+    this.stopSink = addLogSink((record) => {
+      if (!this.pending) {
+        this.send(record);
+      } else if (this.pending.push(record) > MAX_PENDING_RECORDS) {
+        this.pending.shift();
+      }
+    });
+  }
+
+  setLevel = (level: LoggingLevel): void => {
+    this.level = level;
+  };
+
+  // Call once the client has initialized and may receive notifications
+  start(): void {
+    const queued = this.pending ?? [];
+    this.pending = undefined;
+    queued.forEach((record) => this.send(record));
+  }
+
+  stop(): void {
+    this.stopSink();
+    this.pending = undefined;
+  }
+
+  private send({ component, error, level, msg, time, ...fields }: LogRecord) {
+    if (level === "trace") {
+      return;
+    }
+    const mcpLevel = MCP_LEVELS[level];
+    if (severity(mcpLevel) < severity(this.level)) {
+      return;
+    }
+
+    this.server
+      .sendLoggingMessage({
+        data: {
+          msg: msg.replace(/:$/, ""),
+          time,
+          ...fields,
+          ...(error !== undefined && { error: serializeError(error) }),
+        },
+        level: mcpLevel,
+        logger: component ?? PROXY_NAME,
+      })
+      .catch(() => {
+        // The client has gone away; stderr still has the record
+      });
+  }
+}
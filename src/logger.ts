@@ -0,0 +1,257 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import { LOG_FILE_MAX_BYTES, LOG_FILE_MAX_FILES } from "./constants.js";
+
+// Ordered from least to most verbose
+export const LOG_LEVELS = ["error", "warn", "info", "debug", "trace"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_FORMATS = ["human", "json"] as const;
+
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+export const DEFAULT_LOG_LEVEL: LogLevel = "info";
+
+/**
+ * Structured context attached to a record. `error` is serialized with its
+ * message and stack; anything else is written as given.
+ */
+export interface LogFields {
+  durationMs?: number;
+  error?: unknown;
+  requestId?: number | string;
+  [key: string]: unknown;
+}
+
+export interface LogRecord extends LogFields {
+  level: LogLevel;
+  msg: string;
+  time: string;
+  component?: string;
+}
+
+export interface LoggerOptions {
+  // Also append records to this file, rotating it when it grows too large
+  file?: string;
+  format?: LogFormat;
+  level?: LogLevel;
+  maxFileBytes?: number;
+  // Rotated files kept next to the active one
+  maxFiles?: number;
+}
+
+export interface Logger {
+  child(fields: LogFields): Logger;
+  debug(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  trace(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Receives every record, whatever the configured level, so it can apply a
+ * level of its own
+ */
+export type LogSink = (record: LogRecord) => void;
+
+interface LogFile {
+  maxBytes: number;
+  maxFiles: number;
+  path: string;
+  size: number;
+}
+
+let currentLevel: LogLevel = DEFAULT_LOG_LEVEL;
+let currentFormat: LogFormat = "human";
+let logFile: LogFile | undefined;
+const sinks = new Set<LogSink>();
+
+export function getLogLevel(): LogLevel {
+  return currentLevel;
+}
+
+export function setLogLevel(level: LogLevel): void {
+  currentLevel = level;
+}
+
+export function isLevelEnabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(currentLevel);
+}
+
+/**
+ * Applies the logging settings for the process. Options left out keep
+ * their current value, except `file`, which is closed when omitted.
+ */
+export function configureLogger(options: LoggerOptions): void {
+  currentLevel = options.level ?? currentLevel;
+  currentFormat = options.format ?? currentFormat;
+  logFile = options.file
+    ? {
+        maxBytes: options.maxFileBytes ?? LOG_FILE_MAX_BYTES,
+        maxFiles: options.maxFiles ?? LOG_FILE_MAX_FILES,
+        path: path.resolve(options.file),
+        size: -1,
+      }
+    : undefined;
+}
+
+/**
+ * Adds a destination for records alongside stderr and the log file.
+ * Returns a function that removes it again.
+ */
+export function addLogSink(sink: LogSink): () => void {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+export const serializeError = (error: unknown): unknown =>
+  error instanceof Error
+    ? { message: error.message, name: error.name, stack: error.stack }
+    : error;
+
+// Messages written for human output often end in ":" before the error
+const toJson = (record: LogRecord): string =>
+  JSON.stringify({
+    ...record,
+    msg: record.msg.replace(/:$/, ""),
+    ...(record.error !== undefined && { error: serializeError(record.error) }),
+  });
+
+// Fields other than the error, as " (key=value, ...)"
+const describeFields = (fields: LogFields): string => {
+  const entries = Object.entries(fields).filter(
+    ([key, value]) => key !== "error" && value !== undefined
+  );
+  if (!entries.length) {
+    return "";
+  }
+  const parts = entries.map(
+    ([key, value]) =>
+      `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`
+  );
+  return ` (${parts.join(", ")})`;
+};
+
+const humanLine = ({ component, level, msg, time, ...fields }: LogRecord) =>
+  `${component ? `[${component}] ` : ""}${msg}${describeFields(fields)}`;
+
+const errorText = (error: unknown): string =>
+  error instanceof Error ? (error.stack ?? error.message) : String(error);
+
+// MCP clients timestamp the stderr lines they show, but a file needs its own
+const humanFileLine = (record: LogRecord): string =>
+  [
+    record.time,
+    record.level.toUpperCase(),
+    humanLine(record),
+    ...(record.error === undefined ? [] : [errorText(record.error)]),
+  ].join(" ");
+
+function rotate(file: LogFile): void {
+  for (let index = file.maxFiles - 1; index >= 1; index--) {
+    const from = `${file.path}.${index}`;
+    if (fs.existsSync(from)) {
+      fs.renameSync(from, `${file.path}.${index + 1}`);
+    }
+  }
+  if (file.maxFiles > 0) {
+    fs.renameSync(file.path, `${file.path}.1`);
+  } else {
+    fs.rmSync(file.path, { force: true });
+  }
+  file.size = 0;
+}
+
+function appendToFile(file: LogFile, line: string): void {
+  if (file.size < 0) {
+    fs.mkdirSync(path.dirname(file.path), { recursive: true });
+    file.size = fs.existsSync(file.path) ? fs.statSync(file.path).size : 0;
+  }
+  const bytes = Buffer.byteLength(line) + 1;
+  if (file.size > 0 && file.size + bytes > file.maxBytes) {
+    rotate(file);
+  }
+  fs.appendFileSync(file.path, `${line}\n`);
+  file.size += bytes;
+}
+
+function emitToSinks(record: LogRecord): void {
+  for (const sink of sinks) {
+    try {
+      sink(record);
+    } catch {
+      // A broken sink must not stop the others or the caller
+    }
+  }
+}
+
+function emit(record: LogRecord): void {
+  // Logging must never take the proxy down, so every failure is swallowed
+  try {
+    if (currentFormat === "json") {
+      console.error(toJson(record));
+    } else if (record.error !== undefined) {
+      console.error(humanLine(record), record.error);
+    } else {
+      console.error(humanLine(record));
+    }
+  } catch {
+    // stderr is gone or console.error was replaced with something broken
+  }
+
+  if (!logFile) {
+    return;
+  }
+  try {
+    const line =
+      currentFormat === "json" ? toJson(record) : humanFileLine(record);
+    appendToFile(logFile, line);
+  } catch {
+    // An unwritable log file is not worth failing a request over
+  }
+}
+
+/**
+ * Creates a logger whose records carry `component` and any bound fields.
+ * Human output keeps the `[COMPONENT] message` shape on stderr, since
+ * stdout carries the MCP protocol; JSON output writes one record per line.
+ */
+export function createLogger(
+  component?: string,
+  bound: LogFields = {}
+): Logger {
+  const write =
+    (level: LogLevel) =>
+    (message: string, fields: LogFields = {}): void => {
+      const enabled = isLevelEnabled(level);
+      if (!enabled && !sinks.size) {
+        return;
+      }
+      const record: LogRecord = {
+        level,
+        time: new Date().toISOString(),
+        ...(component && { component }),
+        msg: message,
+        ...bound,
+        ...fields,
+      };
+      if (enabled) {
+        emit(record);
+      }
+      emitToSinks(record);
+    };
+
+  return {
+    child: (fields) => createLogger(component, { ...bound, ...fields }),
+    debug: write("debug"),
+    error: write("error"),
+    info: write("info"),
+    trace: write("trace"),
+    warn: write("warn"),
+  };
+}
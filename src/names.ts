@@ -0,0 +1,45 @@
+import type { NameRules } from "./types.js";
+
+// Tool and prompt names clients accept everywhere: some refuse anything
+// longer or with other characters, such as dots or spaces
+export const MAX_NAME_LENGTH = 64;
+export const NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export const isValidName = (name: string): boolean =>
+  name.length <= MAX_NAME_LENGTH && NAME_PATTERN.test(name);
+
+/**
+ * Translates between upstream names and the names shown to the client
+ */
+export interface NameMap {
+  toClient(name: string): string;
+  // Undefined for names the client was never shown
+  toUpstream(name: string): string | undefined;
+}
+
+/**
+ * Builds the mapping for `rules`. A rename takes the place of the prefix
+ * for that name. A name only maps back when it maps forward to the same
+ * name again, so two upstream names can never be called by one exposed
+ * name, and a renamed tool cannot be reached through its prefixed name.
+ */
+export function createNameMap(rules: NameRules = {}): NameMap {
+  const { prefix = "", rename = {} } = rules;
+  const renamedFrom = new Map(
+    Object.entries(rename).map(([from, to]) => [to, from])
+  );
+
+  const toClient = (name: string): string => rename[name] ?? prefix + name;
+
+  return {
+    toClient,
+    toUpstream: (name) => {
+      const upstream =
+        renamedFrom.get(name) ??
+        (name.startsWith(prefix) ? name.slice(prefix.length) : undefined);
+      return upstream !== undefined && toClient(upstream) === name
+        ? upstream
+        : undefined;
+    },
+  };
+}
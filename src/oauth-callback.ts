@@ -0,0 +1,124 @@
+import http from "node:http";
+
+export interface OAuthCallbackListener {
+  code: Promise<string>;
+  close: () => Promise<void>;
+}
+
+interface OAuthCallbackOptions {
+  host: string;
+  path: string;
+  port: number;
+  state: string;
+  timeoutMs: number;
+}
+
+const SUCCESS_PAGE = `<!doctype html>
+<html><head><title>FoundRole sign-in complete</title></head>
+<body><h1>Signed in to FoundRole</h1><p>You can close this window and return to your AI assistant.</p></body></html>`;
+
+const FAILURE_PAGE = `<!doctype html>
+<html><head><title>FoundRole sign-in failed</title></head>
+<body><h1>Sign-in failed</h1><p>Return to your AI assistant and try again.</p></body></html>`;
+
+/**
+ * Starts a loopback HTTP listener that receives the OAuth authorization
+ * redirect and resolves with the authorization code
+ */
+export async function listenForOAuthCallback({
+  host,
+  path,
+  port,
+  state,
+  timeoutMs,
+}: OAuthCallbackOptions): Promise<OAuthCallbackListener> {
+  let settle: (error: Error | null, code?: string) => void = () => undefined;
+
+  const code = new Promise<string>((resolve, reject) => {
+    settle = (error, value) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(value ?? "");
+      }
+    };
+  });
+  // The caller may never await the code (e.g. the process exits first)
+  code.catch(() => undefined);
+
+  const server = http.createServer((req, res) => {
+    const requestUrl = new URL(req.url ?? "/", `http://${host}:${port}`);
+
+    if (requestUrl.pathname !== path) {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not found");
+      return;
+    }
+
+    const error = requestUrl.searchParams.get("error");
+    const returnedState = requestUrl.searchParams.get("state");
+    const authorizationCode = requestUrl.searchParams.get("code");
+
+    if (returnedState !== state) {
+      // Do not settle: a stray or forged request must not abort the real flow
+      res.writeHead(400, { "Content-Type": "text/html" });
+      res.end(FAILURE_PAGE);
+      return;
+    }
+
+    if (error) {
+      const description = requestUrl.searchParams.get("error_description");
+      res.writeHead(400, { "Content-Type": "text/html" });
+      res.end(FAILURE_PAGE);
+      finish(
+        new Error(
+          `Authorization failed: ${error}${description ? ` (${description})` : ""}`
+        )
+      );
+      return;
+    }
+
+    if (!authorizationCode) {
+      res.writeHead(400, { "Content-Type": "text/html" });
+      res.end(FAILURE_PAGE);
+      finish(new Error("Authorization response did not include a code"));
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end(SUCCESS_PAGE);
+    finish(null, authorizationCode);
+  });
+
+  const close = () =>
+    new Promise<void>((resolve) => {
+      clearTimeout(timer);
+      server.close(() => {
+        resolve();
+      });
+      server.closeAllConnections();
+    });
+
+  const finish = (error: Error | null, value?: string) => {
+    settle(error, value);
+    void close();
+  };
+
+  const timer = setTimeout(() => {
+    finish(new Error("Timed out waiting for the FoundRole sign-in to finish"));
+  }, timeoutMs);
+  timer.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  }).catch((error: unknown) => {
+    clearTimeout(timer);
+    throw error;
+  });
+
+  return { close, code };
+}
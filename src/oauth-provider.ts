@@ -0,0 +1,476 @@
+import { spawn } from "node:child_process";
+import { randomBytes } from "node:crypto";
+
+import type {
+  OAuthClientProvider,
+  OAuthDiscoveryState,
+} from "@modelcontextprotocol/sdk/client/auth.js";
+import {
+  auth,
+  refreshAuthorization,
+  UnauthorizedError,
+} from "@modelcontextprotocol/sdk/client/auth.js";
+import type { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type {
+  OAuthClientInformationMixed,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { RequestId } from "@modelcontextprotocol/sdk/types.js";
+import {
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import {
+  OAUTH_CALLBACK_HOST,
+  OAUTH_CALLBACK_PATH,
+  OAUTH_CALLBACK_PORT,
+  PROXY_NAME,
+  PROXY_VERSION,
+} from "./constants.js";
+import { createLogger } from "./logger.js";
+import type { OAuthCallbackListener } from "./oauth-callback.js";
+import { listenForOAuthCallback } from "./oauth-callback.js";
+import type { StoredCredentials, TokenStore } from "./token-store.js";
+
+const log = createLogger("OAUTH");
+
+export interface ProxyOAuthProviderOptions {
+  callbackPort?: number;
+  store?: TokenStore;
+  timeoutMs?: number;
+  openBrowser?: (url: URL) => void | Promise<void>;
+}
+
+interface PendingAuthorization {
+  listener: OAuthCallbackListener;
+  state: string;
+}
+
+const DEFAULT_AUTHORIZATION_TIMEOUT_MS = 5 * 60 * 1000;
+// Refresh this long before expiry so in-flight requests never carry a
+// token that expires on the way
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * Opens a URL in the user's default browser without waiting for it
+ */
+export function openInBrowser(url: URL): void {
+  const target = url.toString();
+  const [command, args] =
+    process.platform === "darwin"
+      ? ["open", [target]]
+      : process.platform === "win32"
+        ? ["cmd", ["/c", "start", '""', target]]
+        : ["xdg-open", [target]];
+
+  const child = spawn(command, args, { detached: true, stdio: "ignore" });
+  // A missing opener is not fatal: the URL is also printed to stderr
+  child.on("error", () => undefined);
+  child.unref();
+}
+
+/**
+ * OAuth 2.1 client used by the stdio bridge to sign in to FoundRole.
+ *
+ * Discovery, dynamic client registration, PKCE and bearer headers are driven
+ * by the MCP SDK; this provider supplies the loopback redirect, persists
+ * the session in the token store when one is given, and refreshes the
+ * access token shortly before it expires.
+ */
+export class ProxyOAuthProvider implements OAuthClientProvider {
+  private readonly callbackPort: number;
+  private readonly openBrowser: (url: URL) => void | Promise<void>;
+  private readonly store: TokenStore | undefined;
+  private readonly timeoutMs: number;
+
+  private _clientInformation: OAuthClientInformationMixed | undefined;
+  private _codeVerifier: string | undefined;
+  private _discoveryState: OAuthDiscoveryState | undefined;
+  private _expiresAt: number | undefined;
+  private _state: string | undefined;
+  private _tokens: OAuthTokens | undefined;
+  private pending: PendingAuthorization | undefined;
+  private refreshing: Promise<void> | undefined;
+
+  constructor(options: ProxyOAuthProviderOptions = {}) {
+    this.callbackPort = options.callbackPort ?? OAUTH_CALLBACK_PORT;
+    this.openBrowser = options.openBrowser ?? openInBrowser;
+    this.store = options.store;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_AUTHORIZATION_TIMEOUT_MS;
+
+    const stored = this.store?.read();
+    this._clientInformation = stored?.clientInformation;
+    this._discoveryState = stored?.discoveryState;
+    this._expiresAt = stored?.expiresAt;
+    this._tokens = stored?.tokens;
+  }
+
+  get redirectUrl(): string {
+    return `http://${OAUTH_CALLBACK_HOST}:${this.callbackPort}${OAUTH_CALLBACK_PATH}`;
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: "FoundRole AI Job Search (stdio bridge)",
+      grant_types: ["authorization_code", "refresh_token"],
+      redirect_uris: [this.redirectUrl],
+      response_types: ["code"],
+      software_id: PROXY_NAME,
+      software_version: PROXY_VERSION,
+      token_endpoint_auth_method: "none",
+    };
+  }
+
+  /**
+   * Whether a browser sign-in has been started and not yet completed
+   */
+  get isAuthorizing(): boolean {
+    return this.pending !== undefined;
+  }
+
+  /**
+   * Tokens as last saved, without triggering a refresh
+   */
+  get storedTokens(): OAuthTokens | undefined {
+    return this._tokens;
+  }
+
+  /**
+   * When the current access token expires, as epoch milliseconds
+   */
+  get expiresAt(): number | undefined {
+    return this._expiresAt;
+  }
+
+  state(): string {
+    // Concurrent 401s must not start a second flow with a different state
+    if (this.pending) {
+      return this.pending.state;
+    }
+    this._state = randomBytes(16).toString("base64url");
+    return this._state;
+  }
+
+  clientInformation(): OAuthClientInformationMixed | undefined {
+    return this._clientInformation;
+  }
+
+  saveClientInformation(clientInformation: OAuthClientInformationMixed): void {
+    this._clientInformation = clientInformation;
+    this.store?.update({ clientInformation });
+  }
+
+  async tokens(): Promise<OAuthTokens | undefined> {
+    if (this.isExpiring()) {
+      this.refreshing ??= this.refreshTokens().finally(() => {
+        this.refreshing = undefined;
+      });
+      await this.refreshing;
+    }
+    return this._tokens;
+  }
+
+  saveTokens(tokens: OAuthTokens): void {
+    this._tokens = tokens;
+    this._expiresAt =
+      tokens.expires_in === undefined
+        ? undefined
+        : Date.now() + tokens.expires_in * 1000;
+
+    this.store?.update({ expiresAt: this._expiresAt, tokens });
+  }
+
+  codeVerifier(): string {
+    if (!this._codeVerifier) {
+      throw new Error("No PKCE code verifier saved for this session");
+    }
+    return this._codeVerifier;
+  }
+
+  saveCodeVerifier(codeVerifier: string): void {
+    // Keep the verifier that matches the authorization URL already opened
+    if (this.pending) {
+      return;
+    }
+    this._codeVerifier = codeVerifier;
+  }
+
+  discoveryState(): OAuthDiscoveryState | undefined {
+    return this._discoveryState;
+  }
+
+  saveDiscoveryState(state: OAuthDiscoveryState): void {
+    this._discoveryState = state;
+    this.store?.update({ discoveryState: state });
+  }
+
+  invalidateCredentials(
+    scope: "all" | "client" | "tokens" | "verifier" | "discovery"
+  ): void {
+    const cleared: (keyof StoredCredentials)[] = [];
+    if (scope === "all" || scope === "client") {
+      this._clientInformation = undefined;
+      cleared.push("clientInformation");
+    }
+    if (scope === "all" || scope === "tokens") {
+      this._tokens = undefined;
+      this._expiresAt = undefined;
+      cleared.push("tokens", "expiresAt");
+    }
+    if (scope === "all" || scope === "verifier") {
+      this._codeVerifier = undefined;
+    }
+    if (scope === "all" || scope === "discovery") {
+      this._discoveryState = undefined;
+      cleared.push("discoveryState");
+    }
+    if (cleared.length > 0) {
+      this.store?.clear(cleared);
+    }
+  }
+
+  async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
+    if (this.pending) {
+      return;
+    }
+
+    const state = authorizationUrl.searchParams.get("state") ?? this._state;
+    if (!state) {
+      throw new Error("Authorization URL is missing the OAuth state parameter");
+    }
+
+    const listener = await listenForOAuthCallback({
+      host: OAUTH_CALLBACK_HOST,
+      path: OAUTH_CALLBACK_PATH,
+      port: this.callbackPort,
+      state,
+      timeoutMs: this.timeoutMs,
+    });
+    this.pending = { listener, state };
+
+    log.warn(
+      `Sign in to FoundRole to continue. If your browser does not open, visit:\n${authorizationUrl.toString()}`
+    );
+
+    try {
+      await this.openBrowser(authorizationUrl);
+    } catch (error) {
+      log.warn(`Could not open browser: ${String(error)}`);
+    }
+  }
+
+  /**
+   * Waits for the loopback redirect of the sign-in started by
+   * redirectToAuthorization and returns the authorization code
+   */
+  async waitForAuthorizationCode(): Promise<string> {
+    if (!this.pending) {
+      throw new Error("No FoundRole sign-in is in progress");
+    }
+
+    const { listener } = this.pending;
+    try {
+      return await listener.code;
+    } finally {
+      await listener.close();
+      this.pending = undefined;
+    }
+  }
+
+  private isExpiring(): boolean {
+    return (
+      this._tokens?.refresh_token !== undefined &&
+      this._expiresAt !== undefined &&
+      this._expiresAt - Date.now() <= TOKEN_REFRESH_MARGIN_MS
+    );
+  }
+
+  private async refreshTokens(): Promise<void> {
+    const refreshToken = this._tokens?.refresh_token;
+    const clientInformation = this._clientInformation;
+    const discovery = this._discoveryState;
+    if (!refreshToken || !clientInformation || !discovery) {
+      return;
+    }
+
+    const resource = discovery.resourceMetadata?.resource;
+    try {
+      const tokens = await refreshAuthorization(
+        discovery.authorizationServerUrl,
+        {
+          clientInformation,
+          refreshToken,
+          ...(discovery.authorizationServerMetadata && {
+            metadata: discovery.authorizationServerMetadata,
+          }),
+          ...(resource && { resource: new URL(resource) }),
+        }
+      );
+      this.saveTokens(tokens);
+    } catch (error) {
+      // Leave the old tokens in place; a 401 will start a fresh sign-in
+      log.warn(`Token refresh failed: ${String(error)}`);
+    }
+  }
+}
+
+/**
+ * Runs the full interactive sign-in against the MCP server at serverUrl,
+ * reusing stored tokens when they are still valid
+ */
+export async function signIn(
+  provider: ProxyOAuthProvider,
+  serverUrl: string | URL
+): Promise<void> {
+  const result = await auth(provider, { serverUrl });
+  if (result === "AUTHORIZED") {
+    return;
+  }
+
+  const authorizationCode = await provider.waitForAuthorizationCode();
+  await auth(provider, { authorizationCode, serverUrl });
+}
+
+/**
+ * Makes the transport wait for the user to finish signing in when the
+ * server rejects a message as unauthorized, then re-sends that message.
+ * `hold` pauses whatever deadlines run meanwhile and returns the function
+ * that resumes them. A request cancelled during the wait is never sent, nor
+ * is its cancellation.
+ */
+export function enableInteractiveAuth(
+  transport: StreamableHTTPClientTransport,
+  provider: ProxyOAuthProvider,
+  hold?: () => () => void
+): void {
+  let authorization: Promise<void> | undefined;
+  const send = transport.send.bind(transport);
+  // Requests waiting for the sign-in, and those of them since cancelled
+  const waiting = new Set<RequestId>();
+  const cancelled = new Set<RequestId>();
+
+  transport.send = async (message, options) => {
+    if (
+      isJSONRPCNotification(message) &&
+      message.method === "notifications/cancelled" &&
+      waiting.has(message.params?.requestId as RequestId)
+    ) {
+      cancelled.add(message.params?.requestId as RequestId);
+      return;
+    }
+
+    try {
+      await send(message, options);
+    } catch (error) {
+      if (!(error instanceof UnauthorizedError) || !provider.isAuthorizing) {
+        throw error;
+      }
+
+      const id = isJSONRPCRequest(message) ? message.id : undefined;
+      if (id !== undefined) {
+        waiting.add(id);
+      }
+      authorization ??= provider
+        .waitForAuthorizationCode()
+        .then((code) => transport.finishAuth(code))
+        .finally(() => {
+          authorization = undefined;
+        });
+      const release = hold?.();
+      let dropped = false;
+      try {
+        await authorization;
+      } finally {
+        release?.();
+        if (id !== undefined) {
+          waiting.delete(id);
+          dropped = cancelled.delete(id);
+        }
+      }
+      if (!dropped) {
+        await send(message, options);
+      }
+    }
+  };
+}
+
+/**
+ * Revokes the stored tokens at the authorization server (RFC 7009) when it
+ * supports revocation, then forgets every credential held by the provider.
+ * Returns false if the server could not confirm the revocation.
+ */
+export async function signOut(provider: ProxyOAuthProvider): Promise<boolean> {
+  const tokens = provider.storedTokens;
+  const clientInformation = provider.clientInformation();
+  const metadata = provider.discoveryState()?.authorizationServerMetadata;
+  const revocationEndpoint =
+    metadata && "revocation_endpoint" in metadata
+      ? metadata.revocation_endpoint
+      : undefined;
+
+  let revoked = true;
+  if (tokens && clientInformation && revocationEndpoint) {
+    // Revoking the refresh token first also invalidates its access tokens
+    const candidates: [string, string | undefined][] = [
+      ["refresh_token", tokens.refresh_token],
+      ["access_token", tokens.access_token],
+    ];
+    for (const [hint, token] of candidates) {
+      if (!token) {
+        continue;
+      }
+      try {
+        const response = await fetch(revocationEndpoint, {
+          body: new URLSearchParams({
+            client_id: clientInformation.client_id,
+            token,
+            token_type_hint: hint,
+          }),
+          method: "POST",
+        });
+        if (!response.ok) {
+          revoked = false;
+          log.warn(`Revoking ${hint} failed with HTTP ${response.status}`);
+        }
+      } catch (error) {
+        revoked = false;
+        log.warn(`Revoking ${hint} failed: ${String(error)}`);
+      }
+    }
+  }
+
+  provider.invalidateCredentials("all");
+  return revoked;
+}
+
+/**
+ * Best-effort description of the signed-in account, read from the claims of
+ * the ID token or a JWT access token. Opaque tokens yield undefined.
+ */
+export function describeAccount(tokens: OAuthTokens): string | undefined {
+  for (const token of [tokens.id_token, tokens.access_token]) {
+    const payload = token?.split(".")[1];
+    if (!payload || token?.split(".").length !== 3) {
+      continue;
+    }
+    try {
+      const claims = JSON.parse(
+        Buffer.from(payload, "base64url").toString("utf-8")
+      ) as Record<string, unknown>;
+      const account = [
+        claims.email,
+        claims.preferred_username,
+        claims.name,
+        claims.sub,
+      ].find((claim) => typeof claim === "string" && claim.length > 0);
+      if (typeof account === "string") {
+        return account;
+      }
+    } catch {
+      // Not a JWT after all
+    }
+  }
+  return undefined;
+}
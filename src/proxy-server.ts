@@ -1,103 +1,820 @@
 import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import type { ServerCapabilities } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  RequestHandlerExtra,
+  RequestOptions,
+} from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  ClientCapabilities,
+  LoggingLevel,
+  ProgressNotification,
+  ServerCapabilities,
+  ServerNotification,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
 import {
   CallToolRequestSchema,
   CompleteRequestSchema,
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ErrorCode,
   GetPromptRequestSchema,
   ListPromptsRequestSchema,
   ListResourcesRequestSchema,
   ListResourceTemplatesRequestSchema,
+  ListRootsRequestSchema,
   ListToolsRequestSchema,
   LoggingMessageNotificationSchema,
+  McpError,
+  PromptListChangedNotificationSchema,
   ReadResourceRequestSchema,
+  ResourceListChangedNotificationSchema,
   ResourceUpdatedNotificationSchema,
+  RootsListChangedNotificationSchema,
+  SetLevelRequestSchema,
   SubscribeRequestSchema,
+  ToolListChangedNotificationSchema,
   UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
+import { isConnectionError, isSessionExpired } from "./connection-manager.js";
+import {
+  CONFIRMATION_TIMEOUT_MS,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  SLOW_REQUEST_MS,
+} from "./constants.js";
+import type { UnannotatedToolPolicy } from "./filters.js";
+import { createFilter, isReadOnlyTool } from "./filters.js";
+import { createLogger } from "./logger.js";
+import type { NameMap } from "./names.js";
+import { createNameMap, isValidName } from "./names.js";
+import type { SchemaShim } from "./schema-shims.js";
+import type { ConfirmFallback } from "./tool-confirmation.js";
+import {
+  confirmToolCall,
+  isDestructiveTool,
+  withConfirmArgument,
+} from "./tool-confirmation.js";
+import type { ProxyFilters, ProxyNames, RequestTimeouts } from "./types.js";
+
+const log = createLogger("PROXY");
+
+// The parts of a handler's context needed to forward its request onward,
+// common to requests arriving from either side
+type ForwardedRequestExtra = Pick<
+  RequestHandlerExtra<never, ProgressNotification>,
+  "_meta" | "requestId" | "sendNotification" | "signal"
+>;
+
+/**
+ * Replaces the SDK's bare "Request timed out" with one naming the method
+ * and the deadline it missed
+ */
+const describeTimeout = (method: string, error: unknown): unknown => {
+  if (!(error instanceof McpError) || error.code !== ErrorCode.RequestTimeout) {
+    return error;
+  }
+  const timeout = (error.data as { timeout?: unknown } | undefined)?.timeout;
+  if (typeof timeout !== "number") {
+    return error;
+  }
+  return new McpError(
+    ErrorCode.RequestTimeout,
+    `${method} timed out: the upstream server sent nothing for ${timeout} ms`,
+    { timeout }
+  );
+};
+
+/**
+ * The error for a request naming something the filters hide, reported as
+ * invalid params like a name the upstream server does not know
+ */
+const blocked = (what: string, name: string): McpError =>
+  new McpError(
+    ErrorCode.InvalidParams,
+    `${what} ${name} is blocked by the proxy configuration`
+  );
+
+/**
+ * The upstream name behind a name the client was shown, failing as for a
+ * name the upstream server does not know
+ */
+const upstreamName = (map: NameMap, what: string, name: string): string => {
+  const upstream = map.toUpstream(name);
+  if (upstream === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown ${what}: ${name}`);
+  }
+  return upstream;
+};
+
+/**
+ * Gives listed tools or prompts their client names. One whose new name
+ * clients would refuse, or that another already maps back to, is left out
+ * rather than shown under a name that cannot be called.
+ */
+const renameAll = <Item extends { name: string }>(
+  items: Item[],
+  map: NameMap,
+  what: string
+): Item[] =>
+  items.flatMap((item) => {
+    const name = map.toClient(item.name);
+    if (name !== item.name && !isValidName(name)) {
+      log.warn(`Hiding ${what} ${item.name}: ${name} is not a valid name`);
+      return [];
+    }
+    if (map.toUpstream(name) !== item.name) {
+      log.warn(
+        `Hiding ${what} ${item.name}: ${name} is already another ${what}'s name`
+      );
+      return [];
+    }
+    return [{ ...item, name }];
+  });
+
+/**
+ * Wraps a downstream request handler to log its outcome and duration,
+ * tagged with the downstream request id. Slow requests are logged as
+ * warnings so they reach the client's log panel at its default level.
+ */
+const logged =
+  <Args extends { method: string }, Result>(
+    handler: (args: Args, extra: ForwardedRequestExtra) => Promise<Result>
+  ) =>
+  async (args: Args, extra: ForwardedRequestExtra): Promise<Result> => {
+    const started = Date.now();
+    const requestLog = log.child({ requestId: extra.requestId });
+    try {
+      const result = await handler(args, extra);
+      const durationMs = Date.now() - started;
+      if (durationMs >= SLOW_REQUEST_MS) {
+        requestLog.warn(`${args.method} was slow`, { durationMs });
+      } else {
+        requestLog.debug(`${args.method} completed`, { durationMs });
+      }
+      return result;
+    } catch (caught) {
+      const error = describeTimeout(args.method, caught);
+      requestLog.warn(`${args.method} failed`, {
+        durationMs: Date.now() - started,
+        error,
+      });
+      throw error;
+    }
+  };
+
+// Methods that change nothing upstream, so sending one twice is harmless
+const READ_ONLY_METHODS = new Set<keyof RequestTimeouts>([
+  "completion/complete",
+  "prompts/get",
+  "prompts/list",
+  "resources/list",
+  "resources/read",
+  "resources/templates/list",
+  "tools/list",
+]);
+
+// The SDK's own timeout is set out of the way of the proxy's deadlines:
+// the longest delay setTimeout accepts
+const SDK_TIMEOUT_MS = 2 ** 31 - 1;
+
+interface Deadline {
+  // Aborted with a timeout error when the deadline passes
+  signal: AbortSignal;
+  restart(): void;
+  stop(): void;
+}
+
+/**
+ * Deadlines of the requests forwarded upstream for one downstream server.
+ * They are kept here rather than by the SDK so they can wait: while the
+ * upstream server has a request of its own open with the downstream
+ * client, such as an elicitation a tool call needs answered, it is waiting
+ * on the user rather than failing to respond. No deadline runs then, and
+ * each restarts in full once the last such request is answered.
+ */
+class UpstreamDeadlines {
+  private holds = 0;
+  private readonly running = new Set<Deadline>();
+
+  start(timeout: number): Deadline {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const deadline: Deadline = {
+      restart: () => {
+        clearTimeout(timer);
+        timer = this.holds
+          ? undefined
+          : setTimeout(() => {
+              controller.abort(
+                new McpError(ErrorCode.RequestTimeout, "Request timed out", {
+                  timeout,
+                })
+              );
+            }, timeout);
+      },
+      signal: controller.signal,
+      stop: () => {
+        clearTimeout(timer);
+        this.running.delete(deadline);
+      },
+    };
+    this.running.add(deadline);
+    deadline.restart();
+    return deadline;
+  }
+
+  // Pauses every deadline until the returned function is called
+  hold(): () => void {
+    this.holds++;
+    this.restartAll();
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.holds--;
+        this.restartAll();
+      }
+    };
+  }
+
+  private restartAll(): void {
+    for (const deadline of this.running) {
+      deadline.restart();
+    }
+  }
+}
+
+// Shared by proxyServer and forwardUpstreamRequests, which are set up
+// separately for the same downstream server
+const deadlinesByServer = new WeakMap<Server, UpstreamDeadlines>();
+
+const deadlinesFor = (server: Server): UpstreamDeadlines => {
+  let deadlines = deadlinesByServer.get(server);
+  if (!deadlines) {
+    deadlines = new UpstreamDeadlines();
+    deadlinesByServer.set(server, deadlines);
+  }
+  return deadlines;
+};
+
+/**
+ * Pauses the deadlines of requests forwarded upstream for `server` until
+ * the returned function is called, for waits on the user outside the
+ * proxy's own requests, such as a browser sign-in
+ */
+export const holdUpstreamDeadlines = (server: Server): (() => void) =>
+  deadlinesFor(server).hold();
+
+/**
+ * Ties a forwarded request to the request it serves: cancelling the original
+ * aborts it (which the SDK turns into a notifications/cancelled on the other
+ * side), and progress is relayed back under the original progress token.
+ * With a deadline, progress also restarts it, so it is asked for even when
+ * there is no token to relay it under.
+ */
+const forwardingOptions = (
+  extra: ForwardedRequestExtra,
+  deadline?: Deadline
+): RequestOptions => {
+  const progressToken = extra._meta?.progressToken;
+  const relayProgress = progressToken !== undefined;
+  return {
+    signal: deadline
+      ? AbortSignal.any([extra.signal, deadline.signal])
+      : extra.signal,
+    ...(deadline && { timeout: SDK_TIMEOUT_MS }),
+    ...((relayProgress || deadline) && {
+      onprogress: (progress) => {
+        deadline?.restart();
+        if (!relayProgress) {
+          return;
+        }
+        extra
+          .sendNotification({
+            method: "notifications/progress",
+            params: { ...progress, progressToken },
+          })
+          .catch((error) => {
+            log.warn("Failed to forward progress:", { error });
+          });
+      },
+    }),
+  };
+};
+
+/**
+ * Relays notifications from the upstream client to the downstream server.
+ * Registered on each upstream client, including ones created on reconnect.
+ */
+export const forwardUpstreamNotifications = ({
+  client,
+  server,
+  serverCapabilities,
+}: {
+  client: Client;
+  server: Server;
+  serverCapabilities: ServerCapabilities;
+}): void => {
+  const forward = async (args: ServerNotification) => {
+    return server.notification(args);
+  };
+
+  if (serverCapabilities?.logging) {
+    client.setNotificationHandler(LoggingMessageNotificationSchema, forward);
+  }
+
+  if (serverCapabilities?.prompts) {
+    client.setNotificationHandler(PromptListChangedNotificationSchema, forward);
+  }
+
+  if (serverCapabilities?.resources) {
+    client.setNotificationHandler(
+      ResourceListChangedNotificationSchema,
+      forward
+    );
+
+    if (serverCapabilities?.resources.subscribe) {
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, forward);
+    }
+  }
+
+  if (serverCapabilities?.tools) {
+    client.setNotificationHandler(ToolListChangedNotificationSchema, forward);
+  }
+};
+
+/**
+ * Relays requests the upstream server makes of its client to the downstream
+ * client, limited to what the downstream client declared at initialize.
+ * Registered on each upstream client, including ones created on reconnect.
+ */
+export const forwardUpstreamRequests = ({
+  client,
+  clientCapabilities,
+  server,
+}: {
+  client: Client;
+  clientCapabilities: ClientCapabilities;
+  server: Server;
+}): void => {
+  // These wait on the user, so they get as long as a confirmation prompt,
+  // and the upstream requests waiting on them are not timed out meanwhile
+  const deadlines = deadlinesFor(server);
+  const relay = async <Result>(
+    extra: ForwardedRequestExtra,
+    request: (options: RequestOptions) => Promise<Result>
+  ): Promise<Result> => {
+    const release = deadlines.hold();
+    try {
+      return await request({
+        ...forwardingOptions(extra),
+        timeout: CONFIRMATION_TIMEOUT_MS,
+      });
+    } finally {
+      release();
+    }
+  };
+
+  if (clientCapabilities.sampling) {
+    client.setRequestHandler(CreateMessageRequestSchema, async (args, extra) =>
+      relay(extra, (options) => server.createMessage(args.params, options))
+    );
+  }
+
+  if (clientCapabilities.elicitation) {
+    client.setRequestHandler(ElicitRequestSchema, async (args, extra) =>
+      relay(extra, (options) => server.elicitInput(args.params, options))
+    );
+  }
+
+  if (clientCapabilities.roots) {
+    client.setRequestHandler(ListRootsRequestSchema, async (args, extra) =>
+      relay(extra, (options) => server.listRoots(args.params, options))
+    );
+  }
+};
+
 export const proxyServer = async ({
   client,
+  clientCapabilities,
+  confirmDestructive,
+  confirmFallback = "block",
+  filters,
   getClient,
+  names,
+  onSetLevel,
+  readOnly,
+  recover,
   server,
   serverCapabilities,
+  shims = [],
+  subscriptions,
+  timeouts,
+  unannotatedTools = "block",
 }: {
-  client: Client;
   server: Server;
+  // What the upstream server advertises
   serverCapabilities: ServerCapabilities;
-  getClient?: () => Client;
+  // Omitted when connecting lazily; getClient then opens the connection
+  client?: Client;
+  // What the downstream client declared at initialize
+  clientCapabilities?: ClientCapabilities;
+  // Ask the user before running tools annotated destructiveHint, with
+  // confirmFallback for clients that cannot be asked
+  confirmDestructive?: boolean;
+  confirmFallback?: ConfirmFallback;
+  // Hide tools, prompts and resources from the client and refuse their use
+  filters?: ProxyFilters;
+  getClient?: () => Client | Promise<Client>;
+  // Tool and prompt names shown to the client instead of upstream's
+  names?: ProxyNames;
+  // Set when the proxy sends log messages of its own. logging/setLevel is
+  // then answered even if the upstream server does not log.
+  onSetLevel?: (level: LoggingLevel) => void;
+  // Hide and refuse tools the upstream server does not annotate as
+  // read-only, with unannotatedTools deciding for tools without hints
+  readOnly?: boolean;
+  // Called when a request fails because the upstream connection dropped;
+  // resolves to the client to retry it on
+  recover?: (failed: Client, error: Error) => Promise<Client>;
+  // Rewrite tool schemas for what the downstream client can handle
+  shims?: SchemaShim[];
+  // Tracks active resource subscriptions so they survive a reconnect
+  subscriptions?: Set<string>;
+  timeouts?: RequestTimeouts;
+  unannotatedTools?: UnannotatedToolPolicy;
 }): Promise<void> => {
-  const getCurrentClient = () => getClient?.() || client;
+  const deadlines = deadlinesFor(server);
+
+  // Requests are only checked when there are rules for their kind, and
+  // otherwise reach the upstream server as they are
+  const promptAllowed = createFilter(filters?.prompts);
+  const resourceAllowed = createFilter(filters?.resources);
+  const toolAllowed = createFilter(filters?.tools);
+  // Filters and annotations work on upstream names, so requests are mapped
+  // back before anything else looks at them
+  const promptNames = createNameMap(names?.prompts);
+  const toolNames = createNameMap(names?.tools);
+  const toolExposed = (tool: Tool): boolean =>
+    toolAllowed(tool.name) &&
+    (!readOnly || isReadOnlyTool(tool, unannotatedTools));
+
+  // Tools as last listed upstream, so read-only mode and confirmation can
+  // check a call against the tool's annotations
+  const knownTools = new Map<string, Tool>();
+  const rememberTools = (tools: Tool[]) => {
+    for (const tool of tools) {
+      knownTools.set(tool.name, tool);
+    }
+  };
+
+  const getCurrentClient = async (): Promise<Client> => {
+    const current = (await getClient?.()) ?? client;
+    if (!current) {
+      throw new Error("No upstream client available");
+    }
+    return current;
+  };
+
+  // Sends a downstream request to the current upstream client under its
+  // method's deadline. A request the upstream server never ran because its
+  // session expired is sent once more on the replacement, and so is one
+  // that changes nothing upstream when the connection failed otherwise.
+  // Anything else may already have run, so it is not repeated.
+  const forward = async <Result>(
+    method: keyof RequestTimeouts,
+    extra: ForwardedRequestExtra,
+    request: (current: Client, options: RequestOptions) => Promise<Result>
+  ): Promise<Result> => {
+    const timeout =
+      timeouts?.[method] ?? timeouts?.default ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    const attempt = async (current: Client): Promise<Result> => {
+      const deadline = deadlines.start(timeout);
+      try {
+        return await request(current, forwardingOptions(extra, deadline));
+      } finally {
+        deadline.stop();
+      }
+    };
+
+    const current = await getCurrentClient();
+    try {
+      return await attempt(current);
+    } catch (error) {
+      if (
+        !recover ||
+        !(error instanceof Error) ||
+        !(
+          isSessionExpired(error) ||
+          (READ_ONLY_METHODS.has(method) && isConnectionError(error))
+        )
+      ) {
+        throw error;
+      }
+      log.warn(`Retrying on a new connection after: ${error.message}`);
+      return attempt(await recover(current, error));
+    }
+  };
+
   if (serverCapabilities?.logging) {
     server.setNotificationHandler(
       LoggingMessageNotificationSchema,
       async (args) => {
-        return getCurrentClient().notification(args);
+        return (await getCurrentClient()).notification(args);
       }
     );
-    getCurrentClient().setNotificationHandler(
-      LoggingMessageNotificationSchema,
-      async (args) => {
-        return server.notification(args);
-      }
+  }
+
+  if (serverCapabilities?.logging || onSetLevel) {
+    server.setRequestHandler(
+      SetLevelRequestSchema,
+      logged(async (args, extra) => {
+        onSetLevel?.(args.params.level);
+        if (!serverCapabilities?.logging) {
+          return {};
+        }
+        return forward(args.method, extra, (current, options) =>
+          current.setLoggingLevel(args.params.level, options)
+        );
+      })
     );
   }
+  // Without a client yet, the connection's owner registers these once it
+  // connects
+  if (client) {
+    forwardUpstreamNotifications({ client, server, serverCapabilities });
+  }
+
+  if (clientCapabilities) {
+    if (client) {
+      forwardUpstreamRequests({ client, clientCapabilities, server });
+    }
+
+    if (clientCapabilities.roots?.listChanged) {
+      server.setNotificationHandler(
+        RootsListChangedNotificationSchema,
+        async () => {
+          return (await getCurrentClient()).sendRootsListChanged();
+        }
+      );
+    }
+  }
 
   if (serverCapabilities?.prompts) {
-    server.setRequestHandler(GetPromptRequestSchema, async (args) => {
-      return getCurrentClient().getPrompt(args.params);
-    });
+    server.setRequestHandler(
+      GetPromptRequestSchema,
+      logged(async (args, extra) => {
+        const params = names?.prompts
+          ? {
+              ...args.params,
+              name: upstreamName(promptNames, "prompt", args.params.name),
+            }
+          : args.params;
+        if (filters?.prompts && !promptAllowed(params.name)) {
+          throw blocked("Prompt", args.params.name);
+        }
+        return forward(args.method, extra, (current, options) =>
+          current.getPrompt(params, options)
+        );
+      })
+    );
 
-    server.setRequestHandler(ListPromptsRequestSchema, async (args) => {
-      return getCurrentClient().listPrompts(args.params);
-    });
+    server.setRequestHandler(
+      ListPromptsRequestSchema,
+      logged(async (args, extra) => {
+        const result = await forward(args.method, extra, (current, options) =>
+          current.listPrompts(args.params, options)
+        );
+        return {
+          ...result,
+          prompts: renameAll(
+            result.prompts.filter((prompt) => promptAllowed(prompt.name)),
+            promptNames,
+            "prompt"
+          ),
+        };
+      })
+    );
   }
 
   if (serverCapabilities?.resources) {
-    server.setRequestHandler(ListResourcesRequestSchema, async (args) => {
-      return getCurrentClient().listResources(args.params);
-    });
+    server.setRequestHandler(
+      ListResourcesRequestSchema,
+      logged(async (args, extra) => {
+        const result = await forward(args.method, extra, (current, options) =>
+          current.listResources(args.params, options)
+        );
+        return {
+          ...result,
+          resources: result.resources.filter((resource) =>
+            resourceAllowed(resource.uri)
+          ),
+        };
+      })
+    );
 
     server.setRequestHandler(
       ListResourceTemplatesRequestSchema,
-      async (args) => {
-        return getCurrentClient().listResourceTemplates(args.params);
-      }
+      logged(async (args, extra) => {
+        const result = await forward(args.method, extra, (current, options) =>
+          current.listResourceTemplates(args.params, options)
+        );
+        return {
+          ...result,
+          resourceTemplates: result.resourceTemplates.filter((template) =>
+            resourceAllowed(template.uriTemplate)
+          ),
+        };
+      })
     );
 
-    server.setRequestHandler(ReadResourceRequestSchema, async (args) => {
-      return getCurrentClient().readResource(args.params);
-    });
+    server.setRequestHandler(
+      ReadResourceRequestSchema,
+      logged(async (args, extra) => {
+        if (filters?.resources && !resourceAllowed(args.params.uri)) {
+          throw blocked("Resource", args.params.uri);
+        }
+        return forward(args.method, extra, (current, options) =>
+          current.readResource(args.params, options)
+        );
+      })
+    );
 
     if (serverCapabilities?.resources.subscribe) {
       server.setNotificationHandler(
         ResourceUpdatedNotificationSchema,
         async (args) => {
-          return getCurrentClient().notification(args);
+          return (await getCurrentClient()).notification(args);
         }
       );
 
-      server.setRequestHandler(SubscribeRequestSchema, async (args) => {
-        return getCurrentClient().subscribeResource(args.params);
-      });
+      server.setRequestHandler(
+        SubscribeRequestSchema,
+        logged(async (args, extra) => {
+          if (filters?.resources && !resourceAllowed(args.params.uri)) {
+            throw blocked("Resource", args.params.uri);
+          }
+          const result = await forward(args.method, extra, (current, options) =>
+            current.subscribeResource(args.params, options)
+          );
+          subscriptions?.add(args.params.uri);
+          return result;
+        })
+      );
 
-      server.setRequestHandler(UnsubscribeRequestSchema, async (args) => {
-        return getCurrentClient().unsubscribeResource(args.params);
-      });
+      server.setRequestHandler(
+        UnsubscribeRequestSchema,
+        logged(async (args, extra) => {
+          const result = await forward(args.method, extra, (current, options) =>
+            current.unsubscribeResource(args.params, options)
+          );
+          subscriptions?.delete(args.params.uri);
+          return result;
+        })
+      );
     }
   }
 
   if (serverCapabilities?.tools) {
-    server.setRequestHandler(CallToolRequestSchema, async (args) => {
-      return getCurrentClient().callTool(args.params);
-    });
+    // A tool the client called without listing it first is looked up
+    // upstream; undefined when it cannot be found
+    const lookUpTool = async (
+      name: string,
+      extra: ForwardedRequestExtra
+    ): Promise<Tool | undefined> => {
+      if (!knownTools.has(name)) {
+        let cursor: string | undefined;
+        do {
+          const page = await forward("tools/list", extra, (current, options) =>
+            current.listTools(cursor ? { cursor } : {}, options)
+          );
+          rememberTools(page.tools);
+          cursor = page.nextCursor;
+        } while (cursor && !knownTools.has(name));
+      }
+      return knownTools.get(name);
+    };
+
+    server.setRequestHandler(
+      CallToolRequestSchema,
+      logged(async (args, extra) => {
+        let { params } = args;
+        // Undone in the opposite order to how tools/list applied them
+        if (shims.length) {
+          params = {
+            ...params,
+            name: shims.reduceRight(
+              (name, shim) => shim.restoreName?.(name) ?? name,
+              params.name
+            ),
+          };
+        }
+        if (names?.tools) {
+          params = {
+            ...params,
+            name: upstreamName(toolNames, "tool", params.name),
+          };
+        }
+        if (filters?.tools && !toolAllowed(params.name)) {
+          throw blocked("Tool", args.params.name);
+        }
+        const argumentShims = shims.filter((shim) => shim.restoreArguments);
+        const tool =
+          readOnly || confirmDestructive || argumentShims.length
+            ? await lookUpTool(params.name, extra)
+            : undefined;
+        if (readOnly && !(tool && isReadOnlyTool(tool, unannotatedTools))) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Tool ${args.params.name} is not marked read-only and is blocked in read-only mode`
+          );
+        }
+        if (tool && params.arguments) {
+          const { inputSchema } = tool;
+          params = {
+            ...params,
+            arguments: argumentShims.reduceRight(
+              (restored, shim) =>
+                shim.restoreArguments?.(restored, inputSchema) ?? restored,
+              params.arguments
+            ),
+          };
+        }
+        if (confirmDestructive && tool && isDestructiveTool(tool)) {
+          const confirmation = await confirmToolCall({
+            fallback: confirmFallback,
+            options: { signal: extra.signal, timeout: CONFIRMATION_TIMEOUT_MS },
+            params,
+            server,
+          });
+          if (!confirmation.confirmed) {
+            log.info(`Did not run destructive tool ${params.name}`, {
+              requestId: extra.requestId,
+            });
+            return confirmation.result;
+          }
+          params = confirmation.params;
+        }
+        return forward(args.method, extra, (current, options) =>
+          current.callTool(params, undefined, options)
+        );
+      })
+    );
 
-    server.setRequestHandler(ListToolsRequestSchema, async (args) => {
-      return getCurrentClient().listTools(args.params);
-    });
+    server.setRequestHandler(
+      ListToolsRequestSchema,
+      logged(async (args, extra) => {
+        const result = await forward(args.method, extra, (current, options) =>
+          current.listTools(args.params, options)
+        );
+        rememberTools(result.tools);
+        // Under the argument fallback the model has to learn about the
+        // confirm argument from the tool's schema
+        const askForArgument =
+          confirmDestructive &&
+          confirmFallback === "argument" &&
+          !server.getClientCapabilities()?.elicitation?.form;
+        return {
+          ...result,
+          tools: renameAll(
+            result.tools
+              .filter(toolExposed)
+              .map((tool) =>
+                askForArgument && isDestructiveTool(tool)
+                  ? withConfirmArgument(tool)
+                  : tool
+              ),
+            toolNames,
+            "tool"
+          ).map((tool) =>
+            shims.reduce((shimmed, shim) => shim.rewriteTool(shimmed), tool)
+          ),
+        };
+      })
+    );
   }
 
-  server.setRequestHandler(CompleteRequestSchema, async (args) => {
-    return getCurrentClient().complete(args.params);
-  });
+  server.setRequestHandler(
+    CompleteRequestSchema,
+    logged(async (args, extra) => {
+      let { params } = args;
+      const { ref } = params;
+      if (ref.type === "ref/prompt") {
+        const name = names?.prompts
+          ? upstreamName(promptNames, "prompt", ref.name)
+          : ref.name;
+        if (!promptAllowed(name)) {
+          throw blocked("Prompt", ref.name);
+        }
+        params = { ...params, ref: { ...ref, name } };
+      }
+      if (ref.type === "ref/resource" && !resourceAllowed(ref.uri)) {
+        throw blocked("Resource", ref.uri);
+      }
+      return forward(args.method, extra, (current, options) =>
+        current.complete(params, options)
+      );
+    })
+  );
 };
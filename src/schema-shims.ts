@@ -0,0 +1,345 @@
+import { createHash } from "node:crypto";
+
+import type { CallToolRequest, Tool } from "@modelcontextprotocol/sdk/types.js";
+
+import type { ClientInfo } from "./types.js";
+
+export const SCHEMA_SHIM_NAMES = ["cursor", "gemini", "openai-strict"] as const;
+
+export type SchemaShimName = (typeof SCHEMA_SHIM_NAMES)[number];
+
+type JsonSchema = Record<string, unknown>;
+type ToolArguments = NonNullable<CallToolRequest["params"]["arguments"]>;
+
+/**
+ * Rewrites tools for a client that cannot use some of what upstream
+ * schemas contain, and undoes the rewrite on calls to them
+ */
+export interface SchemaShim {
+  name: SchemaShimName;
+  rewriteTool(tool: Tool): Tool;
+  // Turns arguments shaped for the rewritten schema back into ones for
+  // `schema`, the tool's schema as upstream listed it
+  restoreArguments?(args: ToolArguments, schema: JsonSchema): ToolArguments;
+  // The name the tool had before rewriteTool renamed it
+  restoreName?(name: string): string;
+}
+
+// Client names, as sent in initialize or detected from the parent process,
+// each shim applies to
+const CLIENT_PATTERNS: Record<SchemaShimName, RegExp> = {
+  cursor: /cursor/i,
+  gemini: /gemini/i,
+  "openai-strict": /chatgpt|codex|openai/i,
+};
+
+// Cursor cuts the server and tool names together at 60 characters, which
+// leaves 20 for the name the user gave the server
+const CURSOR_MAX_TOOL_NAME_LENGTH = 40;
+// OpenAI refuses function descriptions longer than this
+const OPENAI_MAX_DESCRIPTION_LENGTH = 1024;
+
+// Keywords holding one subschema, a list of them, or a map of them
+const SCHEMA_KEYS = ["additionalProperties", "items", "not"];
+const SCHEMA_LIST_KEYS = ["allOf", "anyOf", "items", "oneOf", "prefixItems"];
+const SCHEMA_MAP_KEYS = [
+  "$defs",
+  "definitions",
+  "patternProperties",
+  "properties",
+];
+
+const isSchema = (value: unknown): value is JsonSchema =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Applies `map` to each subschema directly inside `schema`
+const mapChildren = (
+  schema: JsonSchema,
+  map: (child: JsonSchema) => JsonSchema
+): JsonSchema => {
+  const mapped: JsonSchema = { ...schema };
+  for (const key of SCHEMA_KEYS) {
+    const child = schema[key];
+    if (isSchema(child)) {
+      mapped[key] = map(child);
+    }
+  }
+  for (const key of SCHEMA_LIST_KEYS) {
+    const children = schema[key];
+    if (Array.isArray(children)) {
+      mapped[key] = children.map((child) =>
+        isSchema(child) ? map(child) : child
+      );
+    }
+  }
+  for (const key of SCHEMA_MAP_KEYS) {
+    const children = schema[key];
+    if (isSchema(children)) {
+      mapped[key] = Object.fromEntries(
+        Object.entries(children).map(([name, child]) => [
+          name,
+          isSchema(child) ? map(child) : child,
+        ])
+      );
+    }
+  }
+  return mapped;
+};
+
+// Applies `rewrite` to `schema` and every schema inside it, innermost first
+const rewriteAll = (
+  schema: JsonSchema,
+  rewrite: (schema: JsonSchema) => JsonSchema
+): JsonSchema =>
+  rewrite(mapChildren(schema, (child) => rewriteAll(child, rewrite)));
+
+// The schema a local reference such as #/$defs/Job points to
+const lookUpRef = (root: JsonSchema, ref: string): JsonSchema | undefined => {
+  if (!ref.startsWith("#")) {
+    return undefined;
+  }
+  let target: unknown = root;
+  for (const part of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(part)
+      .replace(/~1/g, "/")
+      .replace(/~0/g, "~");
+    target = isSchema(target) ? target[key] : undefined;
+  }
+  return isSchema(target) ? target : undefined;
+};
+
+/**
+ * Replaces local `$ref`s with the schemas they point to and drops the
+ * definitions. A reference back into itself becomes a plain object, and
+ * one that cannot be resolved is left as an unconstrained schema.
+ */
+export function dereference(root: JsonSchema): JsonSchema {
+  const resolve = (schema: JsonSchema, seen: string[]): JsonSchema => {
+    const { $ref: ref, ...rest } = schema;
+    if (typeof ref !== "string") {
+      return mapChildren(schema, (child) => resolve(child, seen));
+    }
+    if (seen.includes(ref)) {
+      return { type: "object", ...rest };
+    }
+    const target = lookUpRef(root, ref);
+    return target
+      ? resolve({ ...target, ...rest }, [...seen, ref])
+      : resolve(rest, seen);
+  };
+
+  const {
+    $defs: _defs,
+    definitions: _definitions,
+    ...resolved
+  } = resolve(root, []);
+  return resolved;
+}
+
+const typeName = (branch: JsonSchema): string =>
+  typeof branch.type === "string" ? branch.type : "other values";
+
+/**
+ * Replaces `anyOf`, `oneOf`, `allOf` and lists of types with a single
+ * schema. A null alternative becomes `nullable`; of several others the
+ * first is kept and the rest are named in the description.
+ */
+export function flattenUnions(root: JsonSchema): JsonSchema {
+  return rewriteAll(root, (schema) => {
+    let flat = schema;
+
+    const { allOf, ...withoutAllOf } = flat;
+    if (Array.isArray(allOf)) {
+      flat = allOf.filter(isSchema).reduce<JsonSchema>(
+        (merged, branch) => ({
+          ...branch,
+          ...merged,
+          ...((isSchema(branch.properties) || isSchema(merged.properties)) && {
+            properties: {
+              ...(isSchema(branch.properties) && branch.properties),
+              ...(isSchema(merged.properties) && merged.properties),
+            },
+          }),
+          ...((Array.isArray(branch.required) ||
+            Array.isArray(merged.required)) && {
+            required: [
+              ...new Set([
+                ...(Array.isArray(merged.required) ? merged.required : []),
+                ...(Array.isArray(branch.required) ? branch.required : []),
+              ]),
+            ],
+          }),
+        }),
+        withoutAllOf
+      );
+    }
+
+    for (const key of ["anyOf", "oneOf"]) {
+      const { [key]: union, ...rest } = flat;
+      if (!Array.isArray(union)) {
+        continue;
+      }
+      const branches = union.filter(isSchema);
+      const others = branches.filter((branch) => branch.type !== "null");
+      const [first = {}, ...alternatives] = others;
+      const description = [
+        rest.description ?? first.description,
+        alternatives.length
+          ? `Also accepts: ${alternatives.map(typeName).join(", ")}.`
+          : undefined,
+      ].filter((part) => typeof part === "string");
+      flat = {
+        ...first,
+        ...rest,
+        ...(description.length && { description: description.join(" ") }),
+        ...(others.length < branches.length && { nullable: true }),
+      };
+    }
+
+    if (Array.isArray(flat.type)) {
+      const types = flat.type.filter((type) => type !== "null");
+      flat = {
+        ...flat,
+        type: types[0] ?? "null",
+        ...(types.length < flat.type.length && { nullable: true }),
+      };
+    }
+    return flat;
+  });
+}
+
+// Cuts text down to `max` characters, marking the cut
+const truncate = (text: string, max: number): string =>
+  text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+// Lets a property also be null, for optional properties made required
+const allowNull = (schema: JsonSchema): JsonSchema => {
+  const withNullEnum =
+    Array.isArray(schema.enum) && !schema.enum.includes(null)
+      ? { ...schema, enum: [...schema.enum, null] }
+      : schema;
+  if (typeof schema.type === "string") {
+    return { ...withNullEnum, type: [schema.type, "null"] };
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.includes("null")
+      ? withNullEnum
+      : { ...withNullEnum, type: [...schema.type, "null"] };
+  }
+  return { anyOf: [schema, { type: "null" }] };
+};
+
+/**
+ * Makes every object with listed properties closed and fully required, as
+ * OpenAI's strict mode demands. Optional properties may be null instead.
+ */
+export function strictObjects(root: JsonSchema): JsonSchema {
+  return rewriteAll(root, (schema) => {
+    const { properties } = schema;
+    if (!isSchema(properties)) {
+      return schema;
+    }
+    const required = Array.isArray(schema.required) ? schema.required : [];
+    return {
+      ...schema,
+      additionalProperties: false,
+      properties: Object.fromEntries(
+        Object.entries(properties).map(([name, property]) => [
+          name,
+          isSchema(property) && !required.includes(name)
+            ? allowNull(property)
+            : property,
+        ])
+      ),
+      required: Object.keys(properties),
+    };
+  });
+}
+
+/**
+ * Removes null values from properties `schema` does not require, which is
+ * how a strict-mode client leaves out an optional argument
+ */
+export function dropNullOptionals(value: unknown, schema: JsonSchema): unknown {
+  if (Array.isArray(value)) {
+    const { items } = schema;
+    return isSchema(items)
+      ? value.map((item) => dropNullOptionals(item, items))
+      : value;
+  }
+  const { properties } = schema;
+  if (!isSchema(value) || !isSchema(properties)) {
+    return value;
+  }
+  const required = Array.isArray(schema.required) ? schema.required : [];
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([name, item]) => item !== null || required.includes(name))
+      .map(([name, item]) => {
+        const property = properties[name];
+        return [
+          name,
+          isSchema(property) ? dropNullOptionals(item, property) : item,
+        ];
+      })
+  );
+}
+
+const withInputSchema = (
+  tool: Tool,
+  rewrite: (schema: JsonSchema) => JsonSchema
+): Tool => ({
+  ...tool,
+  inputSchema: rewrite(tool.inputSchema) as Tool["inputSchema"],
+});
+
+// Each call gets its own instances, since some remember what they renamed
+const SHIM_FACTORIES: Record<SchemaShimName, () => SchemaShim> = {
+  cursor: () => {
+    const shortened = new Map<string, string>();
+    return {
+      name: "cursor",
+      restoreName: (name) => shortened.get(name) ?? name,
+      rewriteTool: (tool) => {
+        if (tool.name.length <= CURSOR_MAX_TOOL_NAME_LENGTH) {
+          return tool;
+        }
+        // A hash of the full name keeps shortened names apart
+        const hash = createHash("sha256").update(tool.name).digest("hex");
+        const name = `${tool.name.slice(0, CURSOR_MAX_TOOL_NAME_LENGTH - 7)}_${hash.slice(0, 6)}`;
+        shortened.set(name, tool.name);
+        return { ...tool, name };
+      },
+    };
+  },
+  gemini: () => ({
+    name: "gemini",
+    rewriteTool: (tool) =>
+      withInputSchema(tool, (schema) => {
+        const { $schema: _schema, ...flat } = flattenUnions(
+          dereference(schema)
+        );
+        return flat;
+      }),
+  }),
+  "openai-strict": () => ({
+    name: "openai-strict",
+    restoreArguments: (args, schema) =>
+      dropNullOptionals(args, dereference(schema)) as ToolArguments,
+    rewriteTool: (tool) => ({
+      ...withInputSchema(tool, strictObjects),
+      ...(tool.description && {
+        description: truncate(tool.description, OPENAI_MAX_DESCRIPTION_LENGTH),
+      }),
+    }),
+  }),
+};
+
+/**
+ * The shims a client needs, judged by its name
+ */
+export const detectSchemaShims = (client: ClientInfo): SchemaShimName[] =>
+  SCHEMA_SHIM_NAMES.filter((name) => CLIENT_PATTERNS[name].test(client.name));
+
+export const createSchemaShims = (names: SchemaShimName[]): SchemaShim[] =>
+  names.map((name) => SHIM_FACTORIES[name]());
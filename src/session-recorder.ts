@@ -0,0 +1,162 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+import { PROXY_VERSION } from "./constants.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("RECORDER");
+
+// Bumped whenever a change to the entries would break a replay tool
+export const SESSION_FORMAT_VERSION = 1;
+
+export const REDACTED = "[REDACTED]";
+
+// Matched case-insensitively against object keys at any depth
+export const DEFAULT_REDACTED_FIELDS = [
+  "access_token",
+  "api_key",
+  "authorization",
+  "client_secret",
+  "cookie",
+  "id_token",
+  "password",
+  "refresh_token",
+];
+
+export type RecordedDirection =
+  | "from-client"
+  | "from-server"
+  | "to-client"
+  | "to-server";
+
+/**
+ * First entry written by each proxy run
+ */
+export interface RecordedSession {
+  proxyVersion: string;
+  targetUrl: string;
+  time: string;
+  type: "session";
+  version: typeof SESSION_FORMAT_VERSION;
+}
+
+/**
+ * A JSON-RPC message as it crossed the proxy. "client" is the MCP client
+ * on stdio, "server" the upstream FoundRole server.
+ */
+export interface RecordedMessage {
+  direction: RecordedDirection;
+  message: JSONRPCMessage;
+  time: string;
+  type: "message";
+}
+
+export type SessionEntry = RecordedMessage | RecordedSession;
+
+export interface SessionRecorderOptions {
+  file: string;
+  targetUrl: string;
+  // Added to DEFAULT_REDACTED_FIELDS
+  redactFields?: string[];
+}
+
+/**
+ * Copies `value`, replacing the value of every key in `fields`
+ */
+export function redact(value: unknown, fields: ReadonlySet<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, fields));
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      fields.has(key.toLowerCase()) ? REDACTED : redact(item, fields),
+    ])
+  );
+}
+
+/**
+ * Appends every JSON-RPC message crossing an attached transport to a JSONL
+ * session file. Each run starts with a session entry, so one file can hold
+ * several runs. Messages carry no HTTP headers, so the upstream
+ * Authorization header never reaches the file.
+ */
+export class SessionRecorder {
+  readonly file: string;
+  private readonly fields: ReadonlySet<string>;
+  private state: "failed" | "recording" | "waiting" = "waiting";
+  private readonly targetUrl: string;
+
+  constructor({ file, redactFields = [], targetUrl }: SessionRecorderOptions) {
+    this.file = path.resolve(file);
+    this.targetUrl = targetUrl;
+    this.fields = new Set(
+      [...DEFAULT_REDACTED_FIELDS, ...redactFields].map((field) =>
+        field.toLowerCase()
+      )
+    );
+  }
+
+  /**
+   * Records what `transport` sends and receives. Call it before the
+   * transport is connected, or after its message handler is in place.
+   */
+  attach(transport: Transport, peer: "client" | "server"): void {
+    const send = transport.send.bind(transport);
+    transport.send = (message, options) => {
+      this.record(`to-${peer}`, message);
+      return send(message, options);
+    };
+
+    const receive = transport.onmessage;
+    transport.onmessage = (message, extra) => {
+      this.record(`from-${peer}`, message);
+      receive?.(message, extra);
+    };
+  }
+
+  record(direction: RecordedDirection, message: JSONRPCMessage): void {
+    const time = new Date().toISOString();
+    if (this.state === "waiting") {
+      this.write({
+        proxyVersion: PROXY_VERSION,
+        targetUrl: this.targetUrl,
+        time,
+        type: "session",
+        version: SESSION_FORMAT_VERSION,
+      });
+    }
+    this.write({
+      direction,
+      message: redact(message, this.fields) as JSONRPCMessage,
+      time,
+      type: "message",
+    });
+  }
+
+  private write(entry: SessionEntry): void {
+    if (this.state === "failed") {
+      return;
+    }
+    try {
+      if (this.state === "waiting") {
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        this.state = "recording";
+      }
+      // The session holds job searches and account data, so keep it private
+      fs.appendFileSync(this.file, `${JSON.stringify(entry)}\n`, {
+        mode: 0o600,
+      });
+    } catch (error) {
+      // Recording is a diagnostic aid; it must not break the session itself
+      this.state = "failed";
+      log.warn(`Stopped recording to ${this.file}:`, { error });
+    }
+  }
+}
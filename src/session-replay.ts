@@ -0,0 +1,200 @@
+import fs from "node:fs";
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type {
+  JSONRPCMessage,
+  JSONRPCRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+import { createLogger } from "./logger.js";
+import type { SessionEntry } from "./session-recorder.js";
+import { REDACTED, SESSION_FORMAT_VERSION } from "./session-recorder.js";
+
+const log = createLogger("REPLAY");
+
+type Answer =
+  | { error: { code: number; message: string; data?: unknown } }
+  | { result: Record<string, unknown> };
+
+/**
+ * An upstream request from a recording, with what the server answered
+ */
+export interface RecordedExchange {
+  answer: Answer;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+const isRequest = (message: JSONRPCMessage): message is JSONRPCRequest =>
+  "method" in message && "id" in message;
+
+/**
+ * Reads the upstream request/response pairs from a recorded session file,
+ * across every run it holds, in the order they were answered
+ */
+export function readSession(file: string): RecordedExchange[] {
+  let lines: string[];
+  try {
+    lines = fs.readFileSync(file, "utf-8").split("\n");
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read session file ${file}: ${reason}`);
+  }
+
+  const exchanges: RecordedExchange[] = [];
+  // Request ids restart with each run, so pending requests do too
+  let pending = new Map<number | string, JSONRPCRequest>();
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    let entry: SessionEntry;
+    try {
+      entry = JSON.parse(line) as SessionEntry;
+    } catch {
+      throw new Error(`Invalid JSON in ${file} at line ${index + 1}`);
+    }
+
+    if (entry.type === "session") {
+      // Written by another release, so not necessarily the version typed here
+      const version: unknown = entry.version;
+      if (version !== SESSION_FORMAT_VERSION) {
+        throw new Error(
+          `Unsupported session format version ${String(version)} in ${file}`
+        );
+      }
+      pending = new Map();
+      return;
+    }
+
+    const { direction, message } = entry;
+    if (direction === "to-server" && isRequest(message)) {
+      pending.set(message.id, message);
+    } else if (
+      direction === "from-server" &&
+      "id" in message &&
+      message.id !== undefined &&
+      !("method" in message)
+    ) {
+      const request = pending.get(message.id);
+      if (!request) {
+        return;
+      }
+      pending.delete(message.id);
+      exchanges.push({
+        answer:
+          "error" in message
+            ? { error: message.error }
+            : { result: message.result },
+        method: request.method,
+        ...(request.params && { params: request.params }),
+      });
+    }
+  });
+
+  return exchanges;
+}
+
+// Progress tokens and other _meta differ between runs, so they are ignored
+const withoutMeta = (params: Record<string, unknown> = {}) => {
+  const { _meta, ...rest } = params;
+  return rest;
+};
+
+/**
+ * Compares recorded and live values, letting a redacted recorded value
+ * stand for anything
+ */
+const sameValue = (recorded: unknown, live: unknown): boolean => {
+  if (recorded === REDACTED) {
+    return true;
+  }
+  if (Array.isArray(recorded)) {
+    return (
+      Array.isArray(live) &&
+      recorded.length === live.length &&
+      recorded.every((item, index) => sameValue(item, live[index]))
+    );
+  }
+  if (recorded !== null && typeof recorded === "object") {
+    if (live === null || typeof live !== "object" || Array.isArray(live)) {
+      return false;
+    }
+    const recordedKeys = Object.keys(recorded);
+    return (
+      recordedKeys.length === Object.keys(live).length &&
+      recordedKeys.every((key) =>
+        sameValue(
+          (recorded as Record<string, unknown>)[key],
+          (live as Record<string, unknown>)[key]
+        )
+      )
+    );
+  }
+  return recorded === live;
+};
+
+/**
+ * Stands in for the upstream HTTP transport, answering each request with
+ * the recorded response to the same method and params. Repeated requests
+ * get the recorded responses in order, then the last one again.
+ * initialize is matched on its method alone, since the client identity
+ * and capabilities differ between runs.
+ */
+export class ReplayTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+  private readonly exchanges: RecordedExchange[];
+  private readonly served = new Set<RecordedExchange>();
+
+  constructor(exchanges: RecordedExchange[]) {
+    this.exchanges = exchanges;
+  }
+
+  async close(): Promise<void> {
+    this.onclose?.();
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    // Notifications and answers to server requests have nowhere to go
+    if (!isRequest(message)) {
+      return;
+    }
+
+    const answer = this.answer(message);
+    // Delivered after send resolves, as a network response would be
+    setImmediate(() => {
+      this.onmessage?.({ id: message.id, jsonrpc: "2.0", ...answer });
+    });
+  }
+
+  async start(): Promise<void> {}
+
+  private answer({ method, params }: JSONRPCRequest): Answer {
+    const candidates = this.exchanges.filter(
+      (exchange) =>
+        exchange.method === method &&
+        (method === "initialize" ||
+          sameValue(withoutMeta(exchange.params), withoutMeta(params)))
+    );
+
+    const next =
+      candidates.find((exchange) => !this.served.has(exchange)) ??
+      candidates.at(-1);
+    if (!next) {
+      log.warn(`No recorded response for ${method}`, { params });
+      return {
+        error: {
+          code: ErrorCode.InternalError,
+          message: `No recorded response for ${method} with these params`,
+        },
+      };
+    }
+
+    this.served.add(next);
+    return next.answer;
+  }
+}
@@ -2,54 +2,373 @@ import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import type { ServerCapabilities } from "@modelcontextprotocol/sdk/types.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type {
+  ClientCapabilities,
+  Implementation,
+  InitializeRequest,
+  JSONRPCMessage,
+  JSONRPCRequest,
+  ServerCapabilities,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 
-import { extractClientInfoFromParent } from "./client-detector.js";
-import { proxyServer } from "./proxy-server.js";
+import { CapabilityCache } from "./capability-cache.js";
+import { resolveClientInfo } from "./client-detector.js";
+import { ConnectionManager, isConnectionError } from "./connection-manager.js";
+import { PROXY_NAME, PROXY_VERSION } from "./constants.js";
+import type { UnannotatedToolPolicy } from "./filters.js";
+import { LogMirror } from "./log-mirror.js";
+import { createLogger } from "./logger.js";
+import { enableInteractiveAuth, ProxyOAuthProvider } from "./oauth-provider.js";
+import {
+  forwardUpstreamNotifications,
+  forwardUpstreamRequests,
+  holdUpstreamDeadlines,
+  proxyServer,
+} from "./proxy-server.js";
+import type { SchemaShimName } from "./schema-shims.js";
+import { createSchemaShims, detectSchemaShims } from "./schema-shims.js";
+import { SessionRecorder } from "./session-recorder.js";
+import type { RecordedExchange } from "./session-replay.js";
+import { readSession, ReplayTransport } from "./session-replay.js";
+import { TokenStore } from "./token-store.js";
+import type { ConfirmFallback } from "./tool-confirmation.js";
+import type {
+  ClientInfo,
+  ProxyFilters,
+  ProxyNames,
+  RequestTimeouts,
+} from "./types.js";
 
-export const startStdioServer = async ({
+const log = createLogger("PROXY");
+
+type InitializeMessage = JSONRPCRequest & {
+  params: InitializeRequest["params"];
+};
+
+const isInitializeRequest = (
+  message: JSONRPCMessage
+): message is InitializeMessage =>
+  "method" in message && "id" in message && message.method === "initialize";
+
+/**
+ * Holds back downstream messages from the Server until `onInitialize` has
+ * run for the initialize request, so the Server answers it with the
+ * upstream capabilities and later requests find their handlers registered
+ */
+const deferUntilInitialized = (
+  transport: Transport,
+  onInitialize: (params: InitializeRequest["params"]) => Promise<void>
+): void => {
+  const deliver = transport.onmessage;
+  let ready: Promise<void> | undefined;
+
+  transport.onmessage = (message, extra) => {
+    log.trace("Downstream message", { message });
+    if (ready) {
+      ready = ready.then(() => deliver?.(message, extra));
+    } else if (isInitializeRequest(message)) {
+      ready = onInitialize(message.params).then(
+        () => deliver?.(message, extra),
+        (error) => {
+          // Lets the client send initialize again
+          ready = undefined;
+          transport
+            .send({
+              error: {
+                code: ErrorCode.InternalError,
+                message: error instanceof Error ? error.message : String(error),
+              },
+              id: message.id,
+              jsonrpc: "2.0",
+            })
+            .catch((sendError) => {
+              log.error("Failed to answer the initialize request:", {
+                error: sendError,
+              });
+            });
+        }
+      );
+    } else {
+      deliver?.(message, extra);
+    }
+  };
+};
+
+/**
+ * Connects a new MCP client to the upstream server, or to a recorded
+ * session instead when `replay` is given. A sign-in the server asks for
+ * is completed in the browser.
+ */
+export const createHttpClient = async ({
+  authProvider,
+  capabilities = {},
+  clientInfo,
+  holdDeadlines,
+  recorder,
+  replay,
   url,
 }: {
+  authProvider: ProxyOAuthProvider;
+  clientInfo: ClientInfo;
   url: string;
-}): Promise<Server> => {
-  // Detect original client from parent process
-  const originalClientInfo = await extractClientInfoFromParent();
-  console.error(
-    `[PROXY] Using client identity: ${originalClientInfo.name}@${originalClientInfo.version}`
-  );
-
-  const createHttpClient = async () => {
-    const transport = new StreamableHTTPClientTransport(new URL(url));
-    const client = new Client(originalClientInfo, { capabilities: {} });
+  // Mirrored from the downstream client, so upstream may send it requests
+  capabilities?: ClientCapabilities;
+  // Pauses request deadlines while the user signs in; returns the resume
+  holdDeadlines?: () => () => void;
+  recorder?: SessionRecorder;
+  replay?: RecordedExchange[];
+}): Promise<Client> => {
+  let transport: Transport;
+  if (replay) {
+    transport = new ReplayTransport(replay);
+  } else {
+    const httpTransport = new StreamableHTTPClientTransport(new URL(url), {
+      authProvider,
+    });
+    enableInteractiveAuth(httpTransport, authProvider, holdDeadlines);
     // Type assertion needed due to MCP SDK type incompatibility:
     // StreamableHTTPClientTransport.sessionId is string|undefined but Transport expects string
-    await client.connect(transport as any);
+    transport = httpTransport as Transport;
+  }
+  recorder?.attach(transport, "server");
+  const client = new Client(clientInfo, { capabilities });
+  await client.connect(transport);
+  return client;
+};
+
+export const startStdioServer = async ({
+  confirmDestructive,
+  confirmFallback,
+  filters,
+  lazyConnect,
+  names,
+  profile,
+  readOnly,
+  recordFile,
+  redactFields,
+  replayFile,
+  schemaShims,
+  timeouts,
+  unannotatedTools,
+  url,
+}: {
+  url: string;
+  // Ask the user before running destructive tools
+  confirmDestructive?: boolean;
+  confirmFallback?: ConfirmFallback;
+  // Hide and block tools, prompts and resources that do not pass these
+  filters?: ProxyFilters;
+  // Answer initialize from the capability cache and connect on first use
+  lazyConnect?: boolean;
+  // Tool and prompt names shown to the client instead of upstream's
+  names?: ProxyNames;
+  profile?: string;
+  // Hide and refuse tools not annotated as read-only
+  readOnly?: boolean;
+  // Record both sides of the session to this file
+  recordFile?: string;
+  redactFields?: string[];
+  // Answer from this recorded session instead of connecting to url
+  replayFile?: string;
+  // Tool schema rewrites to use instead of those detected for the client
+  schemaShims?: SchemaShimName[];
+  timeouts?: RequestTimeouts;
+  unannotatedTools?: UnannotatedToolPolicy;
+}): Promise<Server> => {
+  // Shared across reconnects so a completed sign-in is not repeated
+  const authProvider = new ProxyOAuthProvider({
+    store: new TokenStore({ serverUrl: url, ...(profile && { profile }) }),
+  });
+
+  // Taken from the downstream initialize request. The capabilities are
+  // mirrored upstream so it can send sampling, elicitation and roots
+  // requests the downstream client supports.
+  let clientCapabilities: ClientCapabilities = {};
+  let originalClientInfo: ClientInfo;
+
+  const capabilityCache = new CapabilityCache({ serverUrl: url });
+  const replay = replayFile ? readSession(replayFile) : undefined;
+  const recorder = recordFile
+    ? new SessionRecorder({
+        file: recordFile,
+        targetUrl: url,
+        ...(redactFields && { redactFields }),
+      })
+    : undefined;
+
+  // Kept up to date on every connection so a later lazy start can answer
+  // initialize without reaching the server
+  const rememberCapabilities = (client: Client) => {
+    if (replay) {
+      return;
+    }
+    const capabilities = client.getServerCapabilities();
+    const serverInfo = client.getServerVersion();
+    if (!capabilities || !serverInfo) {
+      return;
+    }
+    try {
+      capabilityCache.write({ capabilities, serverInfo });
+    } catch (error) {
+      log.warn("Could not cache server capabilities:", { error });
+    }
+  };
+
+  const connectClient = async () => {
+    const client = await createHttpClient({
+      authProvider,
+      capabilities: clientCapabilities,
+      clientInfo: originalClientInfo,
+      holdDeadlines: () => holdUpstreamDeadlines(stdioServer),
+      url,
+      ...(recorder && { recorder }),
+      ...(replay && { replay }),
+    });
+    rememberCapabilities(client);
     return client;
   };
 
-  // Create HTTP client with original client identity
-  const httpClient = await createHttpClient();
+  // Create HTTP client with original client identity, replaced on reconnect
+  const connection = new ConnectionManager(connectClient);
 
-  const serverVersion = httpClient.getServerVersion() as {
-    name: string;
-    version: string;
+  // A request may be what opens the connection in lazy mode, or arrive
+  // while it is being replaced; an unreachable server then fails that
+  // request rather than the proxy
+  const reachable = async (
+    getClient: () => Promise<Client>
+  ): Promise<Client> => {
+    try {
+      return await getClient();
+    } catch (error) {
+      log.error(`Failed to connect to ${url}:`, { error });
+      if (error instanceof Error && isConnectionError(error)) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `FoundRole service unreachable (${url}): ${error.message}`
+        );
+      }
+      throw error;
+    }
   };
+  const connectOnDemand = () => reachable(connection.ensureClient);
+  const currentClient = () => reachable(connection.getClient);
+  const recover = (failed: Client, error: Error) =>
+    reachable(() => connection.recover(failed, error));
 
-  const serverCapabilities =
-    httpClient.getServerCapabilities() as ServerCapabilities;
+  // The Server keeps references to these, so filling them in from upstream
+  // before initialize is answered is what the downstream client sees.
+  // Logging is always advertised, for the proxy's own log messages.
+  const serverVersion: Implementation = {
+    name: PROXY_NAME,
+    version: PROXY_VERSION,
+  };
+  const serverCapabilities: ServerCapabilities = { logging: {} };
 
   const stdioServer = new Server(serverVersion, {
     capabilities: serverCapabilities,
   });
+  const logMirror = new LogMirror(stdioServer);
+
+  const registerForwarders = (client: Client) => {
+    forwardUpstreamNotifications({
+      client,
+      server: stdioServer,
+      serverCapabilities,
+    });
+    forwardUpstreamRequests({
+      client,
+      clientCapabilities,
+      server: stdioServer,
+    });
+  };
+
+  const connectUpstream = async (params: InitializeRequest["params"]) => {
+    clientCapabilities = params.capabilities;
+    originalClientInfo = await resolveClientInfo(params.clientInfo);
+    log.info(
+      `Using client identity: ${originalClientInfo.name}@${originalClientInfo.version}`
+    );
+    const shimNames = schemaShims ?? detectSchemaShims(originalClientInfo);
+    if (shimNames.length) {
+      log.info(`Rewriting tool schemas for: ${shimNames.join(", ")}`);
+    }
+    const shims = createSchemaShims(shimNames);
+    // Everything but the upstream client and its capabilities, which depend
+    // on whether the connection waits for first use
+    const options = {
+      clientCapabilities,
+      ...(confirmDestructive && { confirmDestructive }),
+      ...(confirmFallback && { confirmFallback }),
+      ...(filters && { filters }),
+      ...(names && { names }),
+      onSetLevel: logMirror.setLevel,
+      recover,
+      ...(readOnly && { readOnly }),
+      server: stdioServer,
+      ...(shims.length && { shims }),
+      subscriptions: connection.subscriptions,
+      ...(timeouts && { timeouts }),
+      ...(unannotatedTools && { unannotatedTools }),
+    };
+
+    const cached = lazyConnect ? capabilityCache.read() : undefined;
+    if (cached) {
+      Object.assign(serverVersion, cached.serverInfo);
+      Object.assign(serverCapabilities, cached.capabilities);
+      log.info(
+        `Using capabilities cached at ${new Date(cached.savedAt).toISOString()}, connecting to ${url} on first use`
+      );
+
+      await proxyServer({
+        ...options,
+        getClient: connectOnDemand,
+        serverCapabilities: cached.capabilities,
+      });
+      connection.onConnect = registerForwarders;
+      return;
+    }
+    if (lazyConnect) {
+      log.info(`No cached capabilities for ${url}, connecting at startup`);
+    }
+
+    let httpClient: Client;
+    try {
+      httpClient = await connection.start();
+    } catch (error) {
+      log.error(`Failed to connect to ${url}:`, { error });
+      throw error;
+    }
+
+    const upstreamCapabilities = httpClient.getServerCapabilities() ?? {};
+    Object.assign(serverVersion, httpClient.getServerVersion());
+    Object.assign(serverCapabilities, upstreamCapabilities);
+
+    await proxyServer({
+      ...options,
+      client: httpClient,
+      getClient: currentClient,
+      serverCapabilities: upstreamCapabilities,
+    });
+
+    connection.onConnect = registerForwarders;
+  };
 
   const stdioTransport = new StdioServerTransport();
   await stdioServer.connect(stdioTransport);
+  deferUntilInitialized(stdioTransport, connectUpstream);
+  // Attached last so messages are recorded as they arrive, not as they are
+  // released after initialize
+  recorder?.attach(stdioTransport, "client");
 
-  await proxyServer({
-    client: httpClient,
-    server: stdioServer,
-    serverCapabilities,
-  });
+  stdioServer.oninitialized = () => {
+    logMirror.start();
+  };
+  stdioServer.onclose = () => {
+    logMirror.stop();
+    connection.close().catch(() => {});
+  };
 
   return stdioServer;
 };
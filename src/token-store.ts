@@ -0,0 +1,201 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import type { OAuthDiscoveryState } from "@modelcontextprotocol/sdk/client/auth.js";
+import type {
+  OAuthClientInformationMixed,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+
+import { DEFAULT_PROFILE, getStateDir } from "./constants.js";
+import { createLogger } from "./logger.js";
+import { writeFileAtomic } from "./write-file-atomic.js";
+
+const log = createLogger("TOKEN-STORE");
+
+/**
+ * Everything remembered about one FoundRole sign-in for one MCP server URL
+ */
+export interface StoredCredentials {
+  clientInformation?: OAuthClientInformationMixed;
+  discoveryState?: OAuthDiscoveryState;
+  // Epoch milliseconds after which the access token is no longer valid
+  expiresAt?: number | undefined;
+  tokens?: OAuthTokens;
+}
+
+interface EncryptedFile {
+  data: string;
+  iv: string;
+  tag: string;
+  version: 1;
+}
+
+// Credentials of one profile, keyed by MCP server URL so staging and
+// production sign-ins do not overwrite each other
+type ProfileCredentials = Record<string, StoredCredentials>;
+
+const ALGORITHM = "aes-256-gcm";
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+
+export interface TokenStoreOptions {
+  serverUrl: string;
+  directory?: string;
+  profile?: string;
+}
+
+/**
+ * File-based credential store, one AES-256-GCM encrypted file per profile.
+ *
+ * The key lives in a separate owner-only file next to the profiles, so a
+ * copied or synced profile file cannot be read on its own.
+ */
+export class TokenStore {
+  readonly directory: string;
+  readonly profile: string;
+  readonly serverUrl: string;
+
+  constructor({ directory, profile, serverUrl }: TokenStoreOptions) {
+    const profileName = profile ?? DEFAULT_PROFILE;
+    if (!PROFILE_NAME_PATTERN.test(profileName)) {
+      throw new Error(
+        `Invalid profile name "${profileName}": use letters, digits, ".", "_" or "-"`
+      );
+    }
+
+    this.directory = directory ?? getStateDir();
+    this.profile = profileName;
+    this.serverUrl = serverUrl;
+  }
+
+  /**
+   * Lists the profiles that have stored credentials
+   */
+  static listProfiles(directory: string = getStateDir()): string[] {
+    const profilesDir = path.join(directory, "profiles");
+    if (!fs.existsSync(profilesDir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(profilesDir)
+      .filter((file) => file.endsWith(".enc"))
+      .map((file) => file.slice(0, -".enc".length))
+      .sort();
+  }
+
+  get filePath(): string {
+    return path.join(this.directory, "profiles", `${this.profile}.enc`);
+  }
+
+  read(): StoredCredentials {
+    return this.readProfile()[this.serverUrl] ?? {};
+  }
+
+  /**
+   * Merges the given fields into the stored credentials for this server
+   */
+  update(credentials: Partial<StoredCredentials>): void {
+    const profile = this.readProfile();
+    profile[this.serverUrl] = { ...profile[this.serverUrl], ...credentials };
+    this.writeProfile(profile);
+  }
+
+  /**
+   * Removes the stored fields for this server, or all of them
+   */
+  clear(fields?: (keyof StoredCredentials)[]): void {
+    const profile = this.readProfile();
+    const current = profile[this.serverUrl];
+    if (!current) {
+      return;
+    }
+
+    if (fields) {
+      for (const field of fields) {
+        delete current[field];
+      }
+    } else {
+      delete profile[this.serverUrl];
+    }
+
+    if (Object.keys(profile).length === 0) {
+      fs.rmSync(this.filePath, { force: true });
+      return;
+    }
+    this.writeProfile(profile);
+  }
+
+  private readProfile(): ProfileCredentials {
+    if (!fs.existsSync(this.filePath)) {
+      return {};
+    }
+
+    try {
+      const file = JSON.parse(
+        fs.readFileSync(this.filePath, "utf-8")
+      ) as EncryptedFile;
+      const decipher = createDecipheriv(
+        ALGORITHM,
+        this.getKey(),
+        Buffer.from(file.iv, "base64")
+      );
+      decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.data, "base64")),
+        decipher.final(),
+      ]).toString("utf-8");
+      return JSON.parse(plaintext) as ProfileCredentials;
+    } catch (error) {
+      // A corrupt or foreign file means signing in again, not crashing
+      log.warn(
+        `Ignoring unreadable credentials for profile '${this.profile}': ${String(error)}`
+      );
+      return {};
+    }
+  }
+
+  private writeProfile(profile: ProfileCredentials): void {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, this.getKey(), iv);
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(profile), "utf-8"),
+      cipher.final(),
+    ]);
+    const file: EncryptedFile = {
+      data: data.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      version: 1,
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { mode: 0o700, recursive: true });
+    writeFileAtomic(this.filePath, JSON.stringify(file), { mode: 0o600 });
+  }
+
+  private getKey(): Buffer {
+    const keyPath = path.join(this.directory, "key");
+    if (fs.existsSync(keyPath)) {
+      return Buffer.from(fs.readFileSync(keyPath, "utf-8").trim(), "base64");
+    }
+
+    fs.mkdirSync(this.directory, { mode: 0o700, recursive: true });
+    const key = randomBytes(32);
+    // The key is written in full before it is linked into place, so another
+    // proxy process never reads a half-written key
+    const tempPath = `${keyPath}.${process.pid}.tmp`;
+    try {
+      fs.writeFileSync(tempPath, key.toString("base64"), { mode: 0o600 });
+      fs.linkSync(tempPath, keyPath);
+    } catch (error) {
+      // Another proxy process created the key first; use theirs
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        return this.getKey();
+      }
+      throw error;
+    } finally {
+      fs.rmSync(tempPath, { force: true });
+    }
+    return key;
+  }
+}
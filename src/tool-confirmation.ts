@@ -0,0 +1,138 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolRequest,
+  CallToolResult,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+
+// What happens to a destructive tool call when the client cannot ask the
+// user: run it anyway, require CONFIRM_ARGUMENT, or refuse it
+export const CONFIRM_FALLBACKS = ["allow", "argument", "block"] as const;
+
+export type ConfirmFallback = (typeof CONFIRM_FALLBACKS)[number];
+
+// Argument that confirms a call under the "argument" fallback. It is
+// removed before the call goes upstream.
+export const CONFIRM_ARGUMENT = "confirm";
+
+// Longer values are cut short in the summary shown to the user
+const MAX_SUMMARY_VALUE_LENGTH = 200;
+
+type CallToolParams = CallToolRequest["params"];
+
+export type Confirmation =
+  | { confirmed: false; result: CallToolResult }
+  | { confirmed: true; params: CallToolParams };
+
+export const isDestructiveTool = (tool: Pick<Tool, "annotations">): boolean =>
+  tool.annotations?.destructiveHint === true;
+
+/**
+ * Lists a call's arguments one per line, as `name: value`, for the user
+ * to check before the call runs
+ */
+export function summarizeArguments(args: Record<string, unknown> = {}): string {
+  const lines = Object.entries(args).map(([name, value]) => {
+    const text = JSON.stringify(value) ?? String(value);
+    return `  ${name}: ${
+      text.length > MAX_SUMMARY_VALUE_LENGTH
+        ? `${text.slice(0, MAX_SUMMARY_VALUE_LENGTH)}…`
+        : text
+    }`;
+  });
+  return lines.length ? lines.join("\n") : "  (none)";
+}
+
+/**
+ * Advertises CONFIRM_ARGUMENT on a tool, so the model knows to set it once
+ * the user has agreed
+ */
+export const withConfirmArgument = (tool: Tool): Tool => ({
+  ...tool,
+  inputSchema: {
+    ...tool.inputSchema,
+    properties: {
+      ...tool.inputSchema.properties,
+      [CONFIRM_ARGUMENT]: {
+        description:
+          "Destructive action: set to true only after the user has agreed to it",
+        type: "boolean",
+      },
+    },
+  },
+});
+
+// A tool error rather than a protocol error, so the model sees why the
+// call did not run
+const refused = (text: string): Confirmation => ({
+  confirmed: false,
+  result: { content: [{ text, type: "text" }], isError: true },
+});
+
+const withoutConfirmArgument = (params: CallToolParams): CallToolParams => {
+  const { [CONFIRM_ARGUMENT]: _confirm, ...args } = params.arguments ?? {};
+  return { ...params, arguments: args };
+};
+
+/**
+ * Asks the user, through elicitation, whether a destructive tool call may
+ * run. Clients without form elicitation get `fallback` instead.
+ */
+export async function confirmToolCall({
+  fallback,
+  options,
+  params,
+  server,
+}: {
+  fallback: ConfirmFallback;
+  // For the elicitation request sent downstream
+  options: RequestOptions;
+  params: CallToolParams;
+  server: Server;
+}): Promise<Confirmation> {
+  const { name } = params;
+
+  if (!server.getClientCapabilities()?.elicitation?.form) {
+    switch (fallback) {
+      case "allow":
+        return { confirmed: true, params };
+      case "argument":
+        return params.arguments?.[CONFIRM_ARGUMENT] === true
+          ? { confirmed: true, params: withoutConfirmArgument(params) }
+          : refused(
+              `${name} is destructive and was not run. Ask the user to confirm, then call it again with "${CONFIRM_ARGUMENT}": true.`
+            );
+      case "block":
+        return refused(
+          `${name} is destructive and was not run: this client cannot ask the user to confirm it.`
+        );
+    }
+  }
+
+  const answer = await server.elicitInput(
+    {
+      message: `${name} is marked as destructive. Run it with these arguments?\n${summarizeArguments(params.arguments)}`,
+      requestedSchema: {
+        properties: {
+          [CONFIRM_ARGUMENT]: {
+            description: "Check to let the tool run",
+            title: `Run ${name}`,
+            type: "boolean",
+          },
+        },
+        required: [CONFIRM_ARGUMENT],
+        type: "object",
+      },
+    },
+    options
+  );
+  if (answer.action === "accept" && answer.content?.[CONFIRM_ARGUMENT]) {
+    return { confirmed: true, params };
+  }
+  return refused(
+    answer.action === "cancel"
+      ? `The user dismissed the confirmation for ${name}; it was not run.`
+      : `The user declined to run ${name}; it was not run.`
+  );
+}
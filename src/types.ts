@@ -1,6 +1,84 @@
+import type { TIMEOUT_METHODS } from "./constants.js";
+import type { UnannotatedToolPolicy } from "./filters.js";
+import type { LogFormat, LogLevel } from "./logger.js";
+import type { SchemaShimName } from "./schema-shims.js";
+import type { ConfirmFallback } from "./tool-confirmation.js";
+
+/**
+ * Milliseconds to wait for the upstream response, per method, with
+ * `default` covering the rest. Progress from upstream restarts the wait.
+ */
+export type RequestTimeouts = Partial<
+  Record<(typeof TIMEOUT_METHODS)[number] | "default", number>
+>;
+
+/**
+ * Glob patterns deciding what the proxy exposes. Without `allow`
+ * everything not denied is exposed.
+ */
+export interface FilterRules {
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface ProxyFilters {
+  prompts?: FilterRules;
+  // Matched against resource URIs and URI templates
+  resources?: FilterRules;
+  tools?: FilterRules;
+}
+
+/**
+ * How tool or prompt names are shown to the client: `rename` maps upstream
+ * names to new ones, and `prefix` goes in front of the rest
+ */
+export interface NameRules {
+  prefix?: string;
+  rename?: Record<string, string>;
+}
+
+export interface ProxyNames {
+  prompts?: NameRules;
+  tools?: NameRules;
+}
+
 export interface ProxyConfig {
+  // Whether the log level includes debug output
   debugMode: boolean;
   targetUrl: string;
+  // Ask the user before running tools annotated as destructive
+  confirmDestructive?: boolean;
+  // What clients that cannot ask the user get instead; block by default
+  confirmFallback?: ConfirmFallback;
+  // Tools, prompts and resources hidden from the client and refused
+  filters?: ProxyFilters;
+  // Answer initialize from cached capabilities and connect on first use
+  lazyConnect?: boolean;
+  // Also append log records here, rotating the file as it grows
+  logFile?: string;
+  // Human-readable lines (the default) or one JSON record per line
+  logFormat?: LogFormat;
+  // Verbosity of stderr diagnostics; info when not configured
+  logLevel?: LogLevel;
+  // Tool and prompt names shown to the client instead of upstream's
+  names?: ProxyNames;
+  // Named account whose stored FoundRole credentials are used
+  profile?: string;
+  // Hide and refuse tools the upstream server does not mark read-only
+  readOnly?: boolean;
+  // Append every JSON-RPC message to this JSONL session file
+  recordFile?: string;
+  // Message fields blanked in the session file, besides the defaults
+  redactFields?: string[];
+  // Serve this recorded session instead of connecting to targetUrl
+  replayFile?: string;
+  // Tool schema rewrites to apply, instead of those detected for the
+  // client; empty for none
+  schemaShims?: SchemaShimName[];
+  // Upstream deadlines; 60 seconds for methods not listed
+  timeouts?: RequestTimeouts;
+  // How read-only mode treats tools without annotations; block by default
+  unannotatedTools?: UnannotatedToolPolicy;
 }
 
 export interface ClientInfo {
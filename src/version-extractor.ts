@@ -1,12 +1,15 @@
 import { readFileSync } from "fs";
 import { dirname, join, resolve } from "path";
 
+import { createLogger } from "./logger.js";
 import type {
   ApplicationInfo,
   PlistInfo,
   VersionExtractionResult,
 } from "./types.js";
 
+const log = createLogger("VERSION-EXTRACTOR");
+
 /**
  * Cross-platform version extractor for applications
  */
@@ -20,9 +23,7 @@ export class VersionExtractor {
   ): Promise<VersionExtractionResult> {
     const platform = process.platform;
 
-    console.error(
-      `[VERSION-EXTRACTOR] Extracting version for: ${executablePath} on ${platform}`
-    );
+    log.trace(`Extracting version for: ${executablePath} on ${platform}`);
 
     try {
       switch (platform) {
@@ -39,7 +40,7 @@ export class VersionExtractor {
           };
       }
     } catch (error) {
-      console.error(`[VERSION-EXTRACTOR] Error: ${String(error)}`);
+      log.debug(`Error: ${String(error)}`);
       return {
         error: error instanceof Error ? error.message : String(error),
         source: "fallback",
@@ -206,7 +207,7 @@ export class VersionExtractor {
         plistObj.CFBundleVersionString;
 
       if (version) {
-        console.error(`[VERSION-EXTRACTOR] Found version in plist: ${version}`);
+        log.debug(`Found version in plist: ${version}`);
         return {
           source: "plist",
           version: String(version),
@@ -0,0 +1,35 @@
+import fs from "node:fs";
+
+export interface WriteFileAtomicOptions {
+  // Permissions for the file; an existing file otherwise keeps its own
+  mode?: number;
+}
+
+/**
+ * Writes a file in full or not at all: the text goes to a temporary file
+ * beside it that is then renamed over it, so a crash never leaves a
+ * half-written file. A symlink is written through to its target rather
+ * than replaced. The temporary file is removed if anything fails.
+ */
+export function writeFileAtomic(
+  file: string,
+  text: string,
+  options: WriteFileAtomicOptions = {}
+): void {
+  const exists = fs.existsSync(file);
+  const target = exists ? fs.realpathSync(file) : file;
+  const mode =
+    options.mode ?? (exists ? fs.statSync(target).mode & 0o7777 : undefined);
+  const tempPath = `${target}.${process.pid}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, text, mode === undefined ? {} : { mode });
+    // The umask may have narrowed the mode the file was created with
+    if (mode !== undefined) {
+      fs.chmodSync(tempPath, mode);
+    }
+    fs.renameSync(tempPath, target);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * capability-cache functionality tests
+ * Tests per-server persistence of upstream capabilities
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, test } from "@jest/globals";
+
+import { CapabilityCache } from "../src/capability-cache.js";
+
+const SERVER_URL = "https://www.foundrole.com/mcp";
+
+const ENTRY = {
+  capabilities: { resources: { subscribe: true }, tools: {} },
+  serverInfo: { name: "foundrole", version: "2.1.0" },
+};
+
+describe("capability-cache Tests", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "capability-cache-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { force: true, recursive: true });
+  });
+
+  const createCache = (serverUrl = SERVER_URL) =>
+    new CapabilityCache({ directory, serverUrl });
+
+  test("returns nothing before the first write", () => {
+    expect(createCache().read()).toBeUndefined();
+  });
+
+  test("round-trips the last reported capabilities", () => {
+    createCache().write(ENTRY);
+
+    expect(createCache().read()).toEqual({
+      ...ENTRY,
+      savedAt: expect.any(Number),
+    });
+  });
+
+  test("keeps entries for different servers apart", () => {
+    createCache().write(ENTRY);
+    createCache("http://localhost:3002/mcp").write({
+      capabilities: {},
+      serverInfo: { name: "local", version: "0.0.1" },
+    });
+
+    expect(createCache().read()?.serverInfo.name).toBe("foundrole");
+    expect(createCache("http://localhost:3002/mcp").read()?.serverInfo).toEqual(
+      { name: "local", version: "0.0.1" }
+    );
+  });
+
+  test("creates the state directory when missing", () => {
+    const cache = new CapabilityCache({
+      directory: path.join(directory, "nested"),
+      serverUrl: SERVER_URL,
+    });
+
+    cache.write(ENTRY);
+
+    expect(fs.existsSync(cache.filePath)).toBe(true);
+    expect(fs.readdirSync(path.dirname(cache.filePath))).toEqual([
+      "capabilities.json",
+    ]);
+  });
+
+  test("ignores an unreadable cache file", () => {
+    const cache = createCache();
+    fs.writeFileSync(cache.filePath, "{not json");
+
+    expect(cache.read()).toBeUndefined();
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("[CAPABILITY-CACHE] Ignoring unreadable cache")
+    );
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * client-configs functionality tests
+ * Tests config file locations, server entries and merging for MCP clients
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, test } from "@jest/globals";
+
+import {
+  clientConfigPath,
+  createServerEntry,
+  formatClientConfig,
+  readClientConfig,
+  withServerEntry,
+} from "../src/client-configs.js";
+import { DEFAULT_TARGET_URL } from "../src/config.js";
+
+const LINUX = { home: "/home/ada", platform: "linux" } as const;
+const MAC = { home: "/Users/ada", platform: "darwin" } as const;
+const WINDOWS = {
+  appData: "C:\\Users\\ada\\AppData\\Roaming",
+  home: "C:\\Users\\ada",
+  platform: "win32",
+} as const;
+
+describe("client-configs Tests", () => {
+  describe("clientConfigPath", () => {
+    test.each([
+      ["claude-desktop", "/home/ada/.config/Claude/claude_desktop_config.json"],
+      ["cursor", "/home/ada/.cursor/mcp.json"],
+      ["lm-studio", "/home/ada/.lmstudio/mcp.json"],
+      ["vscode", "/home/ada/.config/Code/User/mcp.json"],
+      ["windsurf", "/home/ada/.codeium/windsurf/mcp_config.json"],
+    ] as const)("finds the %s config on Linux", (client, expected) => {
+      expect(clientConfigPath(client, LINUX)).toBe(expected);
+    });
+
+    test("uses Application Support on macOS", () => {
+      expect(clientConfigPath("claude-desktop", MAC)).toBe(
+        "/Users/ada/Library/Application Support/Claude/claude_desktop_config.json"
+      );
+      expect(clientConfigPath("vscode", MAC)).toBe(
+        "/Users/ada/Library/Application Support/Code/User/mcp.json"
+      );
+    });
+
+    test("uses %APPDATA% and backslashes on Windows", () => {
+      expect(clientConfigPath("claude-desktop", WINDOWS)).toBe(
+        "C:\\Users\\ada\\AppData\\Roaming\\Claude\\claude_desktop_config.json"
+      );
+      expect(clientConfigPath("cursor", WINDOWS)).toBe(
+        "C:\\Users\\ada\\.cursor\\mcp.json"
+      );
+    });
+
+    test("falls back to the roaming profile without %APPDATA%", () => {
+      expect(
+        clientConfigPath("vscode", {
+          home: "C:\\Users\\ada",
+          platform: "win32",
+        })
+      ).toBe("C:\\Users\\ada\\AppData\\Roaming\\Code\\User\\mcp.json");
+    });
+
+    test("has no file for Perplexity", () => {
+      expect(clientConfigPath("perplexity", LINUX)).toBeUndefined();
+    });
+  });
+
+  describe("createServerEntry", () => {
+    test("runs the bridge through npx", () => {
+      expect(
+        createServerEntry("cursor", {
+          targetUrl: DEFAULT_TARGET_URL,
+          transport: "stdio",
+        })
+      ).toEqual({
+        args: [expect.stringMatching(/@latest$/)],
+        command: "npx",
+      });
+    });
+
+    test("passes the profile and a non-default URL in env", () => {
+      expect(
+        createServerEntry("claude-desktop", {
+          profile: "recruiter",
+          targetUrl: "http://localhost:3002/mcp",
+          transport: "stdio",
+        })
+      ).toMatchObject({
+        env: {
+          MCP_PROFILE: "recruiter",
+          MCP_TARGET_URL: "http://localhost:3002/mcp",
+        },
+      });
+    });
+
+    test("marks VS Code entries with their type", () => {
+      const options = { targetUrl: DEFAULT_TARGET_URL } as const;
+
+      expect(
+        createServerEntry("vscode", { ...options, transport: "stdio" })
+      ).toMatchObject({ command: "npx", type: "stdio" });
+      expect(
+        createServerEntry("vscode", { ...options, transport: "http" })
+      ).toEqual({ type: "http", url: DEFAULT_TARGET_URL });
+    });
+
+    test("uses each client's key for the HTTP URL", () => {
+      const options = {
+        targetUrl: DEFAULT_TARGET_URL,
+        transport: "http",
+      } as const;
+
+      expect(createServerEntry("cursor", options)).toEqual({
+        url: DEFAULT_TARGET_URL,
+      });
+      expect(createServerEntry("windsurf", options)).toEqual({
+        serverUrl: DEFAULT_TARGET_URL,
+      });
+    });
+
+    test("refuses HTTP for clients that only run stdio servers", () => {
+      expect(() =>
+        createServerEntry("claude-desktop", {
+          targetUrl: DEFAULT_TARGET_URL,
+          transport: "http",
+        })
+      ).toThrow("Claude Desktop cannot connect to an HTTP endpoint");
+    });
+  });
+
+  describe("withServerEntry", () => {
+    const entry = { args: ["bridge"], command: "npx" };
+
+    test("keeps other servers and settings", () => {
+      const config = {
+        mcpServers: { github: { command: "gh-mcp" } },
+        theme: "dark",
+      };
+
+      expect(withServerEntry("cursor", config, entry)).toEqual({
+        mcpServers: { foundrole: entry, github: { command: "gh-mcp" } },
+        theme: "dark",
+      });
+      expect(config.mcpServers).not.toHaveProperty("foundrole");
+    });
+
+    test("adds the server list under the client's key", () => {
+      expect(withServerEntry("vscode", {}, entry)).toEqual({
+        servers: { foundrole: entry },
+      });
+    });
+
+    test("refuses a server list that is not an object", () => {
+      expect(() =>
+        withServerEntry("cursor", { mcpServers: [] }, entry)
+      ).toThrow('"mcpServers" in the Cursor config is not an object');
+    });
+  });
+
+  describe("readClientConfig", () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "client-configs-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { force: true, recursive: true });
+    });
+
+    test("returns nothing for a missing file", () => {
+      expect(
+        readClientConfig(path.join(directory, "mcp.json"))
+      ).toBeUndefined();
+    });
+
+    test("refuses a file that is not a JSON object", () => {
+      const file = path.join(directory, "mcp.json");
+      fs.writeFileSync(file, "// comment\n{}");
+
+      expect(() => readClientConfig(file)).toThrow(`Could not read ${file}`);
+
+      fs.writeFileSync(file, "[]");
+
+      expect(() => readClientConfig(file)).toThrow(
+        `${file} does not hold a JSON object`
+      );
+    });
+  });
+
+  describe("formatClientConfig", () => {
+    test("keeps the original indentation", () => {
+      expect(formatClientConfig({ a: 1 }, '{\n    "b": 2\n}\n')).toBe(
+        '{\n    "a": 1\n}\n'
+      );
+      expect(formatClientConfig({ a: 1 })).toBe('{\n  "a": 1\n}\n');
+    });
+  });
+});
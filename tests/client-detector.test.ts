@@ -34,7 +34,12 @@ jest.mock("../src/constants.js", () => ({
   PROXY_VERSION: "1.0.0",
 }));
 
-import { extractClientInfoFromParent } from "../src/client-detector.js";
+import {
+  detectClientChain,
+  extractClientInfoFromParent,
+  resolveClientInfo,
+} from "../src/client-detector.js";
+import { DEFAULT_LOG_LEVEL, setLogLevel } from "../src/logger.js";
 
 const originalPlatform = process.platform;
 const originalPpid = process.ppid;
@@ -43,6 +48,8 @@ describe("client-detector Tests", () => {
   beforeEach(() => {
     jest.clearAllMocks();
     console.error = jest.fn();
+    // Most assertions follow the detection steps logged at trace level
+    setLogLevel("trace");
 
     // Set default mocks
     mockFindProcess.mockResolvedValue([]);
@@ -54,6 +61,7 @@ describe("client-detector Tests", () => {
 
   afterEach(() => {
     jest.resetAllMocks();
+    setLogLevel(DEFAULT_LOG_LEVEL);
     // Restore process properties
     Object.defineProperty(process, "platform", {
       configurable: true,
@@ -263,6 +271,113 @@ describe("client-detector Tests", () => {
     });
   });
 
+  describe("detectClientChain", () => {
+    test("returns the processes walked through to the client", async () => {
+      Object.defineProperty(process, "platform", {
+        configurable: true,
+        value: "linux",
+      });
+      Object.defineProperty(process, "ppid", {
+        configurable: true,
+        value: 300,
+      });
+      mockFindProcess.mockImplementation(async (_type, pid) =>
+        pid === 300
+          ? [{ cmd: "npm exec foo", name: "npm", pid: 300, ppid: 200 }]
+          : [{ cmd: "/usr/bin/zed", name: "zed", pid: 200, ppid: 1 }]
+      );
+
+      const { client, processes } = await detectClientChain();
+
+      expect(client).toEqual({ name: "Linux//zed", version: "1.2.3" });
+      expect(processes).toEqual([
+        {
+          cmd: "npm exec foo",
+          intermediary: true,
+          name: "npm",
+          pid: 300,
+          ppid: 200,
+        },
+        {
+          cmd: "/usr/bin/zed",
+          intermediary: false,
+          name: "zed",
+          pid: 200,
+          ppid: 1,
+        },
+      ]);
+    });
+  });
+
+  describe("resolveClientInfo", () => {
+    const noParent = () =>
+      Object.defineProperty(process, "ppid", {
+        configurable: true,
+        value: undefined,
+      });
+
+    test("uses the clientInfo reported at initialize", async () => {
+      const result = await resolveClientInfo({
+        name: "cursor-vscode",
+        title: "Cursor",
+        version: "1.0.0",
+      });
+
+      expect(result).toEqual({
+        name: "cursor-vscode",
+        title: "Cursor",
+        version: "1.0.0",
+      });
+      expect(mockFindProcess).not.toHaveBeenCalled();
+    });
+
+    test("fills in a missing version", async () => {
+      const result = await resolveClientInfo({
+        name: " claude-ai ",
+        version: "",
+      });
+
+      expect(result).toEqual({ name: "claude-ai", version: "unknown" });
+    });
+
+    test("falls back to process detection without clientInfo", async () => {
+      noParent();
+
+      const result = await resolveClientInfo(undefined);
+
+      expect(result).toEqual({ name: "test-proxy", version: "1.0.0" });
+      expect(console.error).toHaveBeenCalledWith(
+        "[CLIENT-DETECTOR] Client sent no clientInfo, detecting from parent process"
+      );
+    });
+
+    test("only reports detection details at debug level", async () => {
+      setLogLevel(DEFAULT_LOG_LEVEL);
+      noParent();
+
+      await resolveClientInfo(undefined);
+
+      expect(console.error).not.toHaveBeenCalledWith(
+        "[CLIENT-DETECTOR] Client sent no clientInfo, detecting from parent process"
+      );
+      // Falling back to the proxy identity is still worth a warning
+      expect(console.error).toHaveBeenCalledWith(
+        "[CLIENT-DETECTOR] No parent PID available"
+      );
+    });
+
+    test.each(["mcp-client", "Electron", "unknown", ""])(
+      'falls back to process detection for the generic name "%s"',
+      async (name) => {
+        noParent();
+
+        const result = await resolveClientInfo({ name, version: "1.0.0" });
+
+        expect(result).toEqual({ name: "test-proxy", version: "1.0.0" });
+      }
+    );
+  });
+
   describe("macOS App Bundle Detection", () => {
     beforeEach(() => {
       Object.defineProperty(process, "platform", {
@@ -0,0 +1,165 @@
+/**
+ * auth command tests
+ * Tests login, logout and whoami against a local stand-in authorization server
+ */
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  jest,
+  test,
+} from "@jest/globals";
+
+// The SDK auth module needs the real protocol schemas
+jest.unmock("@modelcontextprotocol/sdk/types.js");
+
+import { login, logout, whoami } from "../../src/commands/auth.js";
+import { TokenStore } from "../../src/token-store.js";
+import type { ProxyConfig } from "../../src/types.js";
+import type { StandInAuthServer } from "../utils/oauth-server.js";
+import { getFreePort, startStandInAuthServer } from "../utils/oauth-server.js";
+
+const browser = async (url: URL) => {
+  await fetch(url);
+};
+
+const jwt = (claims: Record<string, unknown>) =>
+  [
+    Buffer.from('{"alg":"none"}').toString("base64url"),
+    Buffer.from(JSON.stringify(claims)).toString("base64url"),
+    "signature",
+  ].join(".");
+
+describe("auth command Tests", () => {
+  let authServer: StandInAuthServer;
+  let callbackPort: number;
+  let config: ProxyConfig;
+
+  const output = () =>
+    (console.log as jest.Mock).mock.calls.map((call) => call[0]).join("\n");
+
+  beforeEach(async () => {
+    authServer = await startStandInAuthServer();
+    callbackPort = await getFreePort();
+    config = { debugMode: false, targetUrl: authServer.mcpUrl };
+  });
+
+  afterEach(async () => {
+    await authServer.close();
+  });
+
+  describe("login", () => {
+    test("signs in through the browser and stores the credentials", async () => {
+      const openBrowser = jest.fn(browser);
+
+      const exitCode = await login(config, { callbackPort, openBrowser });
+
+      expect(exitCode).toBe(0);
+      expect(openBrowser).toHaveBeenCalledTimes(1);
+      expect(
+        new TokenStore({ serverUrl: authServer.mcpUrl }).read().tokens
+      ).toMatchObject({ access_token: "access-1" });
+      expect(output()).toContain("Signed in.");
+      expect(output()).toMatch(/Access token expires: .* \(in 60 min\)/);
+    });
+
+    test("stores credentials under the selected profile", async () => {
+      await login(
+        { ...config, profile: "recruiter" },
+        { callbackPort, openBrowser: browser }
+      );
+
+      expect(
+        new TokenStore({
+          profile: "recruiter",
+          serverUrl: authServer.mcpUrl,
+        }).read().tokens
+      ).toBeDefined();
+      expect(
+        new TokenStore({ serverUrl: authServer.mcpUrl }).read().tokens
+      ).toBeUndefined();
+    });
+  });
+
+  describe("logout", () => {
+    test("revokes the tokens and deletes the stored credentials", async () => {
+      await login(config, { callbackPort, openBrowser: browser });
+
+      const exitCode = await logout(config);
+
+      expect(exitCode).toBe(0);
+      expect(authServer.revokedTokens).toEqual(["refresh-1", "access-1"]);
+      expect(new TokenStore({ serverUrl: authServer.mcpUrl }).read()).toEqual(
+        {}
+      );
+      expect(output()).toContain(
+        "Signed out and removed stored credentials (profile: default)."
+      );
+    });
+
+    test("reports when there is nothing to sign out of", async () => {
+      const exitCode = await logout(config);
+
+      expect(exitCode).toBe(0);
+      expect(output()).toContain("Not signed in (profile: default).");
+    });
+
+    test("still deletes credentials when revocation fails", async () => {
+      await login(config, { callbackPort, openBrowser: browser });
+      await authServer.close();
+
+      await logout(config);
+
+      expect(new TokenStore({ serverUrl: authServer.mcpUrl }).read()).toEqual(
+        {}
+      );
+      expect(output()).toContain(
+        "but the server could not confirm token revocation"
+      );
+    });
+  });
+
+  describe("whoami", () => {
+    test("reports when the profile is not signed in", () => {
+      const exitCode = whoami(config);
+
+      expect(exitCode).toBe(1);
+      expect(output()).toContain("Not signed in.");
+    });
+
+    test("prints the account from the token claims and the expiry", () => {
+      new TokenStore({ serverUrl: authServer.mcpUrl }).update({
+        expiresAt: Date.now() + 30 * 60 * 1000,
+        tokens: {
+          access_token: jwt({ email: "sam@example.com", sub: "user-1" }),
+          refresh_token: "r",
+          token_type: "Bearer",
+        },
+      });
+      new TokenStore({ profile: "recruiter", serverUrl: "x" }).update({});
+
+      const exitCode = whoami(config);
+
+      expect(exitCode).toBe(0);
+      expect(output()).toContain("Account: sam@example.com");
+      expect(output()).toMatch(/Access token expires: .* \(in 30 min\)/);
+      expect(output()).toContain("Refresh token: stored");
+      expect(output()).toContain("Other profiles: recruiter");
+    });
+
+    test("falls back to unknown for opaque tokens", () => {
+      new TokenStore({ serverUrl: authServer.mcpUrl }).update({
+        expiresAt: Date.now() - 1000,
+        tokens: { access_token: "opaque", token_type: "Bearer" },
+      });
+
+      whoami(config);
+
+      expect(output()).toContain("Account: unknown");
+      expect(output()).toContain("(expired)");
+      expect(output()).toContain("Refresh token: not available");
+    });
+  });
+});
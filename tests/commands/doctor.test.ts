@@ -0,0 +1,238 @@
+/**
+ * doctor command tests
+ * Tests the diagnostic checks against a local stand-in server
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  jest,
+  test,
+} from "@jest/globals";
+
+const mockClient = {
+  close: jest.fn<() => Promise<void>>(),
+  connect: jest.fn<(transport: unknown, options: unknown) => Promise<void>>(),
+  getServerCapabilities: jest.fn<() => Record<string, unknown>>(),
+  getServerVersion: jest.fn<() => { name: string; version: string }>(),
+};
+const MockClient = jest.fn(() => mockClient);
+jest.mock("@modelcontextprotocol/sdk/client/index.js", () => ({
+  Client: MockClient,
+}));
+
+const MockTransport = jest.fn();
+jest.mock("@modelcontextprotocol/sdk/client/streamableHttp.js", () => ({
+  StreamableHTTPClientTransport: MockTransport,
+}));
+
+const mockDetectClientChain = jest.fn<() => Promise<unknown>>();
+jest.mock("../../src/client-detector.js", () => ({
+  detectClientChain: mockDetectClientChain,
+}));
+
+import type { DoctorReport } from "../../src/commands/doctor.js";
+import { doctor, formatReport, runDoctor } from "../../src/commands/doctor.js";
+import { PROXY_NAME } from "../../src/constants.js";
+import { TokenStore } from "../../src/token-store.js";
+import type { ProxyConfig } from "../../src/types.js";
+
+describe("doctor command Tests", () => {
+  let config: ProxyConfig;
+  let server: http.Server;
+  let status: number;
+
+  const check = (report: DoctorReport, name: string) =>
+    report.checks.find((result) => result.name === name);
+
+  beforeEach(async () => {
+    status = 405;
+    server = http.createServer((_req, res) => {
+      res.writeHead(status).end();
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(0, "127.0.0.1", resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+    config = { debugMode: false, targetUrl: `http://127.0.0.1:${port}/mcp` };
+
+    MockClient.mockImplementation(() => mockClient);
+    mockClient.close.mockResolvedValue(undefined);
+    mockClient.connect.mockResolvedValue(undefined);
+    mockClient.getServerCapabilities.mockReturnValue({
+      resources: { subscribe: true },
+      tools: {},
+    });
+    mockClient.getServerVersion.mockReturnValue({
+      name: "foundrole",
+      version: "2.1.0",
+    });
+    mockDetectClientChain.mockResolvedValue({
+      client: { name: "Linux//cursor", version: "1.2.0" },
+      processes: [
+        { cmd: "npm exec", intermediary: true, name: "npm", pid: 41, ppid: 40 },
+        { cmd: "/opt/cursor", intermediary: false, name: "cursor", pid: 40 },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      server.close(() => {
+        resolve();
+      });
+    });
+  });
+
+  test("passes every check against a reachable server", async () => {
+    // Not every machine running the tests has the required Node.js
+    const report = await runDoctor(config, { nodeVersion: "24.12.0" });
+
+    expect(report.checks.map(({ name, status }) => [name, status])).toEqual([
+      ["Node.js", "pass"],
+      ["Package", "pass"],
+      ["Client detection", "pass"],
+      ["DNS", "pass"],
+      ["TLS", "skip"],
+      ["HTTP", "pass"],
+      ["MCP initialize", "pass"],
+      ["Sign-in", "warn"],
+    ]);
+    expect(report.proxy.name).toBe(PROXY_NAME);
+    expect(MockTransport).toHaveBeenCalledWith(new URL(config.targetUrl));
+  });
+
+  test("fails on a Node.js older than package.json requires", async () => {
+    const report = await runDoctor(config, { nodeVersion: "22.3.0" });
+
+    expect(check(report, "Node.js")).toEqual({
+      name: "Node.js",
+      status: "fail",
+      summary: expect.stringMatching(/^22\.3\.0 \(requires >=/),
+    });
+  });
+
+  test("prints the detected process chain", async () => {
+    const report = await runDoctor(config);
+
+    expect(check(report, "Client detection")).toEqual({
+      details: [
+        "passed over: npm (pid 41) npm exec",
+        "identified: cursor (pid 40) /opt/cursor",
+      ],
+      name: "Client detection",
+      status: "pass",
+      summary: "Linux//cursor@1.2.0",
+    });
+  });
+
+  test("warns when no client is identified", async () => {
+    mockDetectClientChain.mockResolvedValue({
+      client: { name: PROXY_NAME, version: "1.0.0" },
+      processes: [],
+    });
+
+    const report = await runDoctor(config);
+
+    expect(check(report, "Client detection")?.status).toBe("warn");
+  });
+
+  test("lists the server's capabilities", async () => {
+    const report = await runDoctor(config);
+
+    expect(check(report, "MCP initialize")).toMatchObject({
+      details: ["resources (subscribe)", "tools"],
+      summary: "foundrole 2.1.0",
+    });
+    expect(mockClient.close).toHaveBeenCalled();
+  });
+
+  test("fails when initialize fails", async () => {
+    mockClient.connect.mockRejectedValue(new Error("Unexpected content type"));
+
+    const exitCode = await doctor(config);
+
+    expect(exitCode).toBe(1);
+    expect(console.log).toHaveBeenCalledWith(
+      expect.stringContaining("[FAIL] MCP initialize: Unexpected content type")
+    );
+  });
+
+  test("fails on a server error and skips initialize", async () => {
+    status = 502;
+
+    const report = await runDoctor(config);
+
+    expect(check(report, "HTTP")).toMatchObject({ status: "fail" });
+    expect(check(report, "MCP initialize")?.status).toBe("skip");
+    expect(MockClient).not.toHaveBeenCalled();
+  });
+
+  test("skips the connection checks when the host does not resolve", async () => {
+    const report = await runDoctor(
+      { ...config, targetUrl: "https://doctor-test.invalid/mcp" },
+      { timeoutMs: 2000 }
+    );
+
+    expect(check(report, "DNS")?.status).toBe("fail");
+    expect(
+      ["TLS", "HTTP", "MCP initialize"].map(
+        (name) => check(report, name)?.status
+      )
+    ).toEqual(["skip", "skip", "skip"]);
+  });
+
+  test("reports the stored sign-in", async () => {
+    new TokenStore({ serverUrl: config.targetUrl }).update({
+      expiresAt: Date.now() + 30 * 60_000,
+      tokens: {
+        access_token: "opaque",
+        refresh_token: "refresh",
+        token_type: "Bearer",
+      },
+    });
+
+    const report = await runDoctor(config);
+
+    expect(check(report, "Sign-in")).toMatchObject({
+      details: [
+        expect.stringContaining("Access token expires:"),
+        "Refresh token: stored",
+      ],
+      status: "pass",
+      summary: "unknown account (profile: default)",
+    });
+  });
+
+  test("prints the report as JSON", async () => {
+    await doctor(config, { json: true });
+
+    const output = (console.log as jest.Mock).mock.calls[0]?.[0] as string;
+    expect(JSON.parse(output)).toMatchObject({
+      targetUrl: config.targetUrl,
+    });
+  });
+
+  test("formats a text report with a summary", () => {
+    const text = formatReport({
+      checks: [
+        { details: ["more"], name: "DNS", status: "pass", summary: "ok" },
+        { name: "HTTP", status: "fail", summary: "refused" },
+      ],
+      generatedAt: "2026-01-01T00:00:00.000Z",
+      node: "24.12.0",
+      platform: "linux x64",
+      proxy: { name: PROXY_NAME, version: "1.0.0" },
+      targetUrl: "https://www.foundrole.com/mcp",
+    });
+
+    expect(text).toContain("[PASS] DNS: ok\n       more");
+    expect(text).toContain("[FAIL] HTTP: refused");
+    expect(text.endsWith("1 pass, 1 fail")).toBe(true);
+  });
+});
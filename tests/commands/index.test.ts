@@ -0,0 +1,380 @@
+/**
+ * CLI command dispatch tests
+ * Tests subcommand routing and the fallback to the stdio bridge
+ */
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  jest,
+  test,
+} from "@jest/globals";
+
+const mockMain = jest.fn<(config?: unknown) => Promise<void>>();
+jest.mock("../../src/index.js", () => ({
+  main: mockMain,
+}));
+
+const mockLogin = jest.fn<(config: unknown) => Promise<number>>();
+const mockLogout = jest.fn<(config: unknown) => Promise<number>>();
+const mockWhoami = jest.fn<(config: unknown) => number>();
+jest.mock("../../src/commands/auth.js", () => ({
+  login: mockLogin,
+  logout: mockLogout,
+  whoami: mockWhoami,
+}));
+
+const mockDoctor = jest.fn<(config: unknown, options: unknown) => number>();
+jest.mock("../../src/commands/doctor.js", () => ({
+  doctor: mockDoctor,
+}));
+
+const mockInspect =
+  jest.fn<
+    (config: unknown, kind: string, args: string[], options: unknown) => number
+  >();
+jest.mock("../../src/commands/inspect.js", () => ({
+  inspect: mockInspect,
+}));
+
+const mockInstall = jest.fn<(config: unknown, options: unknown) => number>();
+const mockStatus = jest.fn<(config: unknown, options: unknown) => number>();
+const mockUninstall = jest.fn<(config: unknown, options: unknown) => number>();
+jest.mock("../../src/commands/install.js", () => ({
+  install: mockInstall,
+  status: mockStatus,
+  uninstall: mockUninstall,
+}));
+
+const mockRepl = jest.fn<(config: unknown) => Promise<number>>();
+jest.mock("../../src/commands/repl.js", () => ({
+  repl: mockRepl,
+}));
+
+import { runCli, USAGE } from "../../src/commands/index.js";
+
+describe("CLI command dispatch Tests", () => {
+  beforeEach(() => {
+    mockMain.mockResolvedValue(undefined);
+    mockLogin.mockResolvedValue(0);
+    mockLogout.mockResolvedValue(0);
+    mockWhoami.mockReturnValue(0);
+    mockDoctor.mockReturnValue(0);
+    mockInspect.mockReturnValue(0);
+    mockRepl.mockResolvedValue(0);
+    mockInstall.mockReturnValue(0);
+    mockStatus.mockReturnValue(0);
+    mockUninstall.mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    process.exitCode = undefined;
+  });
+
+  test("runs the stdio bridge when no command is given", async () => {
+    await runCli([]);
+
+    expect(mockMain).toHaveBeenCalledTimes(1);
+    expect(mockLogin).not.toHaveBeenCalled();
+  });
+
+  test("runs the stdio bridge for unrecognized arguments", async () => {
+    await runCli(["--stdio"]);
+
+    expect(mockMain).toHaveBeenCalledTimes(1);
+  });
+
+  test("does not take object properties for commands", async () => {
+    await runCli(["toString"]);
+
+    expect(mockMain).toHaveBeenCalledTimes(1);
+  });
+
+  test("passes settings flags to the stdio bridge", async () => {
+    await runCli([
+      "--stdio",
+      "--url",
+      "http://localhost:3002/mcp",
+      "--lazy-connect",
+    ]);
+
+    expect(mockMain).toHaveBeenCalledWith(
+      expect.objectContaining({
+        lazyConnect: true,
+        targetUrl: "http://localhost:3002/mcp",
+      })
+    );
+  });
+
+  test("collects repeated --timeout flags", async () => {
+    await runCli(["--timeout", "tools/call=120000", "--timeout", "30000"]);
+
+    expect(mockMain).toHaveBeenCalledWith(
+      expect.objectContaining({
+        timeouts: { default: 30_000, "tools/call": 120_000 },
+      })
+    );
+  });
+
+  test("passes recording flags to the stdio bridge", async () => {
+    await runCli([
+      "--record",
+      "/tmp/session.jsonl",
+      "--redact",
+      "email",
+      "--redact",
+      "phone",
+    ]);
+
+    expect(mockMain).toHaveBeenCalledWith(
+      expect.objectContaining({
+        recordFile: "/tmp/session.jsonl",
+        redactFields: ["email", "phone"],
+      })
+    );
+  });
+
+  test("collects allow and deny flags into filters", async () => {
+    await runCli([
+      "--allow-tool",
+      "search_*",
+      "--deny-tool",
+      "search_admin",
+      "--deny-resource",
+      "secrets://*",
+    ]);
+
+    expect(mockMain).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filters: {
+          resources: { deny: ["secrets://*"] },
+          tools: { allow: ["search_*"], deny: ["search_admin"] },
+        },
+      })
+    );
+  });
+
+  test("passes read-only mode to the stdio bridge", async () => {
+    await runCli(["--read-only", "--unannotated-tools", "allow"]);
+
+    expect(mockMain).toHaveBeenCalledWith(
+      expect.objectContaining({ readOnly: true, unannotatedTools: "allow" })
+    );
+  });
+
+  test("passes destructive tool confirmation to the stdio bridge", async () => {
+    await runCli(["--confirm-destructive", "--confirm-fallback", "argument"]);
+
+    expect(mockMain).toHaveBeenCalledWith(
+      expect.objectContaining({
+        confirmDestructive: true,
+        confirmFallback: "argument",
+      })
+    );
+  });
+
+  test("collects prefix and rename flags into name rules", async () => {
+    await runCli([
+      "--tool-prefix",
+      "foundrole_",
+      "--rename-tool",
+      "search=find_jobs",
+      "--rename-prompt",
+      "summary=job_summary",
+    ]);
+
+    expect(mockMain).toHaveBeenCalledWith(
+      expect.objectContaining({
+        names: {
+          prompts: { rename: { summary: "job_summary" } },
+          tools: { prefix: "foundrole_", rename: { search: "find_jobs" } },
+        },
+      })
+    );
+  });
+
+  test("collects repeated --schema-shim flags", async () => {
+    await runCli(["--schema-shim", "gemini", "--schema-shim", "cursor"]);
+
+    expect(mockMain).toHaveBeenCalledWith(
+      expect.objectContaining({ schemaShims: ["gemini", "cursor"] })
+    );
+  });
+
+  test("reports invalid settings instead of starting the bridge", async () => {
+    await runCli(["--url", "not a url"]);
+
+    expect(mockMain).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Error: Invalid configuration in command-line flags:\n  --url:"
+      )
+    );
+    expect(process.exitCode).toBe(1);
+  });
+
+  test("prints usage for --help", async () => {
+    await runCli(["--help"]);
+
+    expect(console.log).toHaveBeenCalledWith(USAGE);
+    expect(mockMain).not.toHaveBeenCalled();
+  });
+
+  test("prints usage for a command's --help", async () => {
+    await runCli(["login", "--help"]);
+
+    expect(console.log).toHaveBeenCalledWith(USAGE);
+    expect(mockLogin).not.toHaveBeenCalled();
+  });
+
+  test("dispatches login with the environment configuration", async () => {
+    process.env.MCP_TARGET_URL = "http://localhost:3002/mcp";
+
+    await runCli(["login"]);
+
+    expect(mockLogin).toHaveBeenCalledWith(
+      expect.objectContaining({ targetUrl: "http://localhost:3002/mcp" })
+    );
+    expect(mockMain).not.toHaveBeenCalled();
+  });
+
+  test("lets --profile override MCP_PROFILE", async () => {
+    process.env.MCP_PROFILE = "candidate";
+
+    await runCli(["logout", "--profile", "recruiter"]);
+
+    expect(mockLogout).toHaveBeenCalledWith(
+      expect.objectContaining({ profile: "recruiter" })
+    );
+  });
+
+  test("lets --url select the server for a command", async () => {
+    await runCli(["whoami", "--url", "http://localhost:3002/mcp"]);
+
+    expect(mockWhoami).toHaveBeenCalledWith(
+      expect.objectContaining({ targetUrl: "http://localhost:3002/mcp" })
+    );
+  });
+
+  test("sets the exit code returned by the command", async () => {
+    mockWhoami.mockReturnValue(1);
+
+    await runCli(["whoami"]);
+
+    expect(process.exitCode).toBe(1);
+  });
+
+  test("reports command failures without throwing", async () => {
+    mockLogin.mockRejectedValue(new Error("Authorization failed"));
+
+    await runCli(["login"]);
+
+    expect(console.error).toHaveBeenCalledWith("Error: Authorization failed");
+    expect(process.exitCode).toBe(1);
+  });
+
+  test("passes install flags to the install command", async () => {
+    await runCli([
+      "install",
+      "--client",
+      "cursor",
+      "--transport",
+      "http",
+      "--dry-run",
+      "--profile",
+      "recruiter",
+    ]);
+
+    expect(mockInstall).toHaveBeenCalledWith(
+      expect.objectContaining({ profile: "recruiter" }),
+      { client: "cursor", dryRun: true, transport: "http" }
+    );
+  });
+
+  test("passes uninstall and status flags to their commands", async () => {
+    await runCli(["uninstall", "--client", "vscode", "--dry-run"]);
+    await runCli(["status", "--json"]);
+
+    expect(mockUninstall).toHaveBeenCalledWith(expect.anything(), {
+      client: "vscode",
+      dryRun: true,
+    });
+    expect(mockStatus).toHaveBeenCalledWith(expect.anything(), {
+      json: true,
+    });
+  });
+
+  test("runs doctor against the configured server", async () => {
+    await runCli(["doctor", "--json", "--url", "http://localhost:3002/mcp"]);
+
+    expect(mockDoctor).toHaveBeenCalledWith(
+      expect.objectContaining({ targetUrl: "http://localhost:3002/mcp" }),
+      { json: true }
+    );
+  });
+
+  test("passes arguments and flags to the inspection commands", async () => {
+    await runCli(["tools", "call", "search_jobs", "--args", '{"q":"rust"}']);
+    await runCli(["resources", "read", "foundrole://saved", "--json"]);
+
+    expect(mockInspect).toHaveBeenCalledWith(
+      expect.anything(),
+      "tools",
+      ["call", "search_jobs"],
+      { args: '{"q":"rust"}' }
+    );
+    expect(mockInspect).toHaveBeenCalledWith(
+      expect.anything(),
+      "resources",
+      ["read", "foundrole://saved"],
+      { json: true }
+    );
+  });
+
+  test("treats call as tools call", async () => {
+    await runCli(["call", "search_jobs"]);
+
+    expect(mockInspect).toHaveBeenCalledWith(
+      expect.anything(),
+      "tools",
+      ["call", "search_jobs"],
+      {}
+    );
+  });
+
+  test("starts the shell for repl", async () => {
+    await runCli(["repl", "--profile", "work"]);
+
+    expect(mockRepl).toHaveBeenCalledWith(
+      expect.objectContaining({ profile: "work" })
+    );
+  });
+
+  test("rejects arguments for commands that take none", async () => {
+    await runCli(["whoami", "extra"]);
+
+    expect(mockWhoami).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+  });
+
+  test("accepts install flags only for install", async () => {
+    await runCli(["whoami", "--client", "cursor"]);
+
+    expect(mockWhoami).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("Unknown option '--client'")
+    );
+  });
+
+  test("rejects unknown options", async () => {
+    await runCli(["whoami", "--bogus"]);
+
+    expect(mockWhoami).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("Unknown option '--bogus'")
+    );
+    expect(process.exitCode).toBe(1);
+  });
+});
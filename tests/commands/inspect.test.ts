@@ -0,0 +1,250 @@
+/**
+ * Inspection command tests
+ * Tests tools, prompts and resources output against a stand-in client
+ */
+
+import { beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+const mockClient = {
+  callTool: jest.fn<(...args: unknown[]) => Promise<unknown>>(),
+  close: jest.fn<() => Promise<void>>(),
+  getPrompt: jest.fn<(...args: unknown[]) => Promise<unknown>>(),
+  listPrompts: jest.fn<() => Promise<unknown>>(),
+  listResources: jest.fn<() => Promise<unknown>>(),
+  listResourceTemplates: jest.fn<() => Promise<unknown>>(),
+  listTools: jest.fn<(...args: unknown[]) => Promise<unknown>>(),
+  readResource: jest.fn<(...args: unknown[]) => Promise<unknown>>(),
+};
+const mockCreateHttpClient = jest.fn<(options: unknown) => Promise<unknown>>();
+jest.mock("../../src/stdio-server.js", () => ({
+  createHttpClient: mockCreateHttpClient,
+}));
+
+import { inspect } from "../../src/commands/inspect.js";
+import type { ProxyConfig } from "../../src/types.js";
+
+const SEARCH_TOOL = {
+  description: "Search job listings",
+  inputSchema: {
+    properties: {
+      location: { type: "string" },
+      query: { description: "Keywords", type: "string" },
+    },
+    required: ["query"],
+    type: "object",
+  },
+  name: "search_jobs",
+};
+
+describe("Inspection command Tests", () => {
+  const config: ProxyConfig = {
+    debugMode: false,
+    targetUrl: "https://www.foundrole.com/mcp",
+    timeouts: { "tools/call": 90_000 },
+  };
+
+  const printed = () =>
+    (console.log as jest.Mock).mock.calls.map(([line]) => line).join("\n");
+
+  beforeEach(() => {
+    mockCreateHttpClient.mockResolvedValue(mockClient);
+    mockClient.close.mockResolvedValue(undefined);
+    mockClient.listTools.mockResolvedValue({ tools: [SEARCH_TOOL] });
+    mockClient.callTool.mockResolvedValue({
+      content: [
+        { text: "3 jobs found", type: "text" },
+        { data: "AAAA", mimeType: "image/png", type: "image" },
+      ],
+    });
+  });
+
+  test("lists tools with their arguments", async () => {
+    const exitCode = await inspect(config, "tools", ["list"]);
+
+    expect(exitCode).toBe(0);
+    expect(printed()).toContain(
+      [
+        "search_jobs",
+        "  Search job listings",
+        "  Arguments:",
+        "    location (string)",
+        "    query (string, required): Keywords",
+      ].join("\n")
+    );
+    expect(mockCreateHttpClient).toHaveBeenCalledWith(
+      expect.objectContaining({ url: config.targetUrl })
+    );
+    expect(mockClient.close).toHaveBeenCalled();
+  });
+
+  test("follows list cursors", async () => {
+    mockClient.listTools
+      .mockResolvedValueOnce({ nextCursor: "2", tools: [SEARCH_TOOL] })
+      .mockResolvedValueOnce({ tools: [{ ...SEARCH_TOOL, name: "apply" }] });
+
+    await inspect(config, "tools", ["list"], { json: true });
+
+    expect(mockClient.listTools).toHaveBeenLastCalledWith(
+      { cursor: "2" },
+      expect.anything()
+    );
+    const tools = JSON.parse(printed()) as { name: string }[];
+    expect(tools.map(({ name }) => name)).toEqual(["search_jobs", "apply"]);
+  });
+
+  test("calls a tool with the configured timeout", async () => {
+    const exitCode = await inspect(config, "tools", ["call", "search_jobs"], {
+      args: '{"query":"rust"}',
+    });
+
+    expect(exitCode).toBe(0);
+    expect(mockClient.callTool).toHaveBeenCalledWith(
+      { arguments: { query: "rust" }, name: "search_jobs" },
+      undefined,
+      { resetTimeoutOnProgress: true, timeout: 90_000 }
+    );
+    expect(printed()).toBe("3 jobs found\n[image: image/png, 3 bytes]");
+  });
+
+  test("exits with 1 when the tool reports an error", async () => {
+    mockClient.callTool.mockResolvedValue({
+      content: [{ text: "query is required", type: "text" }],
+      isError: true,
+    });
+
+    expect(await inspect(config, "tools", ["call", "search_jobs"])).toBe(1);
+  });
+
+  test("rejects arguments that are not a JSON object", async () => {
+    await expect(
+      inspect(config, "tools", ["call", "search_jobs"], { args: "[1]" })
+    ).rejects.toThrow("--args must be a JSON object");
+    expect(mockClient.close).toHaveBeenCalled();
+  });
+
+  test("rejects an unknown action before connecting", async () => {
+    await expect(inspect(config, "tools", ["run"])).rejects.toThrow(
+      'Unknown tools action "run"; use one of: call, list'
+    );
+    await expect(inspect(config, "prompts", ["toString"])).rejects.toThrow(
+      'Unknown prompts action "toString"; use one of: get, list'
+    );
+    await expect(inspect(config, "resources", [])).rejects.toThrow(
+      "No resources action given; use one of: list, read"
+    );
+    expect(mockCreateHttpClient).not.toHaveBeenCalled();
+  });
+
+  test("prints a prompt's messages", async () => {
+    mockClient.getPrompt.mockResolvedValue({
+      messages: [
+        { content: { text: "Review my CV", type: "text" }, role: "user" },
+      ],
+    });
+
+    await inspect(config, "prompts", ["get", "review_cv"], {
+      args: '{"tone":"brief"}',
+    });
+
+    expect(mockClient.getPrompt).toHaveBeenCalledWith(
+      { arguments: { tone: "brief" }, name: "review_cv" },
+      expect.anything()
+    );
+    expect(printed()).toBe("user:\n  Review my CV");
+  });
+
+  test("requires prompt arguments to be strings", async () => {
+    await expect(
+      inspect(config, "prompts", ["get", "review_cv"], { args: '{"n":1}' })
+    ).rejects.toThrow("Prompt arguments must be strings");
+  });
+
+  test("reads a resource", async () => {
+    mockClient.readResource.mockResolvedValue({
+      contents: [
+        { text: "Saved searches", uri: "foundrole://saved" },
+        { blob: "AAAA", mimeType: "application/pdf", uri: "foundrole://cv" },
+      ],
+    });
+
+    await inspect(config, "resources", ["read", "foundrole://saved"]);
+
+    expect(mockClient.readResource).toHaveBeenCalledWith(
+      { uri: "foundrole://saved" },
+      expect.anything()
+    );
+    expect(printed()).toBe(
+      "Saved searches\n[binary: application/pdf, 3 bytes]"
+    );
+  });
+
+  test("refuses what the bridge would refuse", async () => {
+    const guarded: ProxyConfig = {
+      ...config,
+      filters: {
+        prompts: { deny: ["review_*"] },
+        resources: { deny: ["foundrole://cv"] },
+      },
+      readOnly: true,
+    };
+
+    await expect(
+      inspect(guarded, "tools", ["call", "search_jobs"])
+    ).rejects.toThrow(
+      "Tool search_jobs is not marked read-only and is blocked in read-only mode"
+    );
+    await expect(
+      inspect(guarded, "prompts", ["get", "review_cv"])
+    ).rejects.toThrow("Prompt review_cv is blocked by the proxy configuration");
+    await expect(
+      inspect(guarded, "resources", ["read", "foundrole://cv"])
+    ).rejects.toThrow(
+      "Resource foundrole://cv is blocked by the proxy configuration"
+    );
+    expect(mockClient.callTool).not.toHaveBeenCalled();
+    expect(mockClient.getPrompt).not.toHaveBeenCalled();
+    expect(mockClient.readResource).not.toHaveBeenCalled();
+  });
+
+  test("asks for the confirm argument before a destructive call", async () => {
+    mockClient.listTools.mockResolvedValue({
+      tools: [{ ...SEARCH_TOOL, annotations: { destructiveHint: true } }],
+    });
+    const confirming: ProxyConfig = {
+      ...config,
+      confirmDestructive: true,
+      confirmFallback: "argument",
+    };
+
+    await expect(
+      inspect(confirming, "tools", ["call", "search_jobs"])
+    ).rejects.toThrow('pass "confirm": true');
+    await inspect(confirming, "tools", ["call", "search_jobs"], {
+      args: '{"confirm":true,"query":"nurse"}',
+    });
+
+    expect(mockClient.callTool).toHaveBeenCalledTimes(1);
+    expect(mockClient.callTool).toHaveBeenCalledWith(
+      { arguments: { query: "nurse" }, name: "search_jobs" },
+      undefined,
+      expect.anything()
+    );
+  });
+
+  test("lists resources and templates", async () => {
+    mockClient.listResources.mockResolvedValue({
+      resources: [{ name: "Saved", uri: "foundrole://saved" }],
+    });
+    mockClient.listResourceTemplates.mockResolvedValue({
+      resourceTemplates: [
+        { name: "Job", uriTemplate: "foundrole://jobs/{id}" },
+      ],
+    });
+
+    await inspect(config, "resources", ["list"]);
+
+    expect(printed()).toBe(
+      "foundrole://saved  Saved\nfoundrole://jobs/{id}  Job, template"
+    );
+  });
+});
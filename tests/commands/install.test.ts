@@ -0,0 +1,339 @@
+/**
+ * install command tests
+ * Tests adding FoundRole to client config files in a fixture home directory
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import type { jest } from "@jest/globals";
+import { afterEach, beforeEach, describe, expect, test } from "@jest/globals";
+
+import type { ClientEnvironment } from "../../src/client-configs.js";
+import type { ClientStatus } from "../../src/commands/install.js";
+import {
+  diffLines,
+  install,
+  status,
+  uninstall,
+} from "../../src/commands/install.js";
+import { DEFAULT_TARGET_URL } from "../../src/config.js";
+import type { ProxyConfig } from "../../src/types.js";
+
+// Client config files as a user might have them, copied in for each test
+const FIXTURE_HOME = path.resolve("tests/fixtures/client-home");
+
+describe("install command Tests", () => {
+  let config: ProxyConfig;
+  let environment: ClientEnvironment;
+  let home: string;
+
+  const output = () =>
+    (console.log as jest.Mock).mock.calls.map((call) => call[0]).join("\n");
+
+  const readJson = (...parts: string[]) =>
+    JSON.parse(fs.readFileSync(path.join(home, ...parts), "utf-8")) as Record<
+      string,
+      Record<string, unknown>
+    >;
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), "install-"));
+    fs.cpSync(FIXTURE_HOME, home, { recursive: true });
+    config = { debugMode: false, targetUrl: DEFAULT_TARGET_URL };
+    environment = { home, platform: "linux" };
+  });
+
+  afterEach(() => {
+    fs.rmSync(home, { force: true, recursive: true });
+  });
+
+  test("adds FoundRole next to the other servers", () => {
+    const exitCode = install(config, { client: "cursor", environment });
+
+    expect(exitCode).toBe(0);
+    const { mcpServers } = readJson(".cursor", "mcp.json");
+    expect(Object.keys(mcpServers ?? {})).toEqual(["github", "foundrole"]);
+    expect(mcpServers?.foundrole).toEqual({
+      args: [expect.stringMatching(/@latest$/)],
+      command: "npx",
+    });
+    expect(output()).toContain("Restart Cursor to connect.");
+  });
+
+  test("backs up the original file", () => {
+    const file = path.join(home, ".cursor", "mcp.json");
+    const original = fs.readFileSync(file, "utf-8");
+
+    install(config, { client: "cursor", environment });
+
+    const backups = fs
+      .readdirSync(path.dirname(file))
+      .filter((name) => name.endsWith(".bak"));
+    expect(backups).toHaveLength(1);
+    expect(
+      fs.readFileSync(path.join(path.dirname(file), backups[0] ?? ""), "utf-8")
+    ).toBe(original);
+  });
+
+  test("creates the config file when the client has none yet", () => {
+    install(config, { client: "lm-studio", environment });
+
+    expect(readJson(".lmstudio", "mcp.json")).toEqual({
+      mcpServers: { foundrole: expect.objectContaining({ command: "npx" }) },
+    });
+    expect(fs.readdirSync(path.join(home, ".lmstudio"))).toEqual(["mcp.json"]);
+  });
+
+  test("writes the HTTP URL for clients that support it", () => {
+    install(config, { client: "vscode", environment, transport: "http" });
+
+    const settings = readJson(".config", "Code", "User", "mcp.json");
+    expect(settings.servers).toEqual({
+      foundrole: { type: "http", url: DEFAULT_TARGET_URL },
+      memory: expect.objectContaining({ type: "stdio" }),
+    });
+    expect(settings.inputs).toEqual([]);
+  });
+
+  test("replaces an earlier FoundRole entry", () => {
+    install(config, { client: "windsurf", environment, transport: "http" });
+
+    expect(readJson(".codeium", "windsurf", "mcp_config.json")).toEqual({
+      mcpServers: { foundrole: { serverUrl: DEFAULT_TARGET_URL } },
+    });
+    expect(output()).toContain("Updated the FoundRole entry");
+  });
+
+  test("leaves a config that is already set up alone", () => {
+    install(config, { client: "cursor", environment });
+    (console.log as jest.Mock).mockClear();
+
+    install(config, { client: "cursor", environment });
+
+    expect(output()).toContain("FoundRole is already set up in Cursor");
+    expect(
+      fs
+        .readdirSync(path.join(home, ".cursor"))
+        .filter((name) => name.endsWith(".bak"))
+    ).toHaveLength(1);
+  });
+
+  test("prints a diff without writing on a dry run", () => {
+    const file = path.join(
+      home,
+      ".config",
+      "Claude",
+      "claude_desktop_config.json"
+    );
+    const original = fs.readFileSync(file, "utf-8");
+
+    const exitCode = install(
+      { ...config, profile: "recruiter" },
+      { client: "claude-desktop", dryRun: true, environment }
+    );
+
+    expect(exitCode).toBe(0);
+    expect(fs.readFileSync(file, "utf-8")).toBe(original);
+    expect(fs.readdirSync(path.dirname(file))).toHaveLength(1);
+    const diff = output();
+    expect(diff).toContain(`--- ${file}`);
+    expect(diff).toContain('-  "globalShortcut": "Ctrl+Space"');
+    expect(diff).toContain('+  "globalShortcut": "Ctrl+Space",');
+    expect(diff).toContain('+      "env": {');
+    expect(diff).toContain('+        "MCP_PROFILE": "recruiter"');
+    expect(diff).toContain("Dry run:");
+  });
+
+  test("prints the entry for clients without a config file", () => {
+    const exitCode = install(config, { client: "perplexity", environment });
+
+    expect(exitCode).toBe(0);
+    expect(output()).toContain("Perplexity keeps its MCP servers in the app");
+    expect(output()).toContain('"command": "npx"');
+  });
+
+  test("refuses an unknown client or transport", () => {
+    expect(() => install(config, { environment })).toThrow(
+      "No client given; use --client with one of: claude-desktop, cursor"
+    );
+    expect(() => install(config, { client: "emacs", environment })).toThrow(
+      'Unknown client "emacs"'
+    );
+    expect(() =>
+      install(config, { client: "cursor", environment, transport: "sse" })
+    ).toThrow('Unknown transport "sse"');
+  });
+
+  test("does not overwrite a config it cannot read", () => {
+    const file = path.join(home, ".cursor", "mcp.json");
+    fs.writeFileSync(file, "{ not json");
+
+    expect(() => install(config, { client: "cursor", environment })).toThrow(
+      `Could not read ${file}`
+    );
+    expect(fs.readFileSync(file, "utf-8")).toBe("{ not json");
+  });
+
+  describe("uninstall", () => {
+    test("removes only the entry install added", () => {
+      const file = path.join(home, ".cursor", "mcp.json");
+      const original = readJson(".cursor", "mcp.json");
+      install(config, { client: "cursor", environment });
+
+      const exitCode = uninstall(config, { client: "cursor" });
+
+      expect(exitCode).toBe(0);
+      expect(readJson(".cursor", "mcp.json")).toEqual(original);
+      expect(output()).toContain(`Removed FoundRole from Cursor in ${file}.`);
+    });
+
+    test("removes every installed entry without --client", () => {
+      install(config, { client: "cursor", environment });
+      install(config, { client: "lm-studio", environment });
+
+      uninstall(config);
+
+      expect(readJson(".cursor", "mcp.json").mcpServers).not.toHaveProperty(
+        "foundrole"
+      );
+      expect(readJson(".lmstudio", "mcp.json")).toEqual({ mcpServers: {} });
+    });
+
+    test("leaves hand-written entries alone", () => {
+      const exitCode = uninstall(config, { client: "windsurf" });
+
+      expect(exitCode).toBe(0);
+      expect(
+        readJson(".codeium", "windsurf", "mcp_config.json").mcpServers
+      ).toHaveProperty("foundrole");
+      expect(output()).toContain(
+        "The install command has not added FoundRole to Windsurf"
+      );
+    });
+
+    test("keeps an entry changed after it was installed", () => {
+      install(config, { client: "cursor", environment });
+      const file = path.join(home, ".cursor", "mcp.json");
+      const changed = readJson(".cursor", "mcp.json");
+      changed.mcpServers = {
+        ...changed.mcpServers,
+        foundrole: { args: ["my-fork"], command: "npx" },
+      };
+      fs.writeFileSync(file, JSON.stringify(changed));
+
+      const exitCode = uninstall(config, { client: "cursor" });
+
+      expect(exitCode).toBe(1);
+      expect(readJson(".cursor", "mcp.json").mcpServers).toHaveProperty(
+        "foundrole"
+      );
+      expect(output()).toContain("was changed after it was installed");
+    });
+
+    test("prints a diff without writing on a dry run", () => {
+      install(config, { client: "cursor", environment });
+      const file = path.join(home, ".cursor", "mcp.json");
+      const installed = fs.readFileSync(file, "utf-8");
+
+      uninstall(config, { client: "cursor", dryRun: true });
+
+      expect(fs.readFileSync(file, "utf-8")).toBe(installed);
+      expect(output()).toContain('-    "foundrole": {');
+      uninstall(config, { client: "cursor" });
+      expect(output()).toContain("Removed FoundRole from Cursor");
+    });
+  });
+
+  describe("status", () => {
+    const statuses = () =>
+      JSON.parse(
+        (console.log as jest.Mock).mock.calls.at(-1)?.[0] as string
+      ) as ClientStatus[];
+
+    const statusOf = (client: string) =>
+      statuses().find((entry) => entry.client === client);
+
+    test("lists every known client", () => {
+      const exitCode = status(config, { environment });
+
+      expect(exitCode).toBe(0);
+      const lines = output();
+      expect(lines).toContain("Claude Desktop: FoundRole not configured");
+      expect(lines).toContain("LM Studio: no config file");
+      expect(lines).toContain(
+        "Perplexity: keeps its servers in the app, not checked"
+      );
+      expect(lines).toContain(
+        'Windsurf: FoundRole configured as "foundrole" over stdio, no version pinned'
+      );
+    });
+
+    test("shows the transport, version and who added the entry", () => {
+      install(config, { client: "cursor", environment });
+      install(config, { client: "vscode", environment, transport: "http" });
+
+      status(config, { environment, json: true });
+
+      expect(statusOf("cursor")).toMatchObject({
+        installed: true,
+        servers: [{ name: "foundrole", transport: "stdio", version: "latest" }],
+        valid: true,
+      });
+      expect(statusOf("vscode")).toMatchObject({
+        installed: true,
+        servers: [{ name: "foundrole", transport: "http" }],
+      });
+      expect(statusOf("windsurf")).toMatchObject({ installed: false });
+    });
+
+    test("finds FoundRole under another name", () => {
+      fs.writeFileSync(
+        path.join(home, ".cursor", "mcp.json"),
+        JSON.stringify({
+          mcpServers: {
+            jobs: { url: "https://www.foundrole.com/mcp" },
+            pinned: { args: ["-y", "@foundrole/ai-job-search-mcp@1.4.2"] },
+          },
+        })
+      );
+
+      status(config, { environment, json: true });
+
+      expect(statusOf("cursor")?.servers).toEqual([
+        { name: "jobs", transport: "http" },
+        { name: "pinned", transport: "stdio", version: "1.4.2" },
+      ]);
+    });
+
+    test("fails when a config file is not valid JSON", () => {
+      fs.mkdirSync(path.join(home, ".lmstudio"));
+      fs.writeFileSync(path.join(home, ".lmstudio", "mcp.json"), "{,}");
+
+      const exitCode = status(config, { environment, json: true });
+
+      expect(exitCode).toBe(1);
+      expect(statusOf("lm-studio")).toMatchObject({
+        error: expect.stringContaining("Could not read"),
+        exists: true,
+        valid: false,
+      });
+    });
+  });
+
+  describe("diffLines", () => {
+    test("marks added, removed and unchanged lines", () => {
+      expect(diffLines("a\nb\nc\n", "a\nc\nd\n")).toEqual([
+        [" ", "a"],
+        ["-", "b"],
+        [" ", "c"],
+        ["+", "d"],
+      ]);
+    });
+
+    test("treats a missing file as empty", () => {
+      expect(diffLines("", "{}\n")).toEqual([["+", "{}"]]);
+    });
+  });
+});
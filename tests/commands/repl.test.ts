@@ -0,0 +1,313 @@
+/**
+ * REPL command tests
+ * Tests line parsing, completion, argument checks and a scripted session
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+
+import { beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+const mockClient = {
+  callTool: jest.fn<(...args: unknown[]) => Promise<unknown>>(),
+  close: jest.fn<() => Promise<void>>(),
+  complete: jest.fn<(...args: unknown[]) => Promise<unknown>>(),
+  getPrompt: jest.fn<(...args: unknown[]) => Promise<unknown>>(),
+  getServerCapabilities: jest.fn<() => Record<string, unknown>>(),
+  getServerVersion: jest.fn<() => { name: string; version: string }>(),
+  listPrompts: jest.fn<(...args: unknown[]) => Promise<unknown>>(),
+  listResources: jest.fn<(...args: unknown[]) => Promise<unknown>>(),
+  listResourceTemplates: jest.fn<(...args: unknown[]) => Promise<unknown>>(),
+  listTools: jest.fn<(...args: unknown[]) => Promise<unknown>>(),
+  readResource: jest.fn<(...args: unknown[]) => Promise<unknown>>(),
+};
+const mockCreateHttpClient = jest.fn<(options: unknown) => Promise<unknown>>();
+jest.mock("../../src/stdio-server.js", () => ({
+  createHttpClient: mockCreateHttpClient,
+}));
+
+import type { Catalog } from "../../src/commands/repl.js";
+import {
+  checkToolArguments,
+  completeLine,
+  parseToolArguments,
+  repl,
+  splitWords,
+} from "../../src/commands/repl.js";
+import { getStateDir } from "../../src/constants.js";
+import type { ProxyConfig } from "../../src/types.js";
+
+const SEARCH_TOOL = {
+  description: "Search job listings\nMore detail",
+  inputSchema: {
+    properties: {
+      location: { type: "string" },
+      query: { type: "string" },
+      remote: { type: "boolean" },
+    },
+    required: ["query"],
+    type: "object" as const,
+  },
+  name: "search_jobs",
+};
+
+const CATALOG: Catalog = {
+  prompts: [
+    { arguments: [{ name: "role" }, { name: "tone" }], name: "review_cv" },
+  ],
+  resources: [{ name: "Saved", uri: "foundrole://saved" }],
+  templates: [{ name: "Job", uriTemplate: "foundrole://jobs/{id}{?fields}" }],
+  tools: [SEARCH_TOOL, { inputSchema: { type: "object" }, name: "save_job" }],
+};
+
+describe("REPL command Tests", () => {
+  describe("splitWords", () => {
+    test("keeps quoted text in one word", () => {
+      expect(splitWords(`query="data engineer" location='New York' x`)).toEqual(
+        ["query=data engineer", "location=New York", "x"]
+      );
+    });
+
+    test("rejects an unclosed quote", () => {
+      expect(() => splitWords(`query="data`)).toThrow('Unclosed " quote');
+    });
+  });
+
+  describe("completeLine", () => {
+    test("completes commands", () => {
+      expect(completeLine("pro", CATALOG)).toEqual([
+        ["prompt", "prompts"],
+        "pro",
+      ]);
+    });
+
+    test("completes tool names and unused argument keys", () => {
+      expect(completeLine("call s", CATALOG)).toEqual([
+        ["search_jobs", "save_job"],
+        "s",
+      ]);
+      expect(completeLine("call search_jobs query=rust ", CATALOG)).toEqual([
+        ["location=", "remote="],
+        "",
+      ]);
+    });
+
+    test("completes prompt arguments and template variables", () => {
+      expect(completeLine("prompt review_cv t", CATALOG)).toEqual([
+        ["tone="],
+        "t",
+      ]);
+      expect(
+        completeLine(
+          "complete resource foundrole://jobs/{id}{?fields} ",
+          CATALOG
+        )
+      ).toEqual([["id", "fields"], ""]);
+    });
+  });
+
+  describe("tool arguments", () => {
+    test("reads key=value pairs by the schema's types", () => {
+      expect(
+        parseToolArguments(
+          'query=42 remote=true location="San Jose"',
+          SEARCH_TOOL
+        )
+      ).toEqual({ location: "San Jose", query: "42", remote: true });
+    });
+
+    test("reads a JSON object", () => {
+      expect(
+        parseToolArguments('{"query": "rust", "remote": false}', SEARCH_TOOL)
+      ).toEqual({ query: "rust", remote: false });
+    });
+
+    test("rejects words that are not pairs", () => {
+      expect(() => parseToolArguments("rust", SEARCH_TOOL)).toThrow(
+        'Expected key=value, got "rust"'
+      );
+    });
+
+    test("checks arguments against the input schema", () => {
+      expect(() => {
+        checkToolArguments(SEARCH_TOOL, { query: "rust" });
+      }).not.toThrow();
+      expect(() => {
+        checkToolArguments(SEARCH_TOOL, { remote: "yes" });
+      }).toThrow(/^Invalid arguments for search_jobs: /);
+    });
+  });
+
+  describe("session", () => {
+    const config: ProxyConfig = {
+      debugMode: false,
+      targetUrl: "https://www.foundrole.com/mcp",
+    };
+
+    const runSession = async (
+      lines: string[],
+      terminal = false,
+      sessionConfig = config
+    ) => {
+      const input = new PassThrough();
+      // readline keeps history and completes only on a terminal
+      const output = Object.assign(new PassThrough(), { isTTY: terminal });
+      output.resume();
+      input.end(lines.map((line) => `${line}\n`).join(""));
+      return repl(sessionConfig, { input, output });
+    };
+
+    const printed = () =>
+      (console.log as jest.Mock).mock.calls.map(([line]) => line).join("\n");
+
+    beforeEach(() => {
+      mockCreateHttpClient.mockResolvedValue(mockClient);
+      mockClient.close.mockResolvedValue(undefined);
+      mockClient.getServerCapabilities.mockReturnValue({
+        completions: {},
+        prompts: {},
+        tools: {},
+      });
+      mockClient.getServerVersion.mockReturnValue({
+        name: "foundrole",
+        version: "2.1.0",
+      });
+      mockClient.listTools.mockResolvedValue({ tools: [SEARCH_TOOL] });
+      mockClient.listPrompts.mockResolvedValue({ prompts: CATALOG.prompts });
+      mockClient.callTool.mockResolvedValue({
+        content: [{ text: "3 jobs found", type: "text" }],
+        structuredContent: { count: 3 },
+      });
+    });
+
+    test("lists tools and renders a call's content", async () => {
+      const exitCode = await runSession([
+        "tools",
+        "call search_jobs query=rust",
+        "exit",
+        "tools",
+      ]);
+
+      expect(exitCode).toBe(0);
+      expect(mockClient.listResources).not.toHaveBeenCalled();
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        { arguments: { query: "rust" }, name: "search_jobs" },
+        undefined,
+        expect.objectContaining({ timeout: 60_000 })
+      );
+      expect(printed()).toBe(
+        [
+          "Connected to foundrole 2.1.0. Type help for commands.",
+          "search_jobs  Search job listings",
+          "3 jobs found",
+          'Structured content:\n{\n  "count": 3\n}',
+        ].join("\n")
+      );
+      expect(mockClient.close).toHaveBeenCalled();
+    });
+
+    test("refuses invalid arguments without calling the tool", async () => {
+      await runSession(["call search_jobs remote=true", "call nope"]);
+
+      expect(mockClient.callTool).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringMatching(/^Error: Invalid arguments for search_jobs: /)
+      );
+      expect(console.error).toHaveBeenCalledWith(
+        'Error: Unknown tool "nope"; try tools'
+      );
+    });
+
+    test("refuses what the bridge would refuse", async () => {
+      await runSession(
+        [
+          "call search_jobs query=rust",
+          "prompt review_cv",
+          "read foundrole://cv",
+        ],
+        false,
+        {
+          ...config,
+          filters: {
+            prompts: { deny: ["review_*"] },
+            resources: { deny: ["foundrole://cv"] },
+          },
+          readOnly: true,
+        }
+      );
+
+      expect(mockClient.callTool).not.toHaveBeenCalled();
+      expect(mockClient.getPrompt).not.toHaveBeenCalled();
+      expect(mockClient.readResource).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith(
+        "Error: Tool search_jobs is not marked read-only and is blocked in read-only mode"
+      );
+      expect(console.error).toHaveBeenCalledWith(
+        "Error: Prompt review_cv is blocked by the proxy configuration"
+      );
+      expect(console.error).toHaveBeenCalledWith(
+        "Error: Resource foundrole://cv is blocked by the proxy configuration"
+      );
+    });
+
+    test("blocks a destructive tool it cannot confirm", async () => {
+      mockClient.listTools.mockResolvedValue({
+        tools: [{ ...SEARCH_TOOL, annotations: { destructiveHint: true } }],
+      });
+
+      await runSession(["call search_jobs query=rust"], false, {
+        ...config,
+        confirmDestructive: true,
+      });
+
+      expect(mockClient.callTool).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringMatching(/^Error: search_jobs is destructive/)
+      );
+    });
+
+    test("asks the server to complete a prompt argument", async () => {
+      mockClient.complete.mockResolvedValue({
+        completion: { total: 5, values: ["Data Engineer", "Data Analyst"] },
+      });
+
+      await runSession(["complete prompt review_cv role Data"]);
+
+      expect(mockClient.complete).toHaveBeenCalledWith(
+        {
+          argument: { name: "role", value: "Data" },
+          ref: { name: "review_cv", type: "ref/prompt" },
+        },
+        expect.anything()
+      );
+      expect(printed()).toContain("Data Engineer\nData Analyst\n(3 more)");
+    });
+
+    test("prints raw JSON after json on", async () => {
+      mockClient.getPrompt.mockResolvedValue({
+        messages: [
+          { content: { text: "Review my CV", type: "text" }, role: "user" },
+        ],
+      });
+
+      await runSession(["json on", "prompt review_cv tone=brief"]);
+
+      expect(mockClient.getPrompt).toHaveBeenCalledWith(
+        { arguments: { tone: "brief" }, name: "review_cv" },
+        expect.anything()
+      );
+      expect(printed()).toContain('"role": "user"');
+    });
+
+    test("keeps the history in the state directory", async () => {
+      const historyFile = path.join(getStateDir(), "repl_history");
+      fs.mkdirSync(getStateDir(), { recursive: true });
+      fs.writeFileSync(historyFile, "tools");
+
+      await runSession(["help", "tools"], true);
+
+      expect(fs.readFileSync(historyFile, "utf-8")).toBe("tools\nhelp");
+    });
+  });
+});
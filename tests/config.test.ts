@@ -3,22 +3,31 @@
  * Tests getProxyConfig function with comprehensive coverage
  */
 
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
 import { afterEach, beforeEach, describe, expect, test } from "@jest/globals";
 
-import { getProxyConfig } from "../src/config.js";
+import { getProxyConfig, PROJECT_CONFIG_FILE } from "../src/config.js";
 
 describe("Configuration Tests", () => {
   // Store original environment variables
   const originalEnv = process.env;
+  // Stands in for ~/.foundrole-mcp so a real user config is not picked up
+  let stateDir: string;
 
   beforeEach(() => {
     // Reset environment variables before each test
     process.env = { ...originalEnv };
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "config-"));
+    process.env.FOUNDROLE_MCP_HOME = stateDir;
   });
 
   afterEach(() => {
     // Restore environment variables after each test
     process.env = originalEnv;
+    fs.rmSync(stateDir, { force: true, recursive: true });
   });
 
   describe("getProxyConfig", () => {
@@ -39,17 +48,17 @@ describe("Configuration Tests", () => {
       const config = getProxyConfig();
 
       expect(config).toEqual({
-        debugMode: true,
+        debugMode: false,
         targetUrl: "http://localhost:3002/mcp",
       });
     });
 
-    test("enables debug mode when MCP_TARGET_URL is set", () => {
-      process.env.MCP_TARGET_URL = "https://example.com/mcp";
+    test("keeps debug mode off for a custom MCP_TARGET_URL", () => {
+      process.env.MCP_TARGET_URL = "https://staging.foundrole.com/mcp";
 
       const config = getProxyConfig();
 
-      expect(config.debugMode).toBe(true);
+      expect(config.debugMode).toBe(false);
     });
 
     test("disables debug mode when MCP_TARGET_URL is not set", () => {
@@ -96,7 +105,194 @@ describe("Configuration Tests", () => {
 
       // The config function doesn't trim the URL, it only uses trim() to check if it's set
       expect(config.targetUrl).toBe(urlWithWhitespace);
-      expect(config.debugMode).toBe(true);
+      expect(config.debugMode).toBe(false);
+    });
+  });
+
+  describe("profile selection", () => {
+    test("omits the profile when MCP_PROFILE is not set", () => {
+      delete process.env.MCP_PROFILE;
+
+      expect(getProxyConfig()).not.toHaveProperty("profile");
+    });
+
+    test("uses the trimmed MCP_PROFILE", () => {
+      process.env.MCP_PROFILE = "  recruiter ";
+
+      expect(getProxyConfig().profile).toBe("recruiter");
+    });
+
+    test("ignores a whitespace-only MCP_PROFILE", () => {
+      process.env.MCP_PROFILE = "   ";
+
+      expect(getProxyConfig()).not.toHaveProperty("profile");
+    });
+  });
+
+  describe("lazy connect", () => {
+    test("is off when MCP_LAZY_CONNECT is not set", () => {
+      delete process.env.MCP_LAZY_CONNECT;
+
+      expect(getProxyConfig()).not.toHaveProperty("lazyConnect");
+    });
+
+    test.each(["1", "true", " YES "])(
+      "is enabled by MCP_LAZY_CONNECT=%p",
+      (value) => {
+        process.env.MCP_LAZY_CONNECT = value;
+
+        expect(getProxyConfig().lazyConnect).toBe(true);
+      }
+    );
+
+    test("stays off for false values", () => {
+      process.env.MCP_LAZY_CONNECT = "0";
+
+      expect(getProxyConfig()).not.toHaveProperty("lazyConnect");
+    });
+
+    test("rejects values that are not booleans", () => {
+      process.env.MCP_LAZY_CONNECT = "sometimes";
+
+      expect(() => getProxyConfig()).toThrow(
+        "Invalid configuration in environment:\n  MCP_LAZY_CONNECT:"
+      );
+    });
+  });
+
+  describe("config layers", () => {
+    let projectDir: string;
+
+    beforeEach(() => {
+      delete process.env.MCP_TARGET_URL;
+      delete process.env.MCP_PROFILE;
+      delete process.env.MCP_LAZY_CONNECT;
+      projectDir = path.join(stateDir, "project");
+      fs.mkdirSync(projectDir);
+    });
+
+    const writeJson = (filePath: string, value: unknown) =>
+      fs.writeFileSync(filePath, JSON.stringify(value));
+
+    test("reads the user config file", () => {
+      writeJson(path.join(stateDir, "config.json"), {
+        lazyConnect: true,
+        profile: "recruiter",
+      });
+
+      expect(getProxyConfig({ cwd: projectDir })).toEqual({
+        debugMode: false,
+        lazyConnect: true,
+        profile: "recruiter",
+        targetUrl: "https://www.foundrole.com/mcp",
+      });
+    });
+
+    test("lets the project file override the user file", () => {
+      writeJson(path.join(stateDir, "config.json"), { profile: "recruiter" });
+      writeJson(path.join(projectDir, PROJECT_CONFIG_FILE), {
+        profile: "candidate",
+        targetUrl: "http://localhost:3002/mcp",
+      });
+
+      expect(getProxyConfig({ cwd: projectDir })).toEqual({
+        debugMode: false,
+        profile: "candidate",
+        targetUrl: "http://localhost:3002/mcp",
+      });
+    });
+
+    test("lets environment variables override config files", () => {
+      writeJson(path.join(projectDir, PROJECT_CONFIG_FILE), {
+        lazyConnect: true,
+        profile: "candidate",
+      });
+      process.env.MCP_PROFILE = "recruiter";
+      process.env.MCP_LAZY_CONNECT = "false";
+
+      expect(getProxyConfig({ cwd: projectDir })).toEqual({
+        debugMode: false,
+        profile: "recruiter",
+        targetUrl: "https://www.foundrole.com/mcp",
+      });
+    });
+
+    test("lets flags override everything else", () => {
+      process.env.MCP_TARGET_URL = "http://localhost:3002/mcp";
+
+      const config = getProxyConfig({
+        cwd: projectDir,
+        flags: { profile: "recruiter", targetUrl: "http://localhost:4000/mcp" },
+      });
+
+      expect(config.profile).toBe("recruiter");
+      expect(config.targetUrl).toBe("http://localhost:4000/mcp");
+    });
+
+    test("reads an explicit config file instead of the project file", () => {
+      const configFile = path.join(stateDir, "staging.json");
+      writeJson(configFile, { targetUrl: "https://staging.example.com/mcp" });
+      writeJson(path.join(projectDir, PROJECT_CONFIG_FILE), {
+        profile: "ignored",
+      });
+
+      expect(getProxyConfig({ configFile, cwd: projectDir })).toEqual({
+        debugMode: false,
+        targetUrl: "https://staging.example.com/mcp",
+      });
+    });
+
+    test("requires an explicit config file to exist", () => {
+      const configFile = path.join(stateDir, "missing.json");
+
+      expect(() => getProxyConfig({ configFile })).toThrow(
+        `Could not read config file ${configFile}`
+      );
+    });
+
+    test("reports malformed JSON with the file path", () => {
+      const projectFile = path.join(projectDir, PROJECT_CONFIG_FILE);
+      fs.writeFileSync(projectFile, "{ profile: ");
+
+      expect(() => getProxyConfig({ cwd: projectDir })).toThrow(
+        `Could not read config file ${projectFile}`
+      );
+    });
+
+    test("reports every invalid setting in a file", () => {
+      const projectFile = path.join(projectDir, PROJECT_CONFIG_FILE);
+      writeJson(projectFile, {
+        lazyConnect: "yes",
+        targetUrl: "ftp://example.com",
+        timeout: 5,
+      });
+
+      expect(() => getProxyConfig({ cwd: projectDir })).toThrow(
+        expect.objectContaining({
+          message: expect.stringMatching(
+            new RegExp(
+              [
+                `^Invalid configuration in ${projectFile}:`,
+                "  lazyConnect: .+",
+                "  targetUrl: must be an http:// or https:// URL",
+                "  \\(root\\): .+: timeout$",
+              ].join("\n")
+            )
+          ),
+        })
+      );
+    });
+
+    test("names the flag behind an invalid flag value", () => {
+      expect(() =>
+        getProxyConfig({ cwd: projectDir, flags: { targetUrl: true } })
+      ).toThrow("Invalid configuration in command-line flags:\n  --url:");
+    });
+
+    test("rejects an empty profile", () => {
+      expect(() =>
+        getProxyConfig({ cwd: projectDir, flags: { profile: " " } })
+      ).toThrow("--profile: must not be empty");
     });
   });
 
@@ -178,7 +374,7 @@ describe("Configuration Tests", () => {
       const config = getProxyConfig();
 
       expect(config.targetUrl).toBe(specialUrl);
-      expect(config.debugMode).toBe(true);
+      expect(config.debugMode).toBe(false);
     });
 
     test("handles very long URLs", () => {
@@ -188,7 +384,7 @@ describe("Configuration Tests", () => {
       const config = getProxyConfig();
 
       expect(config.targetUrl).toBe(longUrl);
-      expect(config.debugMode).toBe(true);
+      expect(config.debugMode).toBe(false);
     });
 
     test("handles Unicode characters in URL", () => {
@@ -198,57 +394,427 @@ describe("Configuration Tests", () => {
       const config = getProxyConfig();
 
       expect(config.targetUrl).toBe(unicodeUrl);
-      expect(config.debugMode).toBe(true);
+      expect(config.debugMode).toBe(false);
     });
   });
 
-  describe("boolean conversion for debug mode", () => {
-    test("converts truthy strings to true", () => {
-      process.env.MCP_TARGET_URL = "any-non-empty-string";
+  describe("log level", () => {
+    beforeEach(() => {
+      delete process.env.MCP_LOG_FILE;
+      delete process.env.MCP_LOG_FORMAT;
+      delete process.env.MCP_LOG_LEVEL;
+    });
 
+    test("omits the log level when none is configured", () => {
       const config = getProxyConfig();
 
-      expect(config.debugMode).toBe(true);
+      expect(config).not.toHaveProperty("logLevel");
+      expect(config.debugMode).toBe(false);
     });
 
-    test("converts empty string to false", () => {
-      process.env.MCP_TARGET_URL = "";
+    test.each(["debug", "trace"] as const)(
+      "enables debug mode at %s",
+      (level) => {
+        process.env.MCP_LOG_LEVEL = level;
 
-      const config = getProxyConfig();
+        const config = getProxyConfig();
 
-      expect(config.debugMode).toBe(false);
+        expect(config.logLevel).toBe(level);
+        expect(config.debugMode).toBe(true);
+      }
+    );
+
+    test.each(["error", "warn", "info"] as const)(
+      "leaves debug mode off at %s",
+      (level) => {
+        process.env.MCP_LOG_LEVEL = level;
+
+        expect(getProxyConfig().debugMode).toBe(false);
+      }
+    );
+
+    test("reads MCP_LOG_LEVEL case-insensitively", () => {
+      process.env.MCP_LOG_LEVEL = " DEBUG ";
+
+      expect(getProxyConfig().logLevel).toBe("debug");
     });
 
-    test("converts undefined to false", () => {
+    test("works against the production URL", () => {
       delete process.env.MCP_TARGET_URL;
 
-      const config = getProxyConfig();
+      const config = getProxyConfig({ flags: { logLevel: "trace" } });
 
-      expect(config.debugMode).toBe(false);
+      expect(config.targetUrl).toBe("https://www.foundrole.com/mcp");
+      expect(config.debugMode).toBe(true);
+    });
+
+    test("reads the log format and file", () => {
+      process.env.MCP_LOG_FORMAT = "JSON";
+      process.env.MCP_LOG_FILE = " /var/log/foundrole-mcp.log ";
+
+      expect(getProxyConfig()).toMatchObject({
+        logFile: "/var/log/foundrole-mcp.log",
+        logFormat: "json",
+      });
+    });
+
+    test("rejects unknown log formats", () => {
+      expect(() => getProxyConfig({ flags: { logFormat: "xml" } })).toThrow(
+        "--log-format:"
+      );
+    });
+
+    test("rejects unknown levels", () => {
+      process.env.MCP_LOG_LEVEL = "verbose";
+
+      expect(() => getProxyConfig()).toThrow(
+        "Invalid configuration in environment:\n  MCP_LOG_LEVEL:"
+      );
+    });
+  });
+
+  describe("timeouts", () => {
+    beforeEach(() => {
+      delete process.env.MCP_TIMEOUTS;
+    });
+
+    test("omits timeouts when none are configured", () => {
+      expect(getProxyConfig()).not.toHaveProperty("timeouts");
+    });
+
+    test("reads per-method timeouts from MCP_TIMEOUTS", () => {
+      process.env.MCP_TIMEOUTS = "tools/call=120000, resources/read=30000";
+
+      expect(getProxyConfig().timeouts).toEqual({
+        "resources/read": 30_000,
+        "tools/call": 120_000,
+      });
+    });
+
+    test("treats a bare number as the default", () => {
+      process.env.MCP_TIMEOUTS = "45000";
+
+      expect(getProxyConfig().timeouts).toEqual({ default: 45_000 });
+    });
+
+    test("merges timeouts from each layer per method", () => {
+      fs.writeFileSync(
+        path.join(stateDir, "config.json"),
+        JSON.stringify({ timeouts: { default: 30_000, "tools/call": 90_000 } })
+      );
+      process.env.MCP_TIMEOUTS = "resources/read=5000";
+
+      const config = getProxyConfig({
+        flags: { timeouts: { "tools/call": 120_000 } },
+      });
+
+      expect(config.timeouts).toEqual({
+        default: 30_000,
+        "resources/read": 5000,
+        "tools/call": 120_000,
+      });
+    });
+
+    test("rejects methods that are not forwarded", () => {
+      process.env.MCP_TIMEOUTS = "tools/run=1000";
+
+      expect(() => getProxyConfig()).toThrow(
+        "MCP_TIMEOUTS.tools/run: is not a method that can have a timeout"
+      );
+    });
+
+    test("rejects values that are not positive whole milliseconds", () => {
+      for (const value of ["soon", "0", "1.5"]) {
+        process.env.MCP_TIMEOUTS = `tools/call=${value}`;
+
+        expect(() => getProxyConfig()).toThrow(
+          "MCP_TIMEOUTS.tools/call: must be a positive number of milliseconds"
+        );
+      }
     });
+  });
 
-    test("converts string '0' to true (non-empty string)", () => {
-      process.env.MCP_TARGET_URL = "0";
+  describe("session recording", () => {
+    beforeEach(() => {
+      delete process.env.MCP_RECORD_FILE;
+      delete process.env.MCP_REDACT_FIELDS;
+    });
 
+    test("is off unless a file is configured", () => {
       const config = getProxyConfig();
 
-      expect(config.debugMode).toBe(true);
+      expect(config).not.toHaveProperty("recordFile");
+      expect(config).not.toHaveProperty("redactFields");
     });
 
-    test("converts string 'false' to true (non-empty string)", () => {
-      process.env.MCP_TARGET_URL = "false";
+    test("reads the file and extra redacted fields from the environment", () => {
+      process.env.MCP_RECORD_FILE = " /tmp/session.jsonl ";
+      process.env.MCP_REDACT_FIELDS = "email, phone,";
+
+      expect(getProxyConfig()).toMatchObject({
+        recordFile: "/tmp/session.jsonl",
+        redactFields: ["email", "phone"],
+      });
+    });
+
+    test("reads a session to replay", () => {
+      process.env.MCP_REPLAY_FILE = "/tmp/session.jsonl";
+
+      expect(getProxyConfig().replayFile).toBe("/tmp/session.jsonl");
+      delete process.env.MCP_REPLAY_FILE;
+    });
+
+    test("rejects empty field names from flags", () => {
+      expect(() =>
+        getProxyConfig({ flags: { redactFields: ["email", " "] } })
+      ).toThrow("--redact.1: must not contain empty names");
+    });
+  });
+
+  describe("filters", () => {
+    const FILTER_ENV = [
+      "MCP_ALLOW_PROMPTS",
+      "MCP_ALLOW_RESOURCES",
+      "MCP_ALLOW_TOOLS",
+      "MCP_DENY_PROMPTS",
+      "MCP_DENY_RESOURCES",
+      "MCP_DENY_TOOLS",
+    ];
+
+    beforeEach(() => {
+      for (const name of FILTER_ENV) {
+        delete process.env[name];
+      }
+    });
+
+    test("omits filters when none are configured", () => {
+      expect(getProxyConfig()).not.toHaveProperty("filters");
+    });
+
+    test("reads allow and deny patterns from the environment", () => {
+      process.env.MCP_ALLOW_TOOLS = "search_*, get_job";
+      process.env.MCP_DENY_RESOURCES = "secrets://*";
+
+      expect(getProxyConfig().filters).toEqual({
+        resources: { deny: ["secrets://*"] },
+        tools: { allow: ["search_*", "get_job"] },
+      });
+    });
+
+    test("merges filters from each layer rule by rule", () => {
+      fs.writeFileSync(
+        path.join(stateDir, "config.json"),
+        JSON.stringify({
+          filters: { prompts: { deny: ["draft-*"] }, tools: { allow: ["*"] } },
+        })
+      );
+      process.env.MCP_DENY_TOOLS = "delete_*";
+
+      const config = getProxyConfig({
+        flags: { filters: { tools: { allow: ["search_*"] } } },
+      });
+
+      expect(config.filters).toEqual({
+        prompts: { deny: ["draft-*"] },
+        tools: { allow: ["search_*"], deny: ["delete_*"] },
+      });
+    });
+
+    test("rejects empty patterns", () => {
+      expect(() =>
+        getProxyConfig({ flags: { filters: { tools: { deny: [" "] } } } })
+      ).toThrow("--deny-tool.0: must not contain empty patterns");
+    });
+
+    test("rejects unknown filter kinds in config files", () => {
+      fs.writeFileSync(
+        path.join(stateDir, "config.json"),
+        JSON.stringify({ filters: { commands: { deny: ["*"] } } })
+      );
+
+      expect(() => getProxyConfig()).toThrow(
+        'filters: Unrecognized key: "commands"'
+      );
+    });
+  });
 
+  describe("read-only mode", () => {
+    beforeEach(() => {
+      delete process.env.MCP_READ_ONLY;
+      delete process.env.MCP_UNANNOTATED_TOOLS;
+    });
+
+    test("is off unless enabled", () => {
       const config = getProxyConfig();
 
-      expect(config.debugMode).toBe(true);
+      expect(config).not.toHaveProperty("readOnly");
+      expect(config).not.toHaveProperty("unannotatedTools");
+    });
+
+    test("reads the mode and unannotated tool policy from the environment", () => {
+      process.env.MCP_READ_ONLY = "yes";
+      process.env.MCP_UNANNOTATED_TOOLS = "Allow";
+
+      expect(getProxyConfig()).toMatchObject({
+        readOnly: true,
+        unannotatedTools: "allow",
+      });
     });
 
-    test("converts whitespace-only string to false", () => {
-      process.env.MCP_TARGET_URL = "   \t\n  ";
+    test("rejects unknown unannotated tool policies", () => {
+      expect(() =>
+        getProxyConfig({ flags: { unannotatedTools: "ask" } })
+      ).toThrow("--unannotated-tools:");
+    });
+  });
+
+  describe("destructive tool confirmation", () => {
+    beforeEach(() => {
+      delete process.env.MCP_CONFIRM_DESTRUCTIVE;
+      delete process.env.MCP_CONFIRM_FALLBACK;
+    });
 
+    test("is off unless enabled", () => {
       const config = getProxyConfig();
 
-      expect(config.debugMode).toBe(false);
+      expect(config).not.toHaveProperty("confirmDestructive");
+      expect(config).not.toHaveProperty("confirmFallback");
+    });
+
+    test("reads the setting and fallback from the environment", () => {
+      process.env.MCP_CONFIRM_DESTRUCTIVE = "true";
+      process.env.MCP_CONFIRM_FALLBACK = "argument";
+
+      expect(getProxyConfig()).toMatchObject({
+        confirmDestructive: true,
+        confirmFallback: "argument",
+      });
+    });
+
+    test("rejects unknown fallbacks", () => {
+      process.env.MCP_CONFIRM_FALLBACK = "ask";
+
+      expect(() => getProxyConfig()).toThrow("MCP_CONFIRM_FALLBACK:");
+    });
+  });
+
+  describe("names", () => {
+    beforeEach(() => {
+      for (const name of [
+        "MCP_PROMPT_PREFIX",
+        "MCP_RENAME_PROMPTS",
+        "MCP_RENAME_TOOLS",
+        "MCP_TOOL_PREFIX",
+      ]) {
+        delete process.env[name];
+      }
+    });
+
+    test("omits name rules when none are configured", () => {
+      expect(getProxyConfig()).not.toHaveProperty("names");
+    });
+
+    test("reads prefixes and renames from the environment", () => {
+      process.env.MCP_TOOL_PREFIX = "foundrole_";
+      process.env.MCP_RENAME_TOOLS = "search=find_jobs, get_details=job_info";
+      process.env.MCP_PROMPT_PREFIX = "fr-";
+
+      expect(getProxyConfig().names).toEqual({
+        prompts: { prefix: "fr-" },
+        tools: {
+          prefix: "foundrole_",
+          rename: { get_details: "job_info", search: "find_jobs" },
+        },
+      });
+    });
+
+    test("merges renames from each layer name by name", () => {
+      fs.writeFileSync(
+        path.join(stateDir, "config.json"),
+        JSON.stringify({
+          names: { tools: { prefix: "fr_", rename: { search: "find" } } },
+        })
+      );
+      process.env.MCP_RENAME_TOOLS = "get_details=job_info";
+
+      expect(getProxyConfig().names).toEqual({
+        tools: {
+          prefix: "fr_",
+          rename: { get_details: "job_info", search: "find" },
+        },
+      });
+    });
+
+    test("rejects names clients would refuse", () => {
+      process.env.MCP_RENAME_TOOLS = "search=find.jobs";
+
+      expect(() => getProxyConfig()).toThrow(
+        "MCP_RENAME_TOOLS.search: may only contain letters, digits, _ and -"
+      );
+    });
+
+    test("rejects renames without a new name", () => {
+      expect(() =>
+        getProxyConfig({
+          flags: { names: { tools: { rename: { search: "" } } } },
+        })
+      ).toThrow("--rename-tool.search: must not be empty");
+    });
+
+    test("rejects two names renamed to the same one", () => {
+      process.env.MCP_RENAME_TOOLS = "search=find,lookup=find";
+
+      expect(() => getProxyConfig()).toThrow(
+        "MCP_RENAME_TOOLS: must not give two names the same new name"
+      );
+    });
+
+    test("rejects prefixes that leave no room for a name", () => {
+      process.env.MCP_TOOL_PREFIX = "p".repeat(64);
+
+      expect(() => getProxyConfig()).toThrow(
+        "MCP_TOOL_PREFIX: must be at most 63 characters"
+      );
+    });
+  });
+
+  describe("schema shims", () => {
+    beforeEach(() => {
+      delete process.env.MCP_SCHEMA_SHIMS;
+    });
+
+    test("leaves shims to detection when not configured", () => {
+      expect(getProxyConfig()).not.toHaveProperty("schemaShims");
+    });
+
+    test("reads shims from the environment", () => {
+      process.env.MCP_SCHEMA_SHIMS = "Gemini, openai-strict";
+
+      expect(getProxyConfig().schemaShims).toEqual(["gemini", "openai-strict"]);
+    });
+
+    test("turns shims off with none", () => {
+      process.env.MCP_SCHEMA_SHIMS = "none";
+
+      expect(getProxyConfig().schemaShims).toEqual([]);
+    });
+
+    test("rejects unknown shims", () => {
+      expect(() =>
+        getProxyConfig({ flags: { schemaShims: ["claude"] } })
+      ).toThrow("--schema-shim.0:");
+    });
+  });
+
+  describe("URL values", () => {
+    test("rejects non-URL values such as '0' and 'false'", () => {
+      for (const value of ["0", "false", "any-non-empty-string"]) {
+        process.env.MCP_TARGET_URL = value;
+
+        expect(() => getProxyConfig()).toThrow(
+          "MCP_TARGET_URL: must be an http:// or https:// URL"
+        );
+      }
     });
   });
 
@@ -329,7 +895,7 @@ describe("Configuration Tests", () => {
       expect(config1.targetUrl).toBe("https://www.foundrole.com/mcp");
       expect(config1.debugMode).toBe(false);
       expect(config2.targetUrl).toBe("http://localhost:3000");
-      expect(config2.debugMode).toBe(true);
+      expect(config2.debugMode).toBe(false);
     });
 
     test("handles null environment variable", () => {
@@ -0,0 +1,332 @@
+/**
+ * connection-manager functionality tests
+ * Tests upstream reconnection, backoff and subscription restore
+ */
+
+// @ts-nocheck - Minimal client stand-ins instead of full SDK clients
+
+import { beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+import {
+  ConnectionManager,
+  isConnectionError,
+  isSessionExpired,
+} from "../src/connection-manager.js";
+
+const createClient = (name: string) => ({
+  close: jest.fn(async () => {}),
+  name,
+  onclose: undefined,
+  onerror: undefined,
+  subscribeResource: jest.fn(async () => ({})),
+});
+
+const httpError = (code: number) =>
+  Object.assign(new Error(`HTTP ${code}`), { code });
+
+const nextTick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("connection-manager Tests", () => {
+  let clients: ReturnType<typeof createClient>[];
+  let connect: jest.Mock;
+
+  beforeEach(() => {
+    clients = [];
+    connect = jest.fn(async () => {
+      const client = createClient(`client-${clients.length + 1}`);
+      clients.push(client);
+      return client;
+    });
+  });
+
+  describe("isConnectionError", () => {
+    test("treats an expired session as a connection error", () => {
+      expect(isConnectionError(httpError(404))).toBe(true);
+    });
+
+    test("treats server errors as connection errors", () => {
+      expect(isConnectionError(httpError(502))).toBe(true);
+    });
+
+    test("ignores other HTTP errors", () => {
+      expect(isConnectionError(httpError(400))).toBe(false);
+      expect(isConnectionError(httpError(403))).toBe(false);
+    });
+
+    test("treats network failures as connection errors", () => {
+      expect(isConnectionError(new TypeError("fetch failed"))).toBe(true);
+      expect(
+        isConnectionError(new Error("SSE stream disconnected: reset"))
+      ).toBe(true);
+      expect(
+        isConnectionError(
+          new Error("Maximum reconnection attempts (2) exceeded.")
+        )
+      ).toBe(true);
+    });
+
+    test("ignores protocol and auth errors", () => {
+      expect(isConnectionError(new Error("Unauthorized"))).toBe(false);
+    });
+
+    test("only treats a 404 as a request that never ran", () => {
+      expect(isSessionExpired(httpError(404))).toBe(true);
+      expect(isSessionExpired(httpError(502))).toBe(false);
+      expect(isSessionExpired(new TypeError("fetch failed"))).toBe(false);
+    });
+  });
+
+  describe("ConnectionManager", () => {
+    test("exposes the started client through getClient", async () => {
+      const manager = new ConnectionManager(connect);
+
+      const client = await manager.start();
+
+      await expect(manager.getClient()).resolves.toBe(client);
+    });
+
+    test("getClient rejects before start", async () => {
+      const manager = new ConnectionManager(connect);
+
+      await expect(manager.getClient()).rejects.toThrow(
+        "Upstream connection has not been started"
+      );
+    });
+
+    test("getClient waits for a reconnect in progress", async () => {
+      const manager = new ConnectionManager(connect, { initialDelayMs: 1 });
+      const first = await manager.start();
+
+      first.onerror(httpError(404));
+      const client = await manager.getClient();
+
+      expect(client).toBe(clients[1]);
+      expect(connect).toHaveBeenCalledTimes(2);
+    });
+
+    test("getClient fails while reconnect attempts are failing", async () => {
+      const manager = new ConnectionManager(connect, { initialDelayMs: 1 });
+      const first = await manager.start();
+      connect
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockRejectedValueOnce(new TypeError("fetch failed"));
+
+      first.onerror(httpError(404));
+      await expect(manager.getClient()).rejects.toThrow("fetch failed");
+      await expect(manager.getClient()).rejects.toThrow("fetch failed");
+      const client = await manager.reconnect("test");
+
+      expect(connect).toHaveBeenCalledTimes(4);
+      await expect(manager.getClient()).resolves.toBe(client);
+    });
+
+    test("recover joins the reconnect a failed request started", async () => {
+      const manager = new ConnectionManager(connect, { initialDelayMs: 1 });
+      const first = await manager.start();
+
+      const [a, b] = await Promise.all([
+        manager.recover(first, httpError(404)),
+        manager.recover(first, httpError(404)),
+      ]);
+
+      expect(a).toBe(clients[1]);
+      expect(b).toBe(clients[1]);
+      expect(connect).toHaveBeenCalledTimes(2);
+      await expect(manager.recover(first, httpError(404))).resolves.toBe(
+        clients[1]
+      );
+      expect(connect).toHaveBeenCalledTimes(2);
+    });
+
+    test("ensureClient connects on first use", async () => {
+      const manager = new ConnectionManager(connect);
+      const onConnect = jest.fn();
+      manager.onConnect = onConnect;
+
+      const [first, second] = await Promise.all([
+        manager.ensureClient(),
+        manager.ensureClient(),
+      ]);
+
+      expect(connect).toHaveBeenCalledTimes(1);
+      expect(first).toBe(second);
+      await expect(manager.getClient()).resolves.toBe(first);
+      expect(onConnect).toHaveBeenCalledWith(first);
+    });
+
+    test("ensureClient retries after a failed first connection", async () => {
+      const manager = new ConnectionManager(connect);
+      connect.mockRejectedValueOnce(new TypeError("fetch failed"));
+
+      await expect(manager.ensureClient()).rejects.toThrow("fetch failed");
+      const client = await manager.ensureClient();
+
+      expect(connect).toHaveBeenCalledTimes(2);
+      expect(client).toBe(clients[0]);
+    });
+
+    test("swaps in a new client when the session expires", async () => {
+      const manager = new ConnectionManager(connect, { initialDelayMs: 1 });
+      const onConnect = jest.fn();
+      manager.onConnect = onConnect;
+      const first = await manager.start();
+
+      first.onerror(httpError(404));
+      await manager.reconnect("test");
+
+      await expect(manager.getClient()).resolves.toBe(clients[1]);
+      expect(first.close).toHaveBeenCalled();
+      expect(onConnect).toHaveBeenCalledWith(clients[1]);
+    });
+
+    test("reconnects when the upstream connection closes", async () => {
+      const manager = new ConnectionManager(connect, { initialDelayMs: 1 });
+      const first = await manager.start();
+
+      first.onclose();
+      await nextTick();
+
+      expect(connect).toHaveBeenCalledTimes(2);
+      await expect(manager.getClient()).resolves.toBe(clients[1]);
+    });
+
+    test("keeps the session after a server error", async () => {
+      const manager = new ConnectionManager(connect);
+      const first = await manager.start();
+
+      first.onerror(httpError(500));
+
+      expect(connect).toHaveBeenCalledTimes(1);
+      await expect(manager.getClient()).resolves.toBe(first);
+    });
+
+    test("keeps existing client error and close handlers", async () => {
+      const onerror = jest.fn();
+      connect.mockImplementationOnce(async () => {
+        const client = createClient("client-1");
+        client.onerror = onerror;
+        clients.push(client);
+        return client;
+      });
+      const manager = new ConnectionManager(connect);
+      const first = await manager.start();
+
+      first.onerror(new Error("Unauthorized"));
+
+      expect(onerror).toHaveBeenCalled();
+      expect(connect).toHaveBeenCalledTimes(1);
+    });
+
+    test("shares one attempt between concurrent failures", async () => {
+      const manager = new ConnectionManager(connect, { initialDelayMs: 1 });
+      const first = await manager.start();
+
+      first.onerror(httpError(404));
+      first.onerror(new TypeError("fetch failed"));
+      await manager.reconnect("test");
+
+      expect(connect).toHaveBeenCalledTimes(2);
+    });
+
+    test("ignores errors from replaced clients", async () => {
+      const manager = new ConnectionManager(connect, { initialDelayMs: 1 });
+      const first = await manager.start();
+      await manager.reconnect("test");
+
+      first.onerror(httpError(404));
+      first.onclose();
+      await nextTick();
+
+      expect(connect).toHaveBeenCalledTimes(2);
+    });
+
+    test("retries with backoff until the upstream is reachable", async () => {
+      connect
+        .mockImplementationOnce(async () => {
+          const client = createClient("client-1");
+          clients.push(client);
+          return client;
+        })
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockRejectedValueOnce(new TypeError("fetch failed"));
+      const manager = new ConnectionManager(connect, {
+        initialDelayMs: 1,
+        maxDelayMs: 2,
+      });
+      await manager.start();
+
+      const client = await manager.reconnect("test");
+
+      expect(connect).toHaveBeenCalledTimes(4);
+      await expect(manager.getClient()).resolves.toBe(client);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining("Reconnect attempt 2 failed: fetch failed")
+      );
+    });
+
+    test("gives up after maxAttempts", async () => {
+      const manager = new ConnectionManager(connect, {
+        initialDelayMs: 1,
+        maxAttempts: 2,
+      });
+      const first = await manager.start();
+      connect.mockRejectedValue(new TypeError("fetch failed"));
+
+      await expect(manager.reconnect("test")).rejects.toThrow("fetch failed");
+      expect(connect).toHaveBeenCalledTimes(3);
+      await expect(manager.getClient()).resolves.toBe(first);
+    });
+
+    test("restores resource subscriptions on the new client", async () => {
+      const manager = new ConnectionManager(connect, { initialDelayMs: 1 });
+      await manager.start();
+      manager.subscriptions.add("foundrole://tracker/board");
+      manager.subscriptions.add("foundrole://alerts");
+
+      const client = await manager.reconnect("test");
+
+      expect(client.subscribeResource).toHaveBeenCalledWith({
+        uri: "foundrole://tracker/board",
+      });
+      expect(client.subscribeResource).toHaveBeenCalledWith({
+        uri: "foundrole://alerts",
+      });
+    });
+
+    test("continues when a subscription cannot be restored", async () => {
+      const manager = new ConnectionManager(connect, { initialDelayMs: 1 });
+      const onConnect = jest.fn();
+      manager.onConnect = onConnect;
+      await manager.start();
+      manager.subscriptions.add("foundrole://gone");
+      connect.mockImplementationOnce(async () => {
+        const client = createClient("client-2");
+        client.subscribeResource.mockRejectedValue(new Error("Not found"));
+        clients.push(client);
+        return client;
+      });
+
+      await manager.reconnect("test");
+
+      expect(onConnect).toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith(
+        "[CONNECTION] Could not restore subscription to foundrole://gone:",
+        expect.any(Error)
+      );
+    });
+
+    test("does not reconnect after close", async () => {
+      const manager = new ConnectionManager(connect);
+      const first = await manager.start();
+
+      await manager.close();
+      first.onclose();
+
+      expect(first.close).toHaveBeenCalled();
+      await expect(manager.reconnect("test")).rejects.toThrow(
+        "Connection manager was closed"
+      );
+      expect(connect).toHaveBeenCalledTimes(1);
+    });
+  });
+});
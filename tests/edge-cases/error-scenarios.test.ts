@@ -82,12 +82,7 @@ describe("Error Scenarios and Edge Cases", () => {
         targetUrl: "https://nonexistent.domain.invalid/mcp",
       };
 
-      await expect(startProxy(config)).rejects.toThrow("ENOTFOUND");
-
-      expect(console.error).toHaveBeenCalledWith(
-        "Failed to connect to target MCP server:",
-        dnsError
-      );
+      await expect(startProxy(config)).rejects.toBe(dnsError);
     });
 
     test("handles connection timeout", async () => {
@@ -0,0 +1,89 @@
+/**
+ * filters functionality tests
+ * Tests glob patterns and allow/deny rules for tools, prompts and resources
+ */
+
+import { describe, expect, test } from "@jest/globals";
+
+import { createFilter, globToRegExp, isReadOnlyTool } from "../src/filters.js";
+
+describe("filters", () => {
+  describe("globToRegExp", () => {
+    test("matches the whole name", () => {
+      expect(globToRegExp("search").test("search")).toBe(true);
+      expect(globToRegExp("search").test("search_jobs")).toBe(false);
+    });
+
+    test("treats * as any run of characters and ? as one", () => {
+      expect(globToRegExp("search_*").test("search_jobs")).toBe(true);
+      expect(globToRegExp("jobs://*").test("jobs://open/123")).toBe(true);
+      expect(globToRegExp("job?").test("jobs")).toBe(true);
+      expect(globToRegExp("job?").test("job")).toBe(false);
+    });
+
+    test("matches other characters literally", () => {
+      expect(globToRegExp("file:///a.txt").test("file:///a.txt")).toBe(true);
+      expect(globToRegExp("file:///a.txt").test("file:///abtxt")).toBe(false);
+      expect(globToRegExp("jobs://{id}").test("jobs://{id}")).toBe(true);
+    });
+  });
+
+  describe("createFilter", () => {
+    test("allows everything without rules", () => {
+      expect(createFilter()("anything")).toBe(true);
+      expect(createFilter({})("anything")).toBe(true);
+    });
+
+    test("allows only names matching an allow pattern", () => {
+      const allowed = createFilter({ allow: ["search_*", "get_job"] });
+
+      expect(allowed("search_jobs")).toBe(true);
+      expect(allowed("get_job")).toBe(true);
+      expect(allowed("delete_profile")).toBe(false);
+    });
+
+    test("blocks names matching a deny pattern", () => {
+      const allowed = createFilter({ deny: ["delete_*"] });
+
+      expect(allowed("delete_profile")).toBe(false);
+      expect(allowed("search_jobs")).toBe(true);
+    });
+
+    test("lets deny win over allow", () => {
+      const allowed = createFilter({ allow: ["*"], deny: ["*_admin"] });
+
+      expect(allowed("search_admin")).toBe(false);
+      expect(allowed("search_jobs")).toBe(true);
+    });
+
+    test("blocks everything with an empty allow list", () => {
+      expect(createFilter({ allow: [] })("search_jobs")).toBe(false);
+    });
+  });
+
+  describe("isReadOnlyTool", () => {
+    test("lets through tools marked read-only", () => {
+      expect(
+        isReadOnlyTool({ annotations: { readOnlyHint: true } }, "block")
+      ).toBe(true);
+    });
+
+    test("refuses tools that may modify data", () => {
+      for (const annotations of [
+        { readOnlyHint: false },
+        { destructiveHint: true },
+        { destructiveHint: false },
+        { destructiveHint: true, readOnlyHint: true },
+      ]) {
+        expect(isReadOnlyTool({ annotations }, "allow")).toBe(false);
+      }
+    });
+
+    test("follows the policy for tools without hints", () => {
+      for (const tool of [{}, { annotations: { title: "Search jobs" } }]) {
+        expect(isReadOnlyTool(tool, "allow")).toBe(true);
+        expect(isReadOnlyTool(tool, "block")).toBe(false);
+      }
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tool schemas covering the JSON Schema features clients disagree on,
+ * shaped like what MCP servers list
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+// Optional and required properties, nested objects, arrays and enums
+export const searchJobs: Tool = {
+  description: "Search open jobs",
+  inputSchema: {
+    properties: {
+      filters: {
+        properties: {
+          remote: { type: "boolean" },
+          salary: {
+            properties: {
+              currency: { enum: ["EUR", "USD"], type: "string" },
+              minimum: { type: "number" },
+            },
+            required: ["minimum"],
+            type: "object",
+          },
+        },
+        type: "object",
+      },
+      locations: {
+        items: {
+          properties: {
+            city: { type: "string" },
+            radiusKm: { type: "integer" },
+          },
+          required: ["city"],
+          type: "object",
+        },
+        type: "array",
+      },
+      query: { description: "Keywords to search for", type: "string" },
+      seniority: { enum: ["junior", "senior"] },
+    },
+    required: ["query"],
+    type: "object",
+  },
+  name: "search_jobs",
+};
+
+// Definitions, references to them and a reference back into itself
+export const trackApplication: Tool = {
+  inputSchema: {
+    $defs: {
+      Company: {
+        properties: {
+          name: { type: "string" },
+          parent: { $ref: "#/$defs/Company" },
+        },
+        required: ["name"],
+        type: "object",
+      },
+      Stage: { enum: ["applied", "interview", "offer"], type: "string" },
+    },
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    properties: {
+      company: { $ref: "#/$defs/Company" },
+      stage: { $ref: "#/$defs/Stage", description: "Where it stands" },
+    },
+    required: ["company", "stage"],
+    type: "object",
+  },
+  name: "track_application",
+};
+
+// Every way of writing alternatives
+export const setReminder: Tool = {
+  inputSchema: {
+    properties: {
+      due: {
+        anyOf: [{ format: "date-time", type: "string" }, { type: "null" }],
+      },
+      note: { type: ["string", "null"] },
+      repeat: {
+        description: "How often",
+        oneOf: [{ type: "string" }, { type: "integer" }],
+      },
+      target: {
+        allOf: [
+          {
+            properties: { applicationId: { type: "string" } },
+            required: ["applicationId"],
+            type: "object",
+          },
+          { properties: { contact: { type: "string" } } },
+        ],
+      },
+    },
+    required: ["repeat"],
+    type: "object",
+  },
+  name: "set_reminder",
+};
+
+// A name and description longer than some clients allow
+export const longNamed: Tool = {
+  description: "Withdraws the application. ".repeat(60),
+  inputSchema: { type: "object" },
+  name: "withdraw_application_and_notify_recruiter_by_email",
+};
+
+export const FIXTURE_TOOLS = [
+  searchJobs,
+  trackApplication,
+  setReminder,
+  longNamed,
+];
@@ -33,6 +33,7 @@ jest.mock("../src/constants.js", () => ({
 }));
 
 import { main, startProxy } from "../src/index.js";
+import { DEFAULT_LOG_LEVEL, getLogLevel, setLogLevel } from "../src/logger.js";
 
 describe("index Tests", () => {
   beforeEach(() => {
@@ -73,10 +74,75 @@ describe("index Tests", () => {
       );
       expect(console.error).toHaveBeenCalledWith("Debug mode: enabled");
       expect(console.error).toHaveBeenCalledWith(
-        "AI Job Search MCP server started successfully"
+        "Waiting for an MCP client on stdio before connecting to https://api.example.com/mcp"
       );
     });
 
+    test("passes the configured profile to the stdio server", async () => {
+      const config = {
+        debugMode: false,
+        profile: "recruiter",
+        targetUrl: "https://api.example.com/mcp",
+      };
+
+      await startProxy(config);
+
+      expect(mockStartStdioServer).toHaveBeenCalledWith({
+        profile: "recruiter",
+        url: "https://api.example.com/mcp",
+      });
+      expect(console.error).toHaveBeenCalledWith("Profile: recruiter");
+    });
+
+    test("applies the configured log level", async () => {
+      await startProxy({
+        debugMode: true,
+        logLevel: "trace",
+        targetUrl: "https://api.example.com/mcp",
+      });
+
+      expect(getLogLevel()).toBe("trace");
+      expect(console.error).toHaveBeenCalledWith("Log level: trace");
+      setLogLevel(DEFAULT_LOG_LEVEL);
+    });
+
+    test("leaves out the startup banner below info", async () => {
+      await startProxy({
+        debugMode: false,
+        logLevel: "warn",
+        targetUrl: "https://api.example.com/mcp",
+      });
+
+      expect(console.error).not.toHaveBeenCalled();
+      setLogLevel(DEFAULT_LOG_LEVEL);
+    });
+
+    test("logs at debug level in debug mode", async () => {
+      await startProxy({
+        debugMode: true,
+        targetUrl: "https://api.example.com/mcp",
+      });
+
+      expect(getLogLevel()).toBe("debug");
+      setLogLevel(DEFAULT_LOG_LEVEL);
+    });
+
+    test("passes lazy connect to the stdio server", async () => {
+      const config = {
+        debugMode: false,
+        lazyConnect: true,
+        targetUrl: "https://api.example.com/mcp",
+      };
+
+      await startProxy(config);
+
+      expect(mockStartStdioServer).toHaveBeenCalledWith({
+        lazyConnect: true,
+        url: "https://api.example.com/mcp",
+      });
+      expect(console.error).toHaveBeenCalledWith("Lazy connect: enabled");
+    });
+
     test("logs debug mode disabled when false", async () => {
       const config = {
         debugMode: false,
@@ -156,15 +222,8 @@ describe("index Tests", () => {
 
       await expect(startProxy(config)).rejects.toThrow("Server startup failed");
 
-      expect(console.error).toHaveBeenCalledWith(
-        "Failed to connect to target MCP server:",
-        error
-      );
-      expect(console.error).toHaveBeenCalledWith(
-        "Please check that the target server at https://unreachable.com/mcp is accessible"
-      );
-      expect(console.error).toHaveBeenCalledWith(
-        "For debugging, try setting MCP_TARGET_URL to a local server"
+      expect(console.error).not.toHaveBeenCalledWith(
+        expect.stringContaining("Waiting for an MCP client")
       );
     });
 
@@ -180,10 +239,7 @@ describe("index Tests", () => {
         "Starting test-proxy (stdio -> HTTPStream)"
       );
       expect(console.error).toHaveBeenCalledWith(
-        "AI Job Search MCP server started successfully"
-      );
-      expect(console.error).toHaveBeenCalledWith(
-        "Ready to accept MCP client connections via stdio"
+        "Waiting for an MCP client on stdio before connecting to https://example.com/mcp"
       );
       expect(console.error).toHaveBeenCalledWith(
         "Original client info will be forwarded to backend"
@@ -273,9 +329,8 @@ describe("index Tests", () => {
       await expect(startProxy(config)).resolves.not.toThrow();
     });
 
-    test("provides helpful error messages", async () => {
-      const networkError = new Error("ENOTFOUND");
-      mockStartStdioServer.mockRejectedValue(networkError);
+    test("leaves reporting a failed start to its caller", async () => {
+      mockStartStdioServer.mockRejectedValue(new Error("ENOTFOUND"));
 
       const config = {
         debugMode: false,
@@ -284,12 +339,9 @@ describe("index Tests", () => {
 
       await expect(startProxy(config)).rejects.toThrow("ENOTFOUND");
 
-      expect(console.error).toHaveBeenCalledWith(
-        "Failed to connect to target MCP server:",
-        networkError
-      );
-      expect(console.error).toHaveBeenCalledWith(
-        "Please check that the target server at https://nonexistent.example.com/mcp is accessible"
+      expect(console.error).not.toHaveBeenCalledWith(
+        expect.stringContaining("Failed to connect"),
+        expect.anything()
       );
     });
   });
@@ -0,0 +1,53 @@
+/**
+ * install-manifest functionality tests
+ * Tests the record of entries the install command added
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, test } from "@jest/globals";
+
+import { InstallManifest } from "../src/install-manifest.js";
+
+const ENTRY = { args: ["@foundrole/ai-job-search-mcp@latest"], command: "npx" };
+
+describe("install-manifest Tests", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "install-manifest-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { force: true, recursive: true });
+  });
+
+  test("is empty before the first install", () => {
+    expect(new InstallManifest({ directory }).readAll()).toEqual({});
+  });
+
+  test("records and forgets entries per config file", () => {
+    const manifest = new InstallManifest({ directory });
+
+    manifest.record("/a/mcp.json", { client: "cursor", entry: ENTRY });
+    manifest.record("/b/mcp.json", { client: "lm-studio", entry: ENTRY });
+    manifest.forget("/a/mcp.json");
+
+    expect(new InstallManifest({ directory }).readAll()).toEqual({
+      "/b/mcp.json": {
+        client: "lm-studio",
+        entry: ENTRY,
+        installedAt: expect.any(Number),
+      },
+    });
+  });
+
+  test("ignores an unreadable manifest", () => {
+    const manifest = new InstallManifest({ directory });
+    fs.writeFileSync(manifest.filePath, "not json");
+
+    expect(manifest.readAll()).toEqual({});
+  });
+});
@@ -116,6 +116,7 @@ jest.mock("@modelcontextprotocol/sdk/client/streamableHttp.js", () => ({
 jest.mock("@modelcontextprotocol/sdk/types.js", () => ({
   CallToolRequestSchema: { method: "tools/call", type: "request" },
   CompleteRequestSchema: { method: "completion/complete", type: "request" },
+  ErrorCode: { InternalError: -32603, RequestTimeout: -32001 },
   GetPromptRequestSchema: { method: "prompts/get", type: "request" },
   InitializedNotificationSchema: {
     method: "notifications/initialized",
@@ -132,6 +133,7 @@ jest.mock("@modelcontextprotocol/sdk/types.js", () => ({
     method: "notifications/message",
     type: "notification",
   },
+  McpError: class McpError extends Error {},
   ProgressNotificationSchema: {
     method: "notifications/progress",
     type: "notification",
@@ -187,6 +189,16 @@ import {
 
 import { proxyServer } from "../../src/proxy-server.js";
 
+// Request handler context the SDK passes alongside each downstream request
+const requestExtra = {
+  sendNotification: jest.fn().mockResolvedValue(undefined),
+  signal: new AbortController().signal,
+};
+// The downstream signal is combined with the request's own deadline
+const forwardedOptions = expect.objectContaining({
+  signal: expect.any(AbortSignal),
+});
+
 // Mock the stdio server function to avoid complex client construction
 const mockStartStdioServer = jest.fn().mockImplementation(async ({ url }) => {
   // Simulate the behavior of the real function
@@ -299,9 +311,13 @@ describe("Proxy Flow Integration Tests", () => {
         (call) => call[0] === CallToolRequestSchema
       )[1];
 
-      const response = await requestHandler(toolRequest);
+      const response = await requestHandler(toolRequest, requestExtra);
 
-      expect(mockClient.callTool).toHaveBeenCalledWith(toolRequest.params);
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        toolRequest.params,
+        undefined,
+        forwardedOptions
+      );
       expect(response).toEqual(expectedResponse);
     });
 
@@ -341,10 +357,11 @@ describe("Proxy Flow Integration Tests", () => {
         (call) => call[0] === ReadResourceRequestSchema
       )[1];
 
-      const response = await requestHandler(resourceRequest);
+      const response = await requestHandler(resourceRequest, requestExtra);
 
       expect(mockClient.readResource).toHaveBeenCalledWith(
-        resourceRequest.params
+        resourceRequest.params,
+        forwardedOptions
       );
       expect(response).toEqual(expectedResponse);
     });
@@ -385,10 +402,11 @@ describe("Proxy Flow Integration Tests", () => {
         (call) => call[0] === ListToolsRequestSchema
       )[1];
 
-      const response = await requestHandler(listToolsRequest);
+      const response = await requestHandler(listToolsRequest, requestExtra);
 
       expect(mockClient.listTools).toHaveBeenCalledWith(
-        listToolsRequest.params
+        listToolsRequest.params,
+        forwardedOptions
       );
       expect(response).toEqual(expectedResponse);
     });
@@ -512,11 +530,15 @@ describe("Proxy Flow Integration Tests", () => {
         (call) => call[0] === CallToolRequestSchema
       )[1];
 
-      await expect(requestHandler(toolRequest)).rejects.toThrow(
+      await expect(requestHandler(toolRequest, requestExtra)).rejects.toThrow(
         "Target server error"
       );
 
-      expect(mockClient.callTool).toHaveBeenCalledWith(toolRequest.params);
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        toolRequest.params,
+        undefined,
+        forwardedOptions
+      );
     });
 
     test("handles notification error from target server", async () => {
@@ -569,9 +591,13 @@ describe("Proxy Flow Integration Tests", () => {
         (call) => call[0] === CallToolRequestSchema
       )[1];
 
-      await requestHandler(malformedRequest);
+      await requestHandler(malformedRequest, requestExtra);
 
-      expect(mockClient.callTool).toHaveBeenCalledWith(null);
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        null,
+        undefined,
+        forwardedOptions
+      );
     });
   });
 
@@ -649,10 +675,10 @@ describe("Proxy Flow Integration Tests", () => {
 
       // Execute requests concurrently
       const responses = await Promise.all([
-        listToolsHandler(requests[0]),
-        listResourcesHandler(requests[1]),
-        callToolHandler(requests[2]),
-        callToolHandler(requests[3]),
+        listToolsHandler(requests[0], requestExtra),
+        listResourcesHandler(requests[1], requestExtra),
+        callToolHandler(requests[2], requestExtra),
+        callToolHandler(requests[3], requestExtra),
       ]);
 
       expect(responses).toHaveLength(4);
@@ -716,10 +742,14 @@ describe("Proxy Flow Integration Tests", () => {
         (call) => call[0] === CallToolRequestSchema
       )[1];
 
-      const response = await requestHandler(complexRequest);
+      const response = await requestHandler(complexRequest, requestExtra);
 
       // Verify exact data preservation
-      expect(mockClient.callTool).toHaveBeenCalledWith(complexRequest.params);
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        complexRequest.params,
+        undefined,
+        forwardedOptions
+      );
       expect(response).toEqual(expectedResponse);
     });
 
@@ -796,11 +826,12 @@ describe("Proxy Flow Integration Tests", () => {
         (call) => call[0] === ReadResourceRequestSchema
       )[1];
 
-      const response = await requestHandler(binaryRequest);
+      const response = await requestHandler(binaryRequest, requestExtra);
 
       expect(response).toEqual(binaryResponse);
       expect(mockClient.readResource).toHaveBeenCalledWith(
-        binaryRequest.params
+        binaryRequest.params,
+        forwardedOptions
       );
     });
   });
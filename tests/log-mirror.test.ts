@@ -0,0 +1,133 @@
+/**
+ * log-mirror functionality tests
+ * Tests relaying proxy log records to the client as MCP log messages
+ */
+
+import { afterEach, describe, expect, jest, test } from "@jest/globals";
+
+import { LogMirror } from "../src/log-mirror.js";
+import { createLogger, DEFAULT_LOG_LEVEL, setLogLevel } from "../src/logger.js";
+
+const createServer = () => ({
+  sendLoggingMessage: jest.fn(async (_params: unknown) => undefined),
+});
+
+describe("LogMirror Tests", () => {
+  let mirror: LogMirror | undefined;
+
+  const startMirror = (server: ReturnType<typeof createServer>) => {
+    mirror = new LogMirror(server as any);
+    mirror.start();
+    return mirror;
+  };
+
+  afterEach(() => {
+    mirror?.stop();
+    mirror = undefined;
+    setLogLevel(DEFAULT_LOG_LEVEL);
+  });
+
+  test("sends records as MCP log messages", () => {
+    const server = createServer();
+    startMirror(server);
+
+    createLogger("RECONNECT").warn("Upstream connection lost", {
+      attempt: 2,
+    });
+
+    expect(server.sendLoggingMessage).toHaveBeenCalledWith({
+      data: {
+        attempt: 2,
+        msg: "Upstream connection lost",
+        time: expect.any(String),
+      },
+      level: "warning",
+      logger: "RECONNECT",
+    });
+  });
+
+  test("serializes errors", () => {
+    const server = createServer();
+    startMirror(server);
+
+    createLogger("PROXY").error("Failed to connect:", {
+      error: new Error("fetch failed"),
+    });
+
+    expect(server.sendLoggingMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          error: expect.objectContaining({ message: "fetch failed" }),
+          msg: "Failed to connect",
+        }),
+        level: "error",
+      })
+    );
+  });
+
+  test("follows the local level until the client sets one", () => {
+    setLogLevel("warn");
+    const server = createServer();
+    const started = startMirror(server);
+    const log = createLogger("TEST");
+
+    log.info("hidden");
+    expect(server.sendLoggingMessage).not.toHaveBeenCalled();
+
+    started.setLevel("debug");
+    log.debug("shown");
+    expect(server.sendLoggingMessage).toHaveBeenCalledTimes(1);
+  });
+
+  test("drops records below the level the client set", () => {
+    const server = createServer();
+    startMirror(server).setLevel("error");
+
+    createLogger("TEST").warn("ignored");
+
+    expect(server.sendLoggingMessage).not.toHaveBeenCalled();
+  });
+
+  test("keeps trace records local", () => {
+    setLogLevel("trace");
+    const server = createServer();
+    startMirror(server).setLevel("debug");
+
+    createLogger("TEST").trace("Downstream message");
+
+    expect(server.sendLoggingMessage).not.toHaveBeenCalled();
+  });
+
+  test("queues records until started", () => {
+    const server = createServer();
+    mirror = new LogMirror(server as any);
+
+    createLogger("CLIENT-DETECTOR").info("Using client identity: x@1");
+    expect(server.sendLoggingMessage).not.toHaveBeenCalled();
+
+    mirror.start();
+    expect(server.sendLoggingMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ msg: "Using client identity: x@1" }),
+      })
+    );
+  });
+
+  test("stops sending once stopped", () => {
+    const server = createServer();
+    startMirror(server).stop();
+
+    createLogger("TEST").error("after close");
+
+    expect(server.sendLoggingMessage).not.toHaveBeenCalled();
+  });
+
+  test("ignores failures to send", async () => {
+    const server = createServer();
+    server.sendLoggingMessage.mockRejectedValue(new Error("Not connected"));
+    startMirror(server);
+
+    expect(() => createLogger("TEST").warn("lost")).not.toThrow();
+    await new Promise((resolve) => setImmediate(resolve));
+  });
+});
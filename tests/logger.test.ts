@@ -0,0 +1,221 @@
+/**
+ * logger functionality tests
+ * Tests level filtering, record formats, log file rotation and sinks
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  jest,
+  test,
+} from "@jest/globals";
+
+import {
+  addLogSink,
+  configureLogger,
+  createLogger,
+  DEFAULT_LOG_LEVEL,
+  getLogLevel,
+  isLevelEnabled,
+  setLogLevel,
+} from "../src/logger.js";
+
+const lastJsonRecord = () =>
+  JSON.parse(
+    (console.error as jest.Mock).mock.calls.at(-1)?.[0] as string
+  ) as Record<string, unknown>;
+
+describe("logger Tests", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "logger-"));
+  });
+
+  afterEach(() => {
+    configureLogger({ format: "human", level: DEFAULT_LOG_LEVEL });
+    fs.rmSync(directory, { force: true, recursive: true });
+  });
+
+  describe("levels", () => {
+    test("defaults to info", () => {
+      expect(getLogLevel()).toBe("info");
+      expect(isLevelEnabled("warn")).toBe(true);
+      expect(isLevelEnabled("debug")).toBe(false);
+    });
+
+    test("drops records more verbose than the level", () => {
+      const log = createLogger("TEST");
+      setLogLevel("warn");
+
+      log.info("started");
+      log.debug("details");
+      log.error("failed");
+
+      expect(console.error).toHaveBeenCalledTimes(1);
+      expect(console.error).toHaveBeenCalledWith("[TEST] failed");
+    });
+
+    test("writes everything at trace", () => {
+      setLogLevel("trace");
+
+      createLogger("TEST").trace("step");
+
+      expect(console.error).toHaveBeenCalledWith("[TEST] step");
+    });
+  });
+
+  describe("human format", () => {
+    test("prefixes the component", () => {
+      createLogger("TEST").info("started");
+
+      expect(console.error).toHaveBeenCalledWith("[TEST] started");
+    });
+
+    test("omits the prefix without a component", () => {
+      createLogger().info("Target URL: https://example.com/mcp");
+
+      expect(console.error).toHaveBeenCalledWith(
+        "Target URL: https://example.com/mcp"
+      );
+    });
+
+    test("appends fields and passes the error through", () => {
+      const error = new Error("boom");
+
+      createLogger("TEST")
+        .child({ requestId: 7 })
+        .warn("tools/call failed", { durationMs: 12, error });
+
+      expect(console.error).toHaveBeenCalledWith(
+        "[TEST] tools/call failed (requestId=7, durationMs=12)",
+        error
+      );
+    });
+  });
+
+  describe("json format", () => {
+    beforeEach(() => {
+      configureLogger({ format: "json" });
+    });
+
+    test("writes one structured record per line", () => {
+      createLogger("TEST")
+        .child({ requestId: "abc" })
+        .info("tools/list completed", { durationMs: 3 });
+
+      expect(lastJsonRecord()).toEqual({
+        component: "TEST",
+        durationMs: 3,
+        level: "info",
+        msg: "tools/list completed",
+        requestId: "abc",
+        time: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      });
+    });
+
+    test("serializes errors and drops a trailing colon", () => {
+      createLogger("TEST").error("Failed to connect:", {
+        error: new TypeError("fetch failed"),
+      });
+
+      expect(lastJsonRecord()).toMatchObject({
+        error: { message: "fetch failed", name: "TypeError" },
+        msg: "Failed to connect",
+      });
+    });
+  });
+
+  describe("file output", () => {
+    test("appends timestamped lines to the log file", () => {
+      const file = path.join(directory, "logs", "proxy.log");
+      configureLogger({ file });
+
+      createLogger("TEST").warn("slow upstream", { durationMs: 900 });
+
+      expect(fs.readFileSync(file, "utf-8")).toMatch(
+        /^\S+Z WARN \[TEST\] slow upstream \(durationMs=900\)\n$/
+      );
+    });
+
+    test("rotates the file when it grows past the size limit", () => {
+      const file = path.join(directory, "proxy.log");
+      configureLogger({ file, format: "json", maxFileBytes: 200, maxFiles: 2 });
+      const log = createLogger("TEST");
+
+      for (let index = 0; index < 10; index++) {
+        log.info(`record ${index}`);
+      }
+
+      expect(fs.readdirSync(directory).sort()).toEqual([
+        "proxy.log",
+        "proxy.log.1",
+        "proxy.log.2",
+      ]);
+      expect(fs.readFileSync(file, "utf-8")).toContain("record 9");
+      expect(fs.statSync(file).size).toBeLessThanOrEqual(200);
+    });
+
+    test("keeps logging when the file cannot be written", () => {
+      fs.writeFileSync(path.join(directory, "blocked"), "");
+      configureLogger({ file: path.join(directory, "blocked", "proxy.log") });
+
+      expect(() => createLogger("TEST").info("started")).not.toThrow();
+      expect(console.error).toHaveBeenCalledWith("[TEST] started");
+    });
+  });
+
+  describe("sinks", () => {
+    test("receive records below the stderr level", () => {
+      const sink = jest.fn();
+      const remove = addLogSink(sink);
+      setLogLevel("warn");
+
+      createLogger("TEST").debug("details", { requestId: 3 });
+      remove();
+
+      expect(console.error).not.toHaveBeenCalled();
+      expect(sink).toHaveBeenCalledWith(
+        expect.objectContaining({
+          component: "TEST",
+          level: "debug",
+          msg: "details",
+          requestId: 3,
+        })
+      );
+    });
+
+    test("stop receiving records once removed", () => {
+      const sink = jest.fn();
+      addLogSink(sink)();
+
+      createLogger("TEST").info("started");
+
+      expect(sink).not.toHaveBeenCalled();
+    });
+
+    test("cannot break logging when they throw", () => {
+      const remove = addLogSink(() => {
+        throw new Error("broken");
+      });
+
+      expect(() => createLogger("TEST").info("started")).not.toThrow();
+      remove();
+      expect(console.error).toHaveBeenCalledWith("[TEST] started");
+    });
+  });
+
+  test("never throws when stderr is broken", () => {
+    console.error = jest.fn(() => {
+      throw new Error("EPIPE");
+    });
+
+    expect(() => createLogger("TEST").error("failed")).not.toThrow();
+  });
+});
@@ -232,23 +232,67 @@ export const SetLevelRequestSchema = {
   type: "request",
 };
 
+export const CreateMessageRequestSchema = {
+  method: "sampling/createMessage",
+  type: "request",
+};
+
+export const ElicitRequestSchema = {
+  method: "elicitation/create",
+  type: "request",
+};
+
+export const ListRootsRequestSchema = {
+  method: "roots/list",
+  type: "request",
+};
+
+export const RootsListChangedNotificationSchema = {
+  method: "notifications/roots/list_changed",
+  type: "notification",
+};
+
+export const ErrorCode = {
+  InternalError: -32603,
+  InvalidParams: -32602,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  RequestTimeout: -32001,
+};
+
+export class McpError extends Error {
+  constructor(
+    public code: number,
+    message: string,
+    public data?: unknown
+  ) {
+    super(`MCP error ${code}: ${message}`);
+  }
+}
+
 // Export default mocks for different import patterns
 export default {
   CallToolRequestSchema,
   Client,
   CompleteRequestSchema,
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ErrorCode,
   GetPromptRequestSchema,
   InitializedNotificationSchema,
   ListPromptsRequestSchema,
   ListResourcesRequestSchema,
   ListResourceTemplatesRequestSchema,
+  ListRootsRequestSchema,
   ListToolsRequestSchema,
   LoggingMessageNotificationSchema,
+  McpError,
   ProgressNotificationSchema,
   PromptListChangedNotificationSchema,
   ReadResourceRequestSchema,
   ResourceListChangedNotificationSchema,
   ResourceUpdatedNotificationSchema,
+  RootsListChangedNotificationSchema,
   Server,
   SetLevelRequestSchema,
   StdioServerTransport,
@@ -0,0 +1,60 @@
+/**
+ * names functionality tests
+ * Tests mapping tool and prompt names between upstream and the client
+ */
+
+import { describe, expect, test } from "@jest/globals";
+
+import { createNameMap, isValidName } from "../src/names.js";
+
+describe("names", () => {
+  describe("isValidName", () => {
+    test("accepts letters, digits, _ and - up to 64 characters", () => {
+      expect(isValidName("foundrole_search-jobs2")).toBe(true);
+      expect(isValidName("a".repeat(64))).toBe(true);
+    });
+
+    test("refuses longer names and other characters", () => {
+      expect(isValidName("a".repeat(65))).toBe(false);
+      expect(isValidName("search.jobs")).toBe(false);
+      expect(isValidName("search jobs")).toBe(false);
+      expect(isValidName("")).toBe(false);
+    });
+  });
+
+  describe("createNameMap", () => {
+    test("leaves names alone without rules", () => {
+      const map = createNameMap();
+
+      expect(map.toClient("search")).toBe("search");
+      expect(map.toUpstream("search")).toBe("search");
+    });
+
+    test("adds and strips the prefix", () => {
+      const map = createNameMap({ prefix: "foundrole_" });
+
+      expect(map.toClient("search_jobs")).toBe("foundrole_search_jobs");
+      expect(map.toUpstream("foundrole_search_jobs")).toBe("search_jobs");
+      expect(map.toUpstream("search_jobs")).toBeUndefined();
+    });
+
+    test("uses a rename in place of the prefix", () => {
+      const map = createNameMap({
+        prefix: "foundrole_",
+        rename: { get_details: "job_details" },
+      });
+
+      expect(map.toClient("get_details")).toBe("job_details");
+      expect(map.toUpstream("job_details")).toBe("get_details");
+      expect(map.toUpstream("foundrole_get_details")).toBeUndefined();
+    });
+
+    test("does not map a taken name back to a second upstream name", () => {
+      const map = createNameMap({ rename: { find: "search" } });
+
+      expect(map.toClient("search")).toBe("search");
+      expect(map.toUpstream("search")).toBe("find");
+      expect(map.toUpstream("find")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * oauth-callback functionality tests
+ * Tests the loopback listener that receives the OAuth redirect
+ */
+
+import { describe, expect, test } from "@jest/globals";
+
+import { listenForOAuthCallback } from "../src/oauth-callback.js";
+
+import { getFreePort } from "./utils/oauth-server.js";
+
+const startListener = async (timeoutMs = 5000) => {
+  const port = await getFreePort();
+  const listener = await listenForOAuthCallback({
+    host: "127.0.0.1",
+    path: "/oauth/callback",
+    port,
+    state: "expected-state",
+    timeoutMs,
+  });
+  return { baseUrl: `http://127.0.0.1:${port}`, listener };
+};
+
+describe("oauth-callback Tests", () => {
+  test("resolves with the authorization code", async () => {
+    const { baseUrl, listener } = await startListener();
+
+    const response = await fetch(
+      `${baseUrl}/oauth/callback?code=abc&state=expected-state`
+    );
+
+    expect(response.status).toBe(200);
+    await expect(listener.code).resolves.toBe("abc");
+  });
+
+  test("ignores redirects with a mismatched state", async () => {
+    const { baseUrl, listener } = await startListener();
+
+    const forged = await fetch(
+      `${baseUrl}/oauth/callback?code=evil&state=other-state`
+    );
+    const genuine = await fetch(
+      `${baseUrl}/oauth/callback?code=abc&state=expected-state`
+    );
+
+    expect(forged.status).toBe(400);
+    expect(genuine.status).toBe(200);
+    await expect(listener.code).resolves.toBe("abc");
+  });
+
+  test("rejects when the authorization server returns an error", async () => {
+    const { baseUrl, listener } = await startListener();
+
+    await fetch(
+      `${baseUrl}/oauth/callback?error=access_denied&error_description=User%20cancelled&state=expected-state`
+    );
+
+    await expect(listener.code).rejects.toThrow(
+      "Authorization failed: access_denied (User cancelled)"
+    );
+  });
+
+  test("ignores errors with a mismatched state", async () => {
+    const { baseUrl, listener } = await startListener();
+
+    const forged = await fetch(
+      `${baseUrl}/oauth/callback?error=access_denied&state=other-state`
+    );
+    await fetch(`${baseUrl}/oauth/callback?code=abc&state=expected-state`);
+
+    expect(forged.status).toBe(400);
+    await expect(listener.code).resolves.toBe("abc");
+  });
+
+  test("rejects when the redirect has no code", async () => {
+    const { baseUrl, listener } = await startListener();
+
+    await fetch(`${baseUrl}/oauth/callback?state=expected-state`);
+
+    await expect(listener.code).rejects.toThrow(
+      "Authorization response did not include a code"
+    );
+  });
+
+  test("returns 404 for other paths", async () => {
+    const { baseUrl, listener } = await startListener();
+
+    const response = await fetch(`${baseUrl}/favicon.ico`);
+
+    expect(response.status).toBe(404);
+    await listener.close();
+  });
+
+  test("times out when the user never completes sign-in", async () => {
+    const { listener } = await startListener(50);
+
+    await expect(listener.code).rejects.toThrow(
+      "Timed out waiting for the FoundRole sign-in to finish"
+    );
+  });
+
+  test("fails to start when the port is already in use", async () => {
+    const { baseUrl, listener } = await startListener();
+    const port = Number(new URL(baseUrl).port);
+
+    await expect(
+      listenForOAuthCallback({
+        host: "127.0.0.1",
+        path: "/oauth/callback",
+        port,
+        state: "s",
+        timeoutMs: 1000,
+      })
+    ).rejects.toThrow("EADDRINUSE");
+    await listener.close();
+  });
+});
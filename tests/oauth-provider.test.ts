@@ -0,0 +1,423 @@
+/**
+ * oauth-provider functionality tests
+ * Drives the SDK OAuth flow against a local stand-in authorization server
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  jest,
+  test,
+} from "@jest/globals";
+
+// The SDK auth module needs the real protocol schemas
+jest.unmock("@modelcontextprotocol/sdk/types.js");
+
+import { UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js";
+
+import {
+  enableInteractiveAuth,
+  ProxyOAuthProvider,
+  signIn,
+} from "../src/oauth-provider.js";
+import { TokenStore } from "../src/token-store.js";
+
+import type { StandInAuthServer } from "./utils/oauth-server.js";
+import { getFreePort, startStandInAuthServer } from "./utils/oauth-server.js";
+
+// Simulates the user's browser: follows the authorization redirect to the
+// loopback listener
+const browser = async (url: URL) => {
+  await fetch(url);
+};
+
+describe("oauth-provider Tests", () => {
+  let authServer: StandInAuthServer;
+  let callbackPort: number;
+
+  beforeEach(async () => {
+    authServer = await startStandInAuthServer();
+    callbackPort = await getFreePort();
+  });
+
+  afterEach(async () => {
+    await authServer.close();
+  });
+
+  describe("ProxyOAuthProvider", () => {
+    test("uses a loopback redirect URL on the configured port", () => {
+      const provider = new ProxyOAuthProvider({ callbackPort: 4567 });
+
+      expect(provider.redirectUrl).toBe("http://127.0.0.1:4567/oauth/callback");
+      expect(provider.clientMetadata).toMatchObject({
+        grant_types: ["authorization_code", "refresh_token"],
+        redirect_uris: ["http://127.0.0.1:4567/oauth/callback"],
+        token_endpoint_auth_method: "none",
+      });
+    });
+
+    test("generates a fresh state for each authorization", () => {
+      const provider = new ProxyOAuthProvider();
+
+      expect(provider.state()).not.toBe(provider.state());
+    });
+
+    test("throws when no code verifier was saved", () => {
+      const provider = new ProxyOAuthProvider();
+
+      expect(() => provider.codeVerifier()).toThrow(
+        "No PKCE code verifier saved"
+      );
+    });
+
+    test("invalidates only the requested credentials", async () => {
+      const provider = new ProxyOAuthProvider();
+      provider.saveClientInformation({ client_id: "abc" });
+      provider.saveTokens({ access_token: "t", token_type: "Bearer" });
+
+      provider.invalidateCredentials("tokens");
+
+      expect(await provider.tokens()).toBeUndefined();
+      expect(provider.clientInformation()).toEqual({ client_id: "abc" });
+    });
+
+    test("rejects waiting for a code when no sign-in is in progress", async () => {
+      const provider = new ProxyOAuthProvider();
+
+      await expect(provider.waitForAuthorizationCode()).rejects.toThrow(
+        "No FoundRole sign-in is in progress"
+      );
+    });
+  });
+
+  describe("signIn", () => {
+    test("discovers, registers, authorizes with PKCE and stores tokens", async () => {
+      const openBrowser = jest.fn(browser);
+      const provider = new ProxyOAuthProvider({ callbackPort, openBrowser });
+
+      await signIn(provider, authServer.mcpUrl);
+
+      expect(openBrowser).toHaveBeenCalledTimes(1);
+      const authorizationUrl = openBrowser.mock.calls[0]?.[0] as URL;
+      expect(authorizationUrl.origin).toBe(authServer.baseUrl);
+      expect(authorizationUrl.searchParams.get("code_challenge_method")).toBe(
+        "S256"
+      );
+
+      expect(authServer.registrations).toHaveLength(1);
+      expect(authServer.registrations[0]).toMatchObject({
+        redirect_uris: [provider.redirectUrl],
+      });
+      expect(provider.clientInformation()).toMatchObject({
+        client_id: "client-1",
+      });
+      expect(await provider.tokens()).toMatchObject({
+        access_token: "access-1",
+        refresh_token: "refresh-1",
+      });
+      expect(provider.isAuthorizing).toBe(false);
+    });
+
+    test("refreshes instead of prompting when a refresh token is stored", async () => {
+      const openBrowser = jest.fn(browser);
+      const provider = new ProxyOAuthProvider({ callbackPort, openBrowser });
+      await signIn(provider, authServer.mcpUrl);
+
+      await signIn(provider, authServer.mcpUrl);
+
+      expect(openBrowser).toHaveBeenCalledTimes(1);
+      expect(authServer.registrations).toHaveLength(1);
+      expect((await provider.tokens())?.access_token).toBe("access-2");
+    });
+
+    test("fails when the authorization server denies access", async () => {
+      const provider = new ProxyOAuthProvider({
+        callbackPort,
+        openBrowser: async (url) => {
+          const redirect = new URL(
+            url.searchParams.get("redirect_uri") as string
+          );
+          redirect.searchParams.set("error", "access_denied");
+          redirect.searchParams.set(
+            "state",
+            url.searchParams.get("state") as string
+          );
+          await fetch(redirect);
+        },
+      });
+
+      await expect(signIn(provider, authServer.mcpUrl)).rejects.toThrow(
+        "Authorization failed: access_denied"
+      );
+      expect(await provider.tokens()).toBeUndefined();
+    });
+
+    test("still completes when the browser cannot be opened", async () => {
+      let pendingUrl: URL | undefined;
+      const provider = new ProxyOAuthProvider({
+        callbackPort,
+        openBrowser: (url) => {
+          pendingUrl = url;
+          throw new Error("no display");
+        },
+      });
+
+      const signingIn = signIn(provider, authServer.mcpUrl);
+      while (!pendingUrl) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+      await browser(pendingUrl);
+      await signingIn;
+
+      expect(console.error).toHaveBeenCalledWith(
+        "[OAUTH] Could not open browser: Error: no display"
+      );
+      expect((await provider.tokens())?.access_token).toBe("access-1");
+    });
+  });
+
+  describe("persistence and refresh", () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "oauth-provider-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { force: true, recursive: true });
+    });
+
+    const createStore = () =>
+      new TokenStore({ directory, serverUrl: authServer.mcpUrl });
+
+    test("restores a sign-in from the token store", async () => {
+      const openBrowser = jest.fn(browser);
+      await signIn(
+        new ProxyOAuthProvider({
+          callbackPort,
+          openBrowser,
+          store: createStore(),
+        }),
+        authServer.mcpUrl
+      );
+
+      const restored = new ProxyOAuthProvider({
+        callbackPort,
+        openBrowser,
+        store: createStore(),
+      });
+
+      expect(await restored.tokens()).toMatchObject({
+        access_token: "access-1",
+      });
+      expect(restored.clientInformation()).toMatchObject({
+        client_id: "client-1",
+      });
+      expect(restored.expiresAt).toBeGreaterThan(Date.now());
+      expect(openBrowser).toHaveBeenCalledTimes(1);
+    });
+
+    test("refreshes the access token shortly before it expires", async () => {
+      await authServer.close();
+      authServer = await startStandInAuthServer({ expiresIn: 30 });
+      const store = createStore();
+      const provider = new ProxyOAuthProvider({
+        callbackPort,
+        openBrowser: browser,
+        store,
+      });
+      await signIn(provider, authServer.mcpUrl);
+
+      const [first, second] = await Promise.all([
+        provider.tokens(),
+        provider.tokens(),
+      ]);
+
+      expect(first?.access_token).toBe("access-2");
+      expect(second?.access_token).toBe("access-2");
+      expect(
+        authServer.tokenRequests.filter(
+          (request) => request.grant_type === "refresh_token"
+        )
+      ).toHaveLength(1);
+      expect(store.read().tokens?.access_token).toBe("access-2");
+    });
+
+    test("keeps the current tokens when the refresh is rejected", async () => {
+      const store = createStore();
+      const provider = new ProxyOAuthProvider({
+        callbackPort,
+        openBrowser: browser,
+        store,
+      });
+      await signIn(provider, authServer.mcpUrl);
+      store.update({
+        expiresAt: Date.now(),
+        tokens: {
+          access_token: "stale",
+          refresh_token: "unknown",
+          token_type: "Bearer",
+        },
+      });
+
+      const restored = new ProxyOAuthProvider({ callbackPort, store });
+
+      expect((await restored.tokens())?.access_token).toBe("stale");
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining("[OAUTH] Token refresh failed")
+      );
+    });
+
+    test("removes invalidated credentials from the store", async () => {
+      const store = createStore();
+      const provider = new ProxyOAuthProvider({
+        callbackPort,
+        openBrowser: browser,
+        store,
+      });
+      await signIn(provider, authServer.mcpUrl);
+
+      provider.invalidateCredentials("tokens");
+
+      expect(store.read().tokens).toBeUndefined();
+      expect(store.read().expiresAt).toBeUndefined();
+      expect(store.read().clientInformation).toMatchObject({
+        client_id: "client-1",
+      });
+    });
+  });
+
+  describe("enableInteractiveAuth", () => {
+    const createTransport = () => ({
+      finishAuth: jest.fn(async (_code: string) => undefined),
+      send: jest.fn<(message: unknown, options?: unknown) => Promise<void>>(),
+    });
+
+    test("re-sends the message after the user completes sign-in", async () => {
+      const provider = new ProxyOAuthProvider();
+      const transport = createTransport();
+      const send = transport.send;
+      send
+        .mockRejectedValueOnce(new UnauthorizedError())
+        .mockResolvedValueOnce(undefined);
+      jest.spyOn(provider, "isAuthorizing", "get").mockReturnValue(true);
+      jest
+        .spyOn(provider, "waitForAuthorizationCode")
+        .mockResolvedValue("code-1");
+
+      enableInteractiveAuth(transport as any, provider);
+      await transport.send({ id: 1, jsonrpc: "2.0", method: "tools/call" });
+
+      expect(transport.finishAuth).toHaveBeenCalledWith("code-1");
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    test("shares one sign-in between concurrent unauthorized messages", async () => {
+      const provider = new ProxyOAuthProvider();
+      const transport = createTransport();
+      const send = transport.send;
+      send
+        .mockRejectedValueOnce(new UnauthorizedError())
+        .mockRejectedValueOnce(new UnauthorizedError())
+        .mockResolvedValue(undefined);
+      jest.spyOn(provider, "isAuthorizing", "get").mockReturnValue(true);
+      const wait = jest
+        .spyOn(provider, "waitForAuthorizationCode")
+        .mockResolvedValue("code-1");
+
+      enableInteractiveAuth(transport as any, provider);
+      await Promise.all([
+        transport.send({ id: 1, jsonrpc: "2.0", method: "tools/call" }),
+        transport.send({ id: 2, jsonrpc: "2.0", method: "tools/call" }),
+      ]);
+
+      expect(wait).toHaveBeenCalledTimes(1);
+      expect(transport.finishAuth).toHaveBeenCalledTimes(1);
+      expect(send).toHaveBeenCalledTimes(4);
+    });
+
+    test("holds deadlines while the user signs in", async () => {
+      const provider = new ProxyOAuthProvider();
+      const transport = createTransport();
+      transport.send
+        .mockRejectedValueOnce(new UnauthorizedError())
+        .mockResolvedValueOnce(undefined);
+      jest.spyOn(provider, "isAuthorizing", "get").mockReturnValue(true);
+      let signedIn: (code: string) => void = () => undefined;
+      jest.spyOn(provider, "waitForAuthorizationCode").mockReturnValue(
+        new Promise((resolve) => {
+          signedIn = resolve;
+        })
+      );
+      const release = jest.fn();
+      const hold = jest.fn(() => release);
+
+      enableInteractiveAuth(transport as any, provider, hold);
+      const sent = transport.send({
+        id: 1,
+        jsonrpc: "2.0",
+        method: "tools/call",
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(hold).toHaveBeenCalledTimes(1);
+      expect(release).not.toHaveBeenCalled();
+      signedIn("code-1");
+      await sent;
+      expect(release).toHaveBeenCalledTimes(1);
+    });
+
+    test("drops a request cancelled while the user signs in", async () => {
+      const provider = new ProxyOAuthProvider();
+      const transport = createTransport();
+      const send = transport.send;
+      send
+        .mockRejectedValueOnce(new UnauthorizedError())
+        .mockResolvedValue(undefined);
+      jest.spyOn(provider, "isAuthorizing", "get").mockReturnValue(true);
+      let signedIn: (code: string) => void = () => undefined;
+      jest.spyOn(provider, "waitForAuthorizationCode").mockReturnValue(
+        new Promise((resolve) => {
+          signedIn = resolve;
+        })
+      );
+
+      enableInteractiveAuth(transport as any, provider);
+      const sent = transport.send({
+        id: 1,
+        jsonrpc: "2.0",
+        method: "tools/call",
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+      await transport.send({
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { reason: "Request timed out", requestId: 1 },
+      });
+      signedIn("code-1");
+      await sent;
+
+      expect(transport.finishAuth).toHaveBeenCalledWith("code-1");
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    test("passes through errors that are not authorization failures", async () => {
+      const provider = new ProxyOAuthProvider();
+      const transport = createTransport();
+      transport.send.mockRejectedValueOnce(new Error("network down"));
+
+      enableInteractiveAuth(transport as any, provider);
+
+      await expect(
+        transport.send({ id: 1, jsonrpc: "2.0", method: "ping" })
+      ).rejects.toThrow("network down");
+      expect(transport.finishAuth).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -47,12 +47,19 @@ const mockClient = {
   readResource: jest.fn(async () => ({
     contents: [{ text: "Resource content", type: "text" }],
   })),
+  sendRootsListChanged: jest.fn(async () => void 0),
+  setLoggingLevel: jest.fn(async () => ({})),
   setNotificationHandler: jest.fn(),
+  setRequestHandler: jest.fn(),
   subscribeResource: jest.fn(async () => ({})),
   unsubscribeResource: jest.fn(async () => ({})),
 } as unknown as Client;
 
 const mockServer = {
+  createMessage: jest.fn(),
+  elicitInput: jest.fn(),
+  getClientCapabilities: jest.fn(),
+  listRoots: jest.fn(),
   notification: jest.fn(async () => void 0),
   setNotificationHandler: jest.fn(),
   setRequestHandler: jest.fn(),
@@ -62,6 +69,16 @@ const mockServer = {
 jest.mock("@modelcontextprotocol/sdk/types.js", () => ({
   CallToolRequestSchema: { method: "tools/call", type: "request" },
   CompleteRequestSchema: { method: "completion/complete", type: "request" },
+  CreateMessageRequestSchema: {
+    method: "sampling/createMessage",
+    type: "request",
+  },
+  ElicitRequestSchema: { method: "elicitation/create", type: "request" },
+  ErrorCode: {
+    InternalError: -32603,
+    InvalidParams: -32602,
+    RequestTimeout: -32001,
+  },
   GetPromptRequestSchema: { method: "prompts/get", type: "request" },
   ListPromptsRequestSchema: { method: "prompts/list", type: "request" },
   ListResourcesRequestSchema: { method: "resources/list", type: "request" },
@@ -69,17 +86,44 @@ jest.mock("@modelcontextprotocol/sdk/types.js", () => ({
     method: "resources/templates/list",
     type: "request",
   },
+  ListRootsRequestSchema: { method: "roots/list", type: "request" },
   ListToolsRequestSchema: { method: "tools/list", type: "request" },
   LoggingMessageNotificationSchema: {
     method: "notifications/message",
     type: "notification",
   },
+  McpError: class McpError extends Error {
+    constructor(
+      public code: number,
+      message: string,
+      public data?: unknown
+    ) {
+      super(`MCP error ${code}: ${message}`);
+    }
+  },
+  PromptListChangedNotificationSchema: {
+    method: "notifications/prompts/list_changed",
+    type: "notification",
+  },
   ReadResourceRequestSchema: { method: "resources/read", type: "request" },
+  ResourceListChangedNotificationSchema: {
+    method: "notifications/resources/list_changed",
+    type: "notification",
+  },
   ResourceUpdatedNotificationSchema: {
     method: "notifications/resources/updated",
     type: "notification",
   },
+  RootsListChangedNotificationSchema: {
+    method: "notifications/roots/list_changed",
+    type: "notification",
+  },
+  SetLevelRequestSchema: { method: "logging/setLevel", type: "request" },
   SubscribeRequestSchema: { method: "resources/subscribe", type: "request" },
+  ToolListChangedNotificationSchema: {
+    method: "notifications/tools/list_changed",
+    type: "notification",
+  },
   UnsubscribeRequestSchema: {
     method: "resources/unsubscribe",
     type: "request",
@@ -90,23 +134,55 @@ import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import {
   CallToolRequestSchema,
   CompleteRequestSchema,
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ErrorCode,
   GetPromptRequestSchema,
   ListPromptsRequestSchema,
   ListResourcesRequestSchema,
   ListResourceTemplatesRequestSchema,
+  ListRootsRequestSchema,
   ListToolsRequestSchema,
   LoggingMessageNotificationSchema,
+  McpError,
+  PromptListChangedNotificationSchema,
   ReadResourceRequestSchema,
+  ResourceListChangedNotificationSchema,
   ResourceUpdatedNotificationSchema,
+  RootsListChangedNotificationSchema,
+  SetLevelRequestSchema,
   SubscribeRequestSchema,
+  ToolListChangedNotificationSchema,
   UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
-import { proxyServer } from "../src/proxy-server.js";
+import { ConnectionManager } from "../src/connection-manager.js";
+import { CONFIRMATION_TIMEOUT_MS } from "../src/constants.js";
+import { DEFAULT_LOG_LEVEL, setLogLevel } from "../src/logger.js";
+import { holdUpstreamDeadlines, proxyServer } from "../src/proxy-server.js";
+
+// Request handler context the SDK passes alongside each downstream request
+const createExtra = (meta?: Record<string, unknown>) => ({
+  _meta: meta,
+  sendNotification: jest.fn(async () => void 0),
+  signal: new AbortController().signal,
+});
+
+// An upstream request that only settles when its deadline or the
+// downstream client aborts it
+const untilAborted = (options: { signal: AbortSignal }) =>
+  new Promise((_resolve, reject) => {
+    options.signal.addEventListener("abort", () => {
+      reject(options.signal.reason);
+    });
+  });
 
 describe("proxy-server Tests", () => {
+  let extra: ReturnType<typeof createExtra>;
+
   beforeEach(() => {
     jest.clearAllMocks();
+    extra = createExtra();
 
     // Restore mock implementations after clear
     (mockClient.getPrompt as jest.Mock).mockImplementation(async () => ({
@@ -143,6 +219,7 @@ describe("proxy-server Tests", () => {
 
   afterEach(() => {
     jest.clearAllMocks();
+    jest.useRealTimers();
   });
 
   describe("Logging Capabilities", () => {
@@ -276,9 +353,12 @@ describe("proxy-server Tests", () => {
       expect(getPromptHandler).toBeDefined();
 
       const promptArgs = { params: { arguments: {}, name: "test-prompt" } };
-      const result = await (getPromptHandler as any)(promptArgs);
+      const result = await (getPromptHandler as any)(promptArgs, extra);
 
-      expect(mockClient.getPrompt).toHaveBeenCalledWith(promptArgs.params);
+      expect(mockClient.getPrompt).toHaveBeenCalledWith(
+        promptArgs.params,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
       expect(result).toEqual({
         messages: [
           { content: { text: "Test prompt", type: "text" }, role: "user" },
@@ -304,9 +384,12 @@ describe("proxy-server Tests", () => {
       expect(listPromptsHandler).toBeDefined();
 
       const listArgs = { params: { cursor: "test" } };
-      const result = await (listPromptsHandler as any)(listArgs);
+      const result = await (listPromptsHandler as any)(listArgs, extra);
 
-      expect(mockClient.listPrompts).toHaveBeenCalledWith(listArgs.params);
+      expect(mockClient.listPrompts).toHaveBeenCalledWith(
+        listArgs.params,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
       expect(result).toEqual({
         prompts: [{ description: "Test prompt", name: "test-prompt" }],
       });
@@ -397,9 +480,12 @@ describe("proxy-server Tests", () => {
       expect(listResourcesHandler).toBeDefined();
 
       const listArgs = { params: { cursor: "test" } };
-      const result = await (listResourcesHandler as any)(listArgs);
+      const result = await (listResourcesHandler as any)(listArgs, extra);
 
-      expect(mockClient.listResources).toHaveBeenCalledWith(listArgs.params);
+      expect(mockClient.listResources).toHaveBeenCalledWith(
+        listArgs.params,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
       expect(result).toEqual({
         resources: [{ name: "Test Resource", uri: "test://resource" }],
       });
@@ -423,9 +509,12 @@ describe("proxy-server Tests", () => {
       expect(readResourceHandler).toBeDefined();
 
       const readArgs = { params: { uri: "test://resource" } };
-      const result = await (readResourceHandler as any)(readArgs);
+      const result = await (readResourceHandler as any)(readArgs, extra);
 
-      expect(mockClient.readResource).toHaveBeenCalledWith(readArgs.params);
+      expect(mockClient.readResource).toHaveBeenCalledWith(
+        readArgs.params,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
       expect(result).toEqual({
         contents: [{ text: "Resource content", type: "text" }],
       });
@@ -449,14 +538,79 @@ describe("proxy-server Tests", () => {
       expect(subscribeHandler).toBeDefined();
 
       const subscribeArgs = { params: { uri: "test://resource" } };
-      const result = await (subscribeHandler as any)(subscribeArgs);
+      const result = await (subscribeHandler as any)(subscribeArgs, extra);
 
       expect(mockClient.subscribeResource).toHaveBeenCalledWith(
-        subscribeArgs.params
+        subscribeArgs.params,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
       );
       expect(result).toEqual({});
     });
 
+    test("subscription handlers track subscribed URIs", async () => {
+      const serverCapabilities = { resources: { subscribe: true } };
+      const subscriptions = new Set<string>();
+
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities,
+        subscriptions,
+      });
+
+      const handlerFor = (schema: unknown) =>
+        (mockServer.setRequestHandler as jest.Mock).mock.calls.find(
+          (call: any[]) => call[0] === schema
+        )?.[1] as any;
+
+      await handlerFor(SubscribeRequestSchema)(
+        {
+          params: { uri: "test://a" },
+        },
+        extra
+      );
+      await handlerFor(SubscribeRequestSchema)(
+        {
+          params: { uri: "test://b" },
+        },
+        extra
+      );
+      await handlerFor(UnsubscribeRequestSchema)(
+        {
+          params: { uri: "test://a" },
+        },
+        extra
+      );
+
+      expect([...subscriptions]).toEqual(["test://b"]);
+    });
+
+    test("failed subscriptions are not tracked", async () => {
+      const serverCapabilities = { resources: { subscribe: true } };
+      const subscriptions = new Set<string>();
+      (mockClient.subscribeResource as jest.Mock).mockRejectedValueOnce(
+        new Error("Unknown resource")
+      );
+
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities,
+        subscriptions,
+      });
+
+      const subscribeHandler = (
+        mockServer.setRequestHandler as jest.Mock
+      ).mock.calls.find(
+        (call: any[]) => call[0] === SubscribeRequestSchema
+      )?.[1] as any;
+
+      await expect(
+        subscribeHandler({ params: { uri: "test://missing" } }, extra)
+      ).rejects.toThrow("Unknown resource");
+      expect(subscriptions.size).toBe(0);
+    });
+
     test("resource updated notification forwards to client", async () => {
       const serverCapabilities = { resources: { subscribe: true } };
 
@@ -522,9 +676,13 @@ describe("proxy-server Tests", () => {
       expect(callToolHandler).toBeDefined();
 
       const toolArgs = { params: { arguments: {}, name: "test-tool" } };
-      const result = await (callToolHandler as any)(toolArgs);
+      const result = await (callToolHandler as any)(toolArgs, extra);
 
-      expect(mockClient.callTool).toHaveBeenCalledWith(toolArgs.params);
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        toolArgs.params,
+        undefined,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
       expect(result).toEqual({
         content: [{ text: "Tool response", type: "text" }],
       });
@@ -548,9 +706,12 @@ describe("proxy-server Tests", () => {
       expect(listToolsHandler).toBeDefined();
 
       const listArgs = { params: { cursor: "test" } };
-      const result = await (listToolsHandler as any)(listArgs);
+      const result = await (listToolsHandler as any)(listArgs, extra);
 
-      expect(mockClient.listTools).toHaveBeenCalledWith(listArgs.params);
+      expect(mockClient.listTools).toHaveBeenCalledWith(
+        listArgs.params,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
       expect(result).toEqual({
         tools: [{ description: "Test tool", name: "test-tool" }],
       });
@@ -596,9 +757,12 @@ describe("proxy-server Tests", () => {
           ref: { name: "test", type: "ref/prompt" as const },
         },
       };
-      const result = await (completeHandler as any)(completeArgs);
+      const result = await (completeHandler as any)(completeArgs, extra);
 
-      expect(mockClient.complete).toHaveBeenCalledWith(completeArgs.params);
+      expect(mockClient.complete).toHaveBeenCalledWith(
+        completeArgs.params,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
       expect(result).toEqual({
         completion: {
           hasMore: false,
@@ -635,7 +799,7 @@ describe("proxy-server Tests", () => {
         (call: any[]) => call[0] === ListToolsRequestSchema
       )?.[1];
 
-      const result = await (listToolsHandler as any)({ params: {} });
+      const result = await (listToolsHandler as any)({ params: {} }, extra);
 
       expect(getClient).toHaveBeenCalled();
       expect(alternateClient.listTools).toHaveBeenCalled();
@@ -661,7 +825,7 @@ describe("proxy-server Tests", () => {
         (call: any[]) => call[0] === ListToolsRequestSchema
       )?.[1];
 
-      await (listToolsHandler as any)({ params: {} });
+      await (listToolsHandler as any)({ params: {} }, extra);
 
       expect(getClient).toHaveBeenCalled();
       expect(mockClient.listTools).toHaveBeenCalled();
@@ -680,109 +844,1498 @@ describe("proxy-server Tests", () => {
         (call: any[]) => call[0] === ListToolsRequestSchema
       )?.[1];
 
-      await (listToolsHandler as any)({ params: {} });
+      await (listToolsHandler as any)({ params: {} }, extra);
+
+      expect(mockClient.listTools).toHaveBeenCalled();
+    });
+
+    test("waits for an asynchronous getClient without a client", async () => {
+      const getClient = jest.fn(async () => mockClient) as jest.Mock<
+        () => Promise<Client>
+      >;
+
+      await proxyServer({
+        getClient,
+        server: mockServer,
+        serverCapabilities: { logging: {}, tools: {} },
+      });
+
+      const listToolsHandler = (
+        mockServer.setRequestHandler as jest.Mock
+      ).mock.calls.find(
+        (call: any[]) => call[0] === ListToolsRequestSchema
+      )?.[1];
+
+      await (listToolsHandler as any)({ params: {} }, extra);
 
       expect(mockClient.listTools).toHaveBeenCalled();
+      // Upstream notifications are left to whoever opens the connection
+      expect(mockClient.setNotificationHandler).not.toHaveBeenCalled();
     });
   });
 
-  describe("Complex Capability Combinations", () => {
-    test("handles all capabilities enabled", async () => {
-      const serverCapabilities = {
-        logging: {},
-        prompts: {},
-        resources: { subscribe: true },
-        tools: {},
+  describe("Reconnecting", () => {
+    const expired = () =>
+      Object.assign(new Error("Session not found"), { code: 404 });
+
+    const callTool = async () =>
+      (mockServer.setRequestHandler as jest.Mock).mock.calls.find(
+        (call: any[]) => call[0] === CallToolRequestSchema
+      )?.[1]({ method: "tools/call", params: { name: "test-tool" } }, extra);
+
+    test("sends a request made during a reconnect to the new client", async () => {
+      const dropped = {
+        ...mockClient,
+        callTool: jest.fn(async () => {
+          throw expired();
+        }),
+        close: jest.fn(async () => {}),
+      };
+      const replacement = { ...mockClient, close: jest.fn(async () => {}) };
+      const connection = new ConnectionManager(
+        jest
+          .fn()
+          .mockResolvedValueOnce(dropped)
+          .mockResolvedValueOnce(replacement),
+        { initialDelayMs: 1 }
+      );
+      await connection.start();
+      await proxyServer({
+        getClient: connection.getClient,
+        recover: connection.recover,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      // The upstream drops while no reconnect has started yet
+      const result = await callTool();
+
+      expect(result).toEqual({
+        content: [{ text: "Tool response", type: "text" }],
+      });
+      expect(dropped.callTool).toHaveBeenCalledTimes(1);
+      expect(replacement.callTool).toHaveBeenCalledTimes(1);
+      expect(dropped.close).toHaveBeenCalled();
+
+      // Later requests wait for the reconnect the drop started
+      dropped.onerror(expired());
+      await callTool();
+      expect(dropped.callTool).toHaveBeenCalledTimes(1);
+    });
+
+    test("retries a request only once", async () => {
+      const failing = {
+        ...mockClient,
+        callTool: jest.fn(async () => {
+          throw expired();
+        }),
       };
+      const recover = jest.fn(async () => failing);
+
+      await proxyServer({
+        client: failing,
+        recover,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      await expect(callTool()).rejects.toThrow("Session not found");
+      expect(recover).toHaveBeenCalledTimes(1);
+      expect(failing.callTool).toHaveBeenCalledTimes(2);
+    });
+
+    test("does not retry requests the upstream server refused", async () => {
+      const recover = jest.fn();
+      (mockClient.callTool as jest.Mock).mockRejectedValueOnce(
+        Object.assign(new Error("Bad request"), { code: 400 })
+      );
 
       await proxyServer({
         client: mockClient,
+        recover,
         server: mockServer,
-        serverCapabilities,
+        serverCapabilities: { tools: {} },
       });
 
-      // Should set up all handlers
-      expect(mockServer.setRequestHandler).toHaveBeenCalledTimes(10); // All request handlers
-      expect(mockServer.setNotificationHandler).toHaveBeenCalledTimes(2); // Logging + resource updates
-      expect(mockClient.setNotificationHandler).toHaveBeenCalledTimes(1); // Logging
+      await expect(callTool()).rejects.toThrow("Bad request");
+      expect(recover).not.toHaveBeenCalled();
     });
 
-    test("handles no capabilities", async () => {
-      const serverCapabilities = {};
+    test("does not repeat a tool call that may already have run", async () => {
+      const recover = jest.fn();
+      (mockClient.callTool as jest.Mock)
+        .mockRejectedValueOnce(
+          Object.assign(new Error("Gateway timeout"), { code: 504 })
+        )
+        .mockRejectedValueOnce(new TypeError("fetch failed"));
 
       await proxyServer({
         client: mockClient,
+        recover,
         server: mockServer,
-        serverCapabilities,
+        serverCapabilities: { tools: {} },
       });
 
-      // Should only set up completion handler
-      expect(mockServer.setRequestHandler).toHaveBeenCalledTimes(1);
-      expect(mockServer.setNotificationHandler).toHaveBeenCalledTimes(0);
-      expect(mockClient.setNotificationHandler).toHaveBeenCalledTimes(0);
+      await expect(callTool()).rejects.toThrow("Gateway timeout");
+      await expect(callTool()).rejects.toThrow("fetch failed");
+      expect(recover).not.toHaveBeenCalled();
+      expect(mockClient.callTool).toHaveBeenCalledTimes(2);
     });
 
-    test("handles resources without subscribe capability", async () => {
-      const serverCapabilities = { resources: {} };
+    test("retries requests that change nothing after a network error", async () => {
+      const recover = jest.fn(async () => mockClient);
+      (mockClient.listTools as jest.Mock).mockRejectedValueOnce(
+        new TypeError("fetch failed")
+      );
 
       await proxyServer({
         client: mockClient,
+        recover,
         server: mockServer,
-        serverCapabilities,
+        serverCapabilities: { tools: {} },
       });
 
-      // Should set up basic resource handlers but not subscription handlers
-      expect(mockServer.setRequestHandler).toHaveBeenCalledWith(
-        ListResourcesRequestSchema,
-        expect.any(Function)
+      const result = await (
+        mockServer.setRequestHandler as jest.Mock
+      ).mock.calls.find(
+        (call: any[]) => call[0] === ListToolsRequestSchema
+      )?.[1]({ method: "tools/list", params: {} }, extra);
+
+      expect(recover).toHaveBeenCalledTimes(1);
+      expect(result.tools).toHaveLength(1);
+    });
+  });
+
+  describe("Request Logging", () => {
+    afterEach(() => {
+      setLogLevel(DEFAULT_LOG_LEVEL);
+    });
+
+    const listToolsHandler = async () => {
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+      return (mockServer.setRequestHandler as jest.Mock).mock.calls.find(
+        (call: any[]) => call[0] === ListToolsRequestSchema
+      )?.[1] as any;
+    };
+
+    test("logs each forwarded request with its id and duration", async () => {
+      setLogLevel("debug");
+      const handler = await listToolsHandler();
+
+      await handler(
+        { method: "tools/list", params: {} },
+        { ...extra, requestId: 5 }
       );
-      expect(mockServer.setRequestHandler).not.toHaveBeenCalledWith(
-        SubscribeRequestSchema,
-        expect.any(Function)
+
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^\[PROXY\] tools\/list completed \(requestId=5, durationMs=\d+\)$/
+        )
       );
     });
 
-    test("handles resources with subscribe disabled", async () => {
-      const serverCapabilities = { resources: { subscribe: false } };
+    test("warns about failed requests", async () => {
+      const error = new Error("Upstream unavailable");
+      (mockClient.listTools as jest.Mock).mockRejectedValue(error);
+      const handler = await listToolsHandler();
+
+      await expect(
+        handler(
+          { method: "tools/list", params: {} },
+          { ...extra, requestId: 6 }
+        )
+      ).rejects.toBe(error);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining("[PROXY] tools/list failed (requestId=6"),
+        error
+      );
+    });
+
+    test("warns about slow requests", async () => {
+      jest.spyOn(Date, "now").mockReturnValueOnce(0).mockReturnValueOnce(6000);
+      const handler = await listToolsHandler();
+
+      await handler(
+        { method: "tools/list", params: {} },
+        { ...extra, requestId: 7 }
+      );
 
+      expect(console.error).toHaveBeenCalledWith(
+        "[PROXY] tools/list was slow (requestId=7, durationMs=6000)"
+      );
+    });
+  });
+
+  describe("Notification Forwarding", () => {
+    const clientHandlerFor = (schema: unknown) =>
+      (mockClient.setNotificationHandler as jest.Mock).mock.calls.find(
+        (call: any[]) => call[0] === schema
+      )?.[1] as any;
+
+    test.each([
+      [
+        "tools",
+        { tools: {} },
+        ToolListChangedNotificationSchema,
+        "notifications/tools/list_changed",
+      ],
+      [
+        "prompts",
+        { prompts: {} },
+        PromptListChangedNotificationSchema,
+        "notifications/prompts/list_changed",
+      ],
+      [
+        "resources",
+        { resources: {} },
+        ResourceListChangedNotificationSchema,
+        "notifications/resources/list_changed",
+      ],
+    ])(
+      "forwards upstream %s list changes downstream",
+      async (_name, serverCapabilities, schema, method) => {
+        await proxyServer({
+          client: mockClient,
+          server: mockServer,
+          serverCapabilities,
+        });
+
+        await clientHandlerFor(schema)({ method });
+
+        expect(mockServer.notification).toHaveBeenCalledWith({ method });
+      }
+    );
+
+    test("does not listen for list changes of missing capabilities", async () => {
       await proxyServer({
         client: mockClient,
         server: mockServer,
-        serverCapabilities,
+        serverCapabilities: { tools: {} },
       });
 
-      // Should not set up subscription handlers
-      expect(mockServer.setNotificationHandler).not.toHaveBeenCalledWith(
-        ResourceUpdatedNotificationSchema,
-        expect.any(Function)
+      expect(clientHandlerFor(PromptListChangedNotificationSchema)).toBe(
+        undefined
+      );
+      expect(clientHandlerFor(ResourceListChangedNotificationSchema)).toBe(
+        undefined
       );
     });
-  });
 
-  describe("Error Handling", () => {
-    test("handles client method failures gracefully", async () => {
-      const error = new Error("Client method failed");
-      (mockClient.listTools as jest.Mock).mockImplementation(async () => {
-        throw error;
+    test("forwards upstream resource updates downstream", async () => {
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities: { resources: { subscribe: true } },
       });
 
-      const serverCapabilities = { tools: {} };
+      const updateArgs = {
+        method: "notifications/resources/updated",
+        params: { uri: "test://resource" },
+      };
+      await clientHandlerFor(ResourceUpdatedNotificationSchema)(updateArgs);
+
+      expect(mockServer.notification).toHaveBeenCalledWith(updateArgs);
+    });
 
+    test("relays upstream progress under the downstream progress token", async () => {
+      (mockClient.callTool as jest.Mock).mockImplementation(
+        async (_params, _schema, options: any) => {
+          options.onprogress({ message: "Searching", progress: 1, total: 3 });
+          return { content: [] };
+        }
+      );
       await proxyServer({
         client: mockClient,
         server: mockServer,
-        serverCapabilities,
+        serverCapabilities: { tools: {} },
+      });
+      const callToolHandler = (
+        mockServer.setRequestHandler as jest.Mock
+      ).mock.calls.find(
+        (call: any[]) => call[0] === CallToolRequestSchema
+      )?.[1] as any;
+      const progressExtra = createExtra({ progressToken: "search-1" });
+
+      await callToolHandler(
+        { params: { arguments: {}, name: "search_jobs" } },
+        progressExtra
+      );
+
+      expect(progressExtra.sendNotification).toHaveBeenCalledWith({
+        method: "notifications/progress",
+        params: {
+          message: "Searching",
+          progress: 1,
+          progressToken: "search-1",
+          total: 3,
+        },
       });
+    });
 
+    test("only restarts the deadline on progress the downstream client did not ask for", async () => {
+      jest.useFakeTimers();
+      (mockClient.listTools as jest.Mock).mockImplementation(
+        (_params, options) => untilAborted(options)
+      );
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
       const listToolsHandler = (
         mockServer.setRequestHandler as jest.Mock
       ).mock.calls.find(
         (call: any[]) => call[0] === ListToolsRequestSchema
-      )?.[1];
+      )?.[1] as any;
+
+      const settled = jest.fn();
+      const pending = listToolsHandler(
+        { method: "tools/list", params: {} },
+        extra
+      );
+      pending.catch(settled);
+      await jest.advanceTimersByTimeAsync(50_000);
+      const options = (mockClient.listTools as jest.Mock).mock.calls[0][1];
+      options.onprogress({ progress: 1 });
+      await jest.advanceTimersByTimeAsync(50_000);
+
+      expect(settled).not.toHaveBeenCalled();
+      expect(extra.sendNotification).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(10_000);
+      expect(settled).toHaveBeenCalled();
+    });
+
+    test("aborts the upstream request when the downstream request is cancelled", async () => {
+      const controller = new AbortController();
+      (mockClient.callTool as jest.Mock).mockImplementation(
+        (_params, _schema, options: any) =>
+          new Promise((_resolve, reject) => {
+            options.signal.addEventListener("abort", () =>
+              reject(options.signal.reason)
+            );
+          })
+      );
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+      const callToolHandler = (
+        mockServer.setRequestHandler as jest.Mock
+      ).mock.calls.find(
+        (call: any[]) => call[0] === CallToolRequestSchema
+      )?.[1] as any;
+
+      const pending = callToolHandler(
+        { params: { arguments: {}, name: "search_jobs" } },
+        { ...extra, signal: controller.signal }
+      );
+      // Let the handler resolve the client and reach callTool
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort("Cancelled by user");
+
+      await expect(pending).rejects.toBe("Cancelled by user");
+    });
+  });
+
+  describe("Timeouts", () => {
+    const handlerFor = (schema: unknown) =>
+      (mockServer.setRequestHandler as jest.Mock).mock.calls.find(
+        (call: any[]) => call[0] === schema
+      )?.[1] as any;
+
+    test("waits 60 seconds when no timeout is configured", async () => {
+      jest.useFakeTimers();
+      (mockClient.listTools as jest.Mock).mockImplementation(
+        (_params, options) => untilAborted(options)
+      );
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
 
-      await expect((listToolsHandler as any)({ params: {} })).rejects.toThrow(
-        "Client method failed"
+      const settled = jest.fn();
+      const pending = handlerFor(ListToolsRequestSchema)(
+        { method: "tools/list", params: {} },
+        extra
       );
+      pending.catch(settled);
+
+      await jest.advanceTimersByTimeAsync(59_999);
+      expect(settled).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(1);
+      await expect(pending).rejects.toMatchObject({
+        code: ErrorCode.RequestTimeout,
+        message: expect.stringContaining(
+          "tools/list timed out: the upstream server sent nothing for 60000 ms"
+        ),
+      });
+    });
+
+    test("uses the method's own timeout before the default", async () => {
+      jest.useFakeTimers();
+      (mockClient.callTool as jest.Mock).mockImplementation(
+        (_params, _resultSchema, options) => untilAborted(options)
+      );
+      (mockClient.listTools as jest.Mock).mockImplementation(
+        (_params, options) => untilAborted(options)
+      );
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+        timeouts: { default: 10_000, "tools/call": 120_000 },
+      });
+
+      const settled = jest.fn();
+      const call = handlerFor(CallToolRequestSchema)(
+        { method: "tools/call", params: { arguments: {}, name: "search" } },
+        extra
+      );
+      call.catch(settled);
+      const list = handlerFor(ListToolsRequestSchema)(
+        { method: "tools/list", params: {} },
+        extra
+      );
+      list.catch(() => undefined);
+
+      await jest.advanceTimersByTimeAsync(10_000);
+      await expect(list).rejects.toMatchObject({
+        code: ErrorCode.RequestTimeout,
+      });
+      expect(settled).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(110_000);
+      await expect(call).rejects.toMatchObject({
+        message: expect.stringContaining("for 120000 ms"),
+      });
+    });
+
+    test("holds deadlines for waits outside the proxy", async () => {
+      jest.useFakeTimers();
+      (mockClient.listTools as jest.Mock).mockImplementation(
+        (_params, options) => untilAborted(options)
+      );
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+        timeouts: { "tools/list": 1000 },
+      });
+
+      const settled = jest.fn();
+      const pending = handlerFor(ListToolsRequestSchema)(
+        { method: "tools/list", params: {} },
+        extra
+      );
+      pending.catch(settled);
+      await jest.advanceTimersByTimeAsync(0);
+      const release = holdUpstreamDeadlines(mockServer);
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(settled).not.toHaveBeenCalled();
+
+      release();
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(settled).toHaveBeenCalled();
+    });
+
+    test("names the method and deadline when a request times out", async () => {
+      (mockClient.readResource as jest.Mock).mockRejectedValue(
+        new McpError(ErrorCode.RequestTimeout, "Request timed out", {
+          timeout: 5000,
+        })
+      );
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities: { resources: {} },
+        timeouts: { "resources/read": 5000 },
+      });
+
+      const pending = handlerFor(ReadResourceRequestSchema)(
+        { method: "resources/read", params: { uri: "test://slow" } },
+        extra
+      );
+
+      await expect(pending).rejects.toMatchObject({
+        code: ErrorCode.RequestTimeout,
+        message: expect.stringContaining(
+          "resources/read timed out: the upstream server sent nothing for 5000 ms"
+        ),
+      });
+    });
+
+    test("passes other errors through unchanged", async () => {
+      const error = new McpError(ErrorCode.InternalError, "boom");
+      (mockClient.listTools as jest.Mock).mockRejectedValue(error);
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      await expect(
+        handlerFor(ListToolsRequestSchema)(
+          { method: "tools/list", params: {} },
+          extra
+        )
+      ).rejects.toBe(error);
+    });
+  });
+
+  describe("Filters", () => {
+    const handlerFor = (schema: unknown) =>
+      (mockServer.setRequestHandler as jest.Mock).mock.calls.find(
+        (call: any[]) => call[0] === schema
+      )?.[1] as any;
+
+    test("hides tools that do not pass the filter", async () => {
+      (mockClient.listTools as jest.Mock).mockResolvedValue({
+        tools: [
+          { name: "search_jobs" },
+          { name: "search_admin" },
+          { name: "apply" },
+        ],
+      });
+      await proxyServer({
+        client: mockClient,
+        filters: { tools: { allow: ["search_*"], deny: ["*_admin"] } },
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      const result = await handlerFor(ListToolsRequestSchema)(
+        { method: "tools/list", params: {} },
+        extra
+      );
+
+      expect(result.tools).toEqual([{ name: "search_jobs" }]);
+    });
+
+    test("rejects calls to blocked tools without reaching upstream", async () => {
+      await proxyServer({
+        client: mockClient,
+        filters: { tools: { deny: ["delete_*"] } },
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      await expect(
+        handlerFor(CallToolRequestSchema)(
+          { method: "tools/call", params: { name: "delete_profile" } },
+          extra
+        )
+      ).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: expect.stringContaining(
+          "Tool delete_profile is blocked by the proxy configuration"
+        ),
+      });
+      expect(mockClient.callTool).not.toHaveBeenCalled();
+    });
+
+    test("filters prompts, resources and resource templates", async () => {
+      (mockClient.listPrompts as jest.Mock).mockResolvedValue({
+        prompts: [{ name: "summary" }, { name: "internal-notes" }],
+      });
+      (mockClient.listResources as jest.Mock).mockResolvedValue({
+        resources: [
+          { name: "Jobs", uri: "jobs://open" },
+          { name: "Secrets", uri: "secrets://keys" },
+        ],
+      });
+      (mockClient.listResourceTemplates as jest.Mock).mockResolvedValue({
+        resourceTemplates: [
+          { name: "Job", uriTemplate: "jobs://{id}" },
+          { name: "Secret", uriTemplate: "secrets://{id}" },
+        ],
+      });
+      await proxyServer({
+        client: mockClient,
+        filters: {
+          prompts: { deny: ["internal-*"] },
+          resources: { allow: ["jobs://*"] },
+        },
+        server: mockServer,
+        serverCapabilities: { prompts: {}, resources: {} },
+      });
+
+      const prompts = await handlerFor(ListPromptsRequestSchema)(
+        { method: "prompts/list", params: {} },
+        extra
+      );
+      const resources = await handlerFor(ListResourcesRequestSchema)(
+        { method: "resources/list", params: {} },
+        extra
+      );
+      const templates = await handlerFor(ListResourceTemplatesRequestSchema)(
+        { method: "resources/templates/list", params: {} },
+        extra
+      );
+
+      expect(prompts.prompts).toEqual([{ name: "summary" }]);
+      expect(resources.resources).toEqual([
+        { name: "Jobs", uri: "jobs://open" },
+      ]);
+      expect(templates.resourceTemplates).toEqual([
+        { name: "Job", uriTemplate: "jobs://{id}" },
+      ]);
+      await expect(
+        handlerFor(ReadResourceRequestSchema)(
+          { method: "resources/read", params: { uri: "secrets://keys" } },
+          extra
+        )
+      ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+      await expect(
+        handlerFor(GetPromptRequestSchema)(
+          { method: "prompts/get", params: { name: "internal-notes" } },
+          extra
+        )
+      ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    });
+
+    test("rejects completions for blocked prompts", async () => {
+      await proxyServer({
+        client: mockClient,
+        filters: { prompts: { allow: ["summary"] } },
+        server: mockServer,
+        serverCapabilities: { completions: {}, prompts: {} },
+      });
+
+      await expect(
+        handlerFor(CompleteRequestSchema)(
+          {
+            method: "completion/complete",
+            params: {
+              argument: { name: "topic", value: "" },
+              ref: { name: "internal-notes", type: "ref/prompt" },
+            },
+          },
+          extra
+        )
+      ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+      expect(mockClient.complete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Read-only Mode", () => {
+    const handlerFor = (schema: unknown) =>
+      (mockServer.setRequestHandler as jest.Mock).mock.calls.find(
+        (call: any[]) => call[0] === schema
+      )?.[1] as any;
+
+    const tools = [
+      { annotations: { readOnlyHint: true }, name: "search_jobs" },
+      { annotations: { destructiveHint: true }, name: "delete_alert" },
+      { name: "add_reminder" },
+    ];
+
+    beforeEach(() => {
+      (mockClient.listTools as jest.Mock).mockResolvedValue({ tools });
+    });
+
+    test("lists only tools marked read-only", async () => {
+      await proxyServer({
+        client: mockClient,
+        readOnly: true,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      const result = await handlerFor(ListToolsRequestSchema)(
+        { method: "tools/list", params: {} },
+        extra
+      );
+
+      expect(result.tools).toEqual([tools[0]]);
+    });
+
+    test("lets unannotated tools through when configured to", async () => {
+      await proxyServer({
+        client: mockClient,
+        readOnly: true,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+        unannotatedTools: "allow",
+      });
+
+      const result = await handlerFor(ListToolsRequestSchema)(
+        { method: "tools/list", params: {} },
+        extra
+      );
+
+      expect(result.tools.map((tool) => tool.name)).toEqual([
+        "search_jobs",
+        "add_reminder",
+      ]);
+    });
+
+    test("looks up tools called before they were listed", async () => {
+      await proxyServer({
+        client: mockClient,
+        readOnly: true,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      await handlerFor(CallToolRequestSchema)(
+        { method: "tools/call", params: { name: "search_jobs" } },
+        extra
+      );
+
+      expect(mockClient.listTools).toHaveBeenCalledTimes(1);
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        { name: "search_jobs" },
+        undefined,
+        expect.anything()
+      );
+    });
+
+    test("refuses calls to tools that may modify data", async () => {
+      await proxyServer({
+        client: mockClient,
+        readOnly: true,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+      await handlerFor(ListToolsRequestSchema)(
+        { method: "tools/list", params: {} },
+        extra
+      );
+
+      for (const name of ["delete_alert", "add_reminder", "unknown_tool"]) {
+        await expect(
+          handlerFor(CallToolRequestSchema)(
+            { method: "tools/call", params: { name } },
+            extra
+          )
+        ).rejects.toMatchObject({
+          code: ErrorCode.InvalidParams,
+          message: expect.stringContaining(
+            `Tool ${name} is not marked read-only and is blocked in read-only mode`
+          ),
+        });
+      }
+      expect(mockClient.callTool).not.toHaveBeenCalled();
+    });
+
+    test("follows pages when looking up a tool", async () => {
+      (mockClient.listTools as jest.Mock)
+        .mockResolvedValueOnce({ nextCursor: "2", tools: [tools[1]] })
+        .mockResolvedValueOnce({ tools: [tools[0]] });
+      await proxyServer({
+        client: mockClient,
+        readOnly: true,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      await handlerFor(CallToolRequestSchema)(
+        { method: "tools/call", params: { name: "search_jobs" } },
+        extra
+      );
+
+      expect(mockClient.listTools).toHaveBeenLastCalledWith(
+        { cursor: "2" },
+        expect.anything()
+      );
+      expect(mockClient.callTool).toHaveBeenCalled();
+    });
+  });
+
+  describe("Destructive Tool Confirmation", () => {
+    const handlerFor = (schema: unknown) =>
+      (mockServer.setRequestHandler as jest.Mock).mock.calls.find(
+        (call: any[]) => call[0] === schema
+      )?.[1] as any;
+
+    const tools = [
+      {
+        annotations: { destructiveHint: true },
+        inputSchema: { type: "object" },
+        name: "delete_application",
+      },
+      { inputSchema: { type: "object" }, name: "search_jobs" },
+    ];
+    const deleteCall = {
+      method: "tools/call",
+      params: { arguments: { id: "app-42" }, name: "delete_application" },
+    };
+
+    beforeEach(() => {
+      (mockClient.listTools as jest.Mock).mockResolvedValue({ tools });
+    });
+
+    test("forwards destructive calls once the user confirms", async () => {
+      mockServer.getClientCapabilities.mockReturnValue({
+        elicitation: { form: {} },
+      });
+      mockServer.elicitInput.mockResolvedValue({
+        action: "accept",
+        content: { confirm: true },
+      });
+      await proxyServer({
+        client: mockClient,
+        confirmDestructive: true,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      await handlerFor(CallToolRequestSchema)(deleteCall, extra);
+
+      expect(mockServer.elicitInput).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.stringContaining("delete_application"),
+        }),
+        expect.objectContaining({ signal: extra.signal })
+      );
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        deleteCall.params,
+        undefined,
+        expect.anything()
+      );
+    });
+
+    test("answers with a tool error when the user declines", async () => {
+      mockServer.getClientCapabilities.mockReturnValue({
+        elicitation: { form: {} },
+      });
+      mockServer.elicitInput.mockResolvedValue({ action: "decline" });
+      await proxyServer({
+        client: mockClient,
+        confirmDestructive: true,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      const result = await handlerFor(CallToolRequestSchema)(deleteCall, extra);
+
+      expect(result).toMatchObject({ isError: true });
+      expect(mockClient.callTool).not.toHaveBeenCalled();
+    });
+
+    test("does not ask about other tools", async () => {
+      await proxyServer({
+        client: mockClient,
+        confirmDestructive: true,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      await handlerFor(CallToolRequestSchema)(
+        { method: "tools/call", params: { name: "search_jobs" } },
+        extra
+      );
+
+      expect(mockServer.elicitInput).not.toHaveBeenCalled();
+      expect(mockClient.callTool).toHaveBeenCalled();
+    });
+
+    test("advertises and strips the confirm argument under that fallback", async () => {
+      mockServer.getClientCapabilities.mockReturnValue({});
+      await proxyServer({
+        client: mockClient,
+        confirmDestructive: true,
+        confirmFallback: "argument",
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      const listed = await handlerFor(ListToolsRequestSchema)(
+        { method: "tools/list", params: {} },
+        extra
+      );
+      await handlerFor(CallToolRequestSchema)(
+        {
+          method: "tools/call",
+          params: {
+            arguments: { confirm: true, id: "app-42" },
+            name: "delete_application",
+          },
+        },
+        extra
+      );
+
+      expect(listed.tools[0].inputSchema.properties).toHaveProperty("confirm");
+      expect(listed.tools[1]).toEqual(tools[1]);
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        deleteCall.params,
+        undefined,
+        expect.anything()
+      );
+    });
+  });
+
+  describe("Names", () => {
+    const handlerFor = (schema: unknown) =>
+      (mockServer.setRequestHandler as jest.Mock).mock.calls.find(
+        (call: any[]) => call[0] === schema
+      )?.[1] as any;
+
+    test("lists tools under their client names", async () => {
+      (mockClient.listTools as jest.Mock).mockResolvedValue({
+        tools: [{ name: "search" }, { name: "get_details" }],
+      });
+      await proxyServer({
+        client: mockClient,
+        names: {
+          tools: { prefix: "foundrole_", rename: { get_details: "job_info" } },
+        },
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      const result = await handlerFor(ListToolsRequestSchema)(
+        { method: "tools/list", params: {} },
+        extra
+      );
+
+      expect(result.tools).toEqual([
+        { name: "foundrole_search" },
+        { name: "job_info" },
+      ]);
+    });
+
+    test("calls tools by their upstream names", async () => {
+      await proxyServer({
+        client: mockClient,
+        names: { tools: { prefix: "foundrole_" } },
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      await handlerFor(CallToolRequestSchema)(
+        {
+          method: "tools/call",
+          params: { arguments: { q: "rust" }, name: "foundrole_search" },
+        },
+        extra
+      );
+
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        { arguments: { q: "rust" }, name: "search" },
+        undefined,
+        expect.anything()
+      );
+    });
+
+    test("rejects names the client was not shown", async () => {
+      await proxyServer({
+        client: mockClient,
+        names: { tools: { prefix: "foundrole_" } },
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      await expect(
+        handlerFor(CallToolRequestSchema)(
+          { method: "tools/call", params: { name: "search" } },
+          extra
+        )
+      ).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: expect.stringContaining("Unknown tool: search"),
+      });
+      expect(mockClient.callTool).not.toHaveBeenCalled();
+    });
+
+    test("hides tools whose names collide or grow too long", async () => {
+      (mockClient.listTools as jest.Mock).mockResolvedValue({
+        tools: [{ name: "find" }, { name: "search" }, { name: "x".repeat(62) }],
+      });
+      await proxyServer({
+        client: mockClient,
+        names: { tools: { prefix: "fr_", rename: { find: "fr_search" } } },
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      const result = await handlerFor(ListToolsRequestSchema)(
+        { method: "tools/list", params: {} },
+        extra
+      );
+
+      expect(result.tools).toEqual([{ name: "fr_search" }]);
+    });
+
+    test("maps prompt names in lists, gets and completions", async () => {
+      (mockClient.listPrompts as jest.Mock).mockResolvedValue({
+        prompts: [{ name: "summary" }],
+      });
+      await proxyServer({
+        client: mockClient,
+        names: { prompts: { prefix: "foundrole_" } },
+        server: mockServer,
+        serverCapabilities: { completions: {}, prompts: {} },
+      });
+
+      const listed = await handlerFor(ListPromptsRequestSchema)(
+        { method: "prompts/list", params: {} },
+        extra
+      );
+      await handlerFor(GetPromptRequestSchema)(
+        { method: "prompts/get", params: { name: "foundrole_summary" } },
+        extra
+      );
+      await handlerFor(CompleteRequestSchema)(
+        {
+          method: "completion/complete",
+          params: {
+            argument: { name: "topic", value: "" },
+            ref: { name: "foundrole_summary", type: "ref/prompt" },
+          },
+        },
+        extra
+      );
+
+      expect(listed.prompts).toEqual([{ name: "foundrole_summary" }]);
+      expect(mockClient.getPrompt).toHaveBeenCalledWith(
+        { name: "summary" },
+        expect.anything()
+      );
+      expect(mockClient.complete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ref: { name: "summary", type: "ref/prompt" },
+        }),
+        expect.anything()
+      );
+    });
+  });
+
+  describe("Schema Shims", () => {
+    const handlerFor = (schema: unknown) =>
+      (mockServer.setRequestHandler as jest.Mock).mock.calls.find(
+        (call: any[]) => call[0] === schema
+      )?.[1] as any;
+
+    // Renames tools with a "short_" prefix and upper-cases a text argument
+    const fakeShim = {
+      name: "cursor",
+      restoreArguments: (args: any) => ({
+        ...args,
+        text: args.text.toLowerCase(),
+      }),
+      restoreName: (name: string) => name.replace(/^short_/, ""),
+      rewriteTool: (tool: any) => ({ ...tool, name: `short_${tool.name}` }),
+    };
+
+    test("rewrites listed tools after renaming them", async () => {
+      (mockClient.listTools as jest.Mock).mockResolvedValue({
+        tools: [{ inputSchema: { type: "object" }, name: "search" }],
+      });
+      await proxyServer({
+        client: mockClient,
+        names: { tools: { prefix: "fr_" } },
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+        shims: [fakeShim],
+      });
+
+      const result = await handlerFor(ListToolsRequestSchema)(
+        { method: "tools/list", params: {} },
+        extra
+      );
+
+      expect(result.tools).toEqual([
+        { inputSchema: { type: "object" }, name: "short_fr_search" },
+      ]);
+    });
+
+    test("undoes the rewrite on calls", async () => {
+      (mockClient.listTools as jest.Mock).mockResolvedValue({
+        tools: [{ inputSchema: { type: "object" }, name: "search" }],
+      });
+      await proxyServer({
+        client: mockClient,
+        names: { tools: { prefix: "fr_" } },
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+        shims: [fakeShim],
+      });
+
+      await handlerFor(CallToolRequestSchema)(
+        {
+          method: "tools/call",
+          params: { arguments: { text: "RUST" }, name: "short_fr_search" },
+        },
+        extra
+      );
+
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        { arguments: { text: "rust" }, name: "search" },
+        undefined,
+        expect.anything()
+      );
+    });
+  });
+
+  describe("Logging Level", () => {
+    test("forwards setLevel to the upstream server", async () => {
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities: { logging: {} },
+      });
+
+      const setLevelHandler = (
+        mockServer.setRequestHandler as jest.Mock
+      ).mock.calls.find(
+        (call: any[]) => call[0] === SetLevelRequestSchema
+      )?.[1] as any;
+      await setLevelHandler({ params: { level: "debug" } }, extra);
+
+      expect(mockClient.setLoggingLevel).toHaveBeenCalledWith(
+        "debug",
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+    });
+
+    test("applies setLevel to the proxy's own log messages too", async () => {
+      const onSetLevel = jest.fn();
+      await proxyServer({
+        client: mockClient,
+        onSetLevel,
+        server: mockServer,
+        serverCapabilities: { logging: {} },
+      });
+
+      const setLevelHandler = (
+        mockServer.setRequestHandler as jest.Mock
+      ).mock.calls.find(
+        (call: any[]) => call[0] === SetLevelRequestSchema
+      )?.[1] as any;
+      await setLevelHandler(
+        { method: "logging/setLevel", params: { level: "warning" } },
+        extra
+      );
+
+      expect(onSetLevel).toHaveBeenCalledWith("warning");
+      expect(mockClient.setLoggingLevel).toHaveBeenCalled();
+    });
+
+    test("answers setLevel itself when the upstream server does not log", async () => {
+      const onSetLevel = jest.fn();
+      await proxyServer({
+        client: mockClient,
+        onSetLevel,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      const setLevelHandler = (
+        mockServer.setRequestHandler as jest.Mock
+      ).mock.calls.find(
+        (call: any[]) => call[0] === SetLevelRequestSchema
+      )?.[1] as any;
+      const result = await setLevelHandler(
+        { method: "logging/setLevel", params: { level: "error" } },
+        extra
+      );
+
+      expect(result).toEqual({});
+      expect(onSetLevel).toHaveBeenCalledWith("error");
+      expect(mockClient.setLoggingLevel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Upstream Requests", () => {
+    const clientRequestHandlerFor = (schema: unknown) =>
+      (mockClient.setRequestHandler as jest.Mock).mock.calls.find(
+        (call: any[]) => call[0] === schema
+      )?.[1] as any;
+
+    test("does not accept upstream requests without client capabilities", async () => {
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      expect(mockClient.setRequestHandler).not.toHaveBeenCalled();
+    });
+
+    test("only accepts upstream requests the downstream client supports", async () => {
+      await proxyServer({
+        client: mockClient,
+        clientCapabilities: { sampling: {} },
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      expect(clientRequestHandlerFor(CreateMessageRequestSchema)).toBeDefined();
+      expect(clientRequestHandlerFor(ElicitRequestSchema)).toBeUndefined();
+      expect(clientRequestHandlerFor(ListRootsRequestSchema)).toBeUndefined();
+    });
+
+    test("relays sampling requests to the downstream client", async () => {
+      (mockServer.createMessage as jest.Mock).mockResolvedValueOnce({
+        content: { text: "Sounds good", type: "text" },
+        model: "test-model",
+        role: "assistant",
+      });
+      await proxyServer({
+        client: mockClient,
+        clientCapabilities: { sampling: {} },
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+      const params = {
+        maxTokens: 100,
+        messages: [
+          { content: { text: "Summarize", type: "text" }, role: "user" },
+        ],
+      };
+
+      const result = await clientRequestHandlerFor(CreateMessageRequestSchema)(
+        { params },
+        extra
+      );
+
+      expect(mockServer.createMessage).toHaveBeenCalledWith(
+        params,
+        expect.objectContaining({ signal: extra.signal })
+      );
+      expect(result).toMatchObject({ model: "test-model" });
+    });
+
+    test("relays elicitation requests to the downstream client", async () => {
+      (mockServer.elicitInput as jest.Mock).mockResolvedValueOnce({
+        action: "accept",
+      });
+      await proxyServer({
+        client: mockClient,
+        clientCapabilities: { elicitation: {} },
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+      const params = {
+        message: "Move this job to Interviewing?",
+        requestedSchema: { properties: {}, type: "object" },
+      };
+
+      const result = await clientRequestHandlerFor(ElicitRequestSchema)(
+        { params },
+        extra
+      );
+
+      expect(mockServer.elicitInput).toHaveBeenCalledWith(
+        params,
+        expect.objectContaining({
+          signal: extra.signal,
+          timeout: CONFIRMATION_TIMEOUT_MS,
+        })
+      );
+      expect(result).toEqual({ action: "accept" });
+    });
+
+    test("holds the deadline of a tool call while its elicitation is open", async () => {
+      jest.useFakeTimers();
+      (mockClient.callTool as jest.Mock).mockImplementation(
+        (_params, _resultSchema, options) => untilAborted(options)
+      );
+      let answer: (result: unknown) => void = () => undefined;
+      (mockServer.elicitInput as jest.Mock).mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            answer = resolve;
+          })
+      );
+      await proxyServer({
+        client: mockClient,
+        clientCapabilities: { elicitation: {} },
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+        timeouts: { "tools/call": 1000 },
+      });
+      const callToolHandler = (
+        mockServer.setRequestHandler as jest.Mock
+      ).mock.calls.find(
+        (call: any[]) => call[0] === CallToolRequestSchema
+      )?.[1] as any;
+
+      const settled = jest.fn();
+      const pending = callToolHandler(
+        {
+          method: "tools/call",
+          params: { arguments: {}, name: "move_job" },
+        },
+        extra
+      );
+      pending.catch(settled);
+      await jest.advanceTimersByTimeAsync(500);
+      const elicitation = clientRequestHandlerFor(ElicitRequestSchema)(
+        { params: { message: "Move this job?", requestedSchema: {} } },
+        extra
+      );
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(settled).not.toHaveBeenCalled();
+
+      answer({ action: "accept" });
+      await elicitation;
+      await jest.advanceTimersByTimeAsync(999);
+      expect(settled).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(1);
+      await expect(pending).rejects.toMatchObject({
+        code: ErrorCode.RequestTimeout,
+      });
+    });
+
+    test("relays roots requests and list changes", async () => {
+      await proxyServer({
+        client: mockClient,
+        clientCapabilities: { roots: { listChanged: true } },
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+
+      await clientRequestHandlerFor(ListRootsRequestSchema)(
+        { params: {} },
+        extra
+      );
+      const rootsChangedHandler = (
+        mockServer.setNotificationHandler as jest.Mock
+      ).mock.calls.find(
+        (call: any[]) => call[0] === RootsListChangedNotificationSchema
+      )?.[1] as any;
+      await rootsChangedHandler({
+        method: "notifications/roots/list_changed",
+      });
+
+      expect(mockServer.listRoots).toHaveBeenCalledWith(
+        {},
+        expect.objectContaining({ signal: extra.signal })
+      );
+      expect(mockClient.sendRootsListChanged).toHaveBeenCalled();
+    });
+
+    test("relays downstream progress back upstream", async () => {
+      (mockServer.elicitInput as jest.Mock).mockImplementationOnce(
+        async (_params, options: any) => {
+          options.onprogress({ progress: 1 });
+          return { action: "decline" };
+        }
+      );
+      await proxyServer({
+        client: mockClient,
+        clientCapabilities: { elicitation: {} },
+        server: mockServer,
+        serverCapabilities: { tools: {} },
+      });
+      const upstreamExtra = createExtra({ progressToken: 42 });
+
+      await clientRequestHandlerFor(ElicitRequestSchema)(
+        { params: { message: "Confirm?", requestedSchema: {} } },
+        upstreamExtra
+      );
+
+      expect(upstreamExtra.sendNotification).toHaveBeenCalledWith({
+        method: "notifications/progress",
+        params: { progress: 1, progressToken: 42 },
+      });
+    });
+  });
+
+  describe("Complex Capability Combinations", () => {
+    test("handles all capabilities enabled", async () => {
+      const serverCapabilities = {
+        logging: {},
+        prompts: {},
+        resources: { subscribe: true },
+        tools: {},
+      };
+
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities,
+      });
+
+      // Should set up all handlers
+      expect(mockServer.setRequestHandler).toHaveBeenCalledTimes(11); // All request handlers
+      expect(mockServer.setNotificationHandler).toHaveBeenCalledTimes(2); // Logging + resource updates
+      expect(mockClient.setNotificationHandler).toHaveBeenCalledTimes(5); // Logging, list changes + resource updates
+    });
+
+    test("handles no capabilities", async () => {
+      const serverCapabilities = {};
+
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities,
+      });
+
+      // Should only set up completion handler
+      expect(mockServer.setRequestHandler).toHaveBeenCalledTimes(1);
+      expect(mockServer.setNotificationHandler).toHaveBeenCalledTimes(0);
+      expect(mockClient.setNotificationHandler).toHaveBeenCalledTimes(0);
+    });
+
+    test("handles resources without subscribe capability", async () => {
+      const serverCapabilities = { resources: {} };
+
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities,
+      });
+
+      // Should set up basic resource handlers but not subscription handlers
+      expect(mockServer.setRequestHandler).toHaveBeenCalledWith(
+        ListResourcesRequestSchema,
+        expect.any(Function)
+      );
+      expect(mockServer.setRequestHandler).not.toHaveBeenCalledWith(
+        SubscribeRequestSchema,
+        expect.any(Function)
+      );
+    });
+
+    test("handles resources with subscribe disabled", async () => {
+      const serverCapabilities = { resources: { subscribe: false } };
+
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities,
+      });
+
+      // Should not set up subscription handlers
+      expect(mockServer.setNotificationHandler).not.toHaveBeenCalledWith(
+        ResourceUpdatedNotificationSchema,
+        expect.any(Function)
+      );
+    });
+  });
+
+  describe("Error Handling", () => {
+    test("handles client method failures gracefully", async () => {
+      const error = new Error("Client method failed");
+      (mockClient.listTools as jest.Mock).mockImplementation(async () => {
+        throw error;
+      });
+
+      const serverCapabilities = { tools: {} };
+
+      await proxyServer({
+        client: mockClient,
+        server: mockServer,
+        serverCapabilities,
+      });
+
+      const listToolsHandler = (
+        mockServer.setRequestHandler as jest.Mock
+      ).mock.calls.find(
+        (call: any[]) => call[0] === ListToolsRequestSchema
+      )?.[1];
+
+      await expect(
+        (listToolsHandler as any)({ params: {} }, extra)
+      ).rejects.toThrow("Client method failed");
     });
 
     test("handles notification failures gracefully", async () => {
@@ -0,0 +1,253 @@
+/**
+ * schema-shims functionality tests
+ * Tests rewriting fixture tool schemas per client and undoing it on calls
+ */
+
+import { describe, expect, test } from "@jest/globals";
+
+import {
+  createSchemaShims,
+  dereference,
+  detectSchemaShims,
+  flattenUnions,
+} from "../src/schema-shims.js";
+
+import {
+  FIXTURE_TOOLS,
+  longNamed,
+  searchJobs,
+  setReminder,
+  trackApplication,
+} from "./fixtures/tool-schemas.js";
+
+type Schema = Record<string, any>;
+
+// Every schema inside `schema`, itself included
+const allSchemas = (schema: Schema): Schema[] => {
+  const children = [
+    schema.additionalProperties,
+    schema.items,
+    ...(schema.anyOf ?? []),
+    ...(schema.oneOf ?? []),
+    ...(schema.allOf ?? []),
+    ...Object.values(schema.properties ?? {}),
+    ...Object.values(schema.$defs ?? {}),
+  ].filter((child) => typeof child === "object" && child !== null);
+  return [schema, ...children.flatMap(allSchemas)];
+};
+
+const shim = (name: "cursor" | "gemini" | "openai-strict") => {
+  const [created] = createSchemaShims([name]);
+  return created!;
+};
+
+describe("schema-shims", () => {
+  describe("detectSchemaShims", () => {
+    test("picks shims by client name", () => {
+      expect(
+        detectSchemaShims({ name: "cursor-vscode", version: "1" })
+      ).toEqual(["cursor"]);
+      expect(
+        detectSchemaShims({ name: "gemini-cli-mcp-client", version: "1" })
+      ).toEqual(["gemini"]);
+      expect(
+        detectSchemaShims({ name: "codex-mcp-client", version: "1" })
+      ).toEqual(["openai-strict"]);
+      expect(detectSchemaShims({ name: "claude-ai", version: "1" })).toEqual(
+        []
+      );
+    });
+  });
+
+  describe("dereference", () => {
+    test("inlines definitions and drops them", () => {
+      const schema = dereference(trackApplication.inputSchema);
+
+      expect(schema).not.toHaveProperty("$defs");
+      expect(schema.properties).toMatchObject({
+        company: { properties: { name: { type: "string" } }, type: "object" },
+        stage: {
+          description: "Where it stands",
+          enum: ["applied", "interview", "offer"],
+        },
+      });
+    });
+
+    test("cuts references back into themselves", () => {
+      const schema = dereference(trackApplication.inputSchema) as Schema;
+
+      expect(schema.properties.company.properties.parent).toEqual({
+        type: "object",
+      });
+    });
+
+    test("leaves unresolvable references unconstrained", () => {
+      expect(
+        dereference({ properties: { x: { $ref: "#/$defs/Missing" } } })
+      ).toEqual({ properties: { x: {} } });
+    });
+  });
+
+  describe("flattenUnions", () => {
+    test("turns null alternatives into nullable", () => {
+      const { properties } = flattenUnions(setReminder.inputSchema) as Schema;
+
+      expect(properties.due).toEqual({
+        format: "date-time",
+        nullable: true,
+        type: "string",
+      });
+      expect(properties.note).toEqual({ nullable: true, type: "string" });
+    });
+
+    test("keeps the first of several alternatives and names the rest", () => {
+      const { properties } = flattenUnions(setReminder.inputSchema) as Schema;
+
+      expect(properties.repeat).toEqual({
+        description: "How often Also accepts: integer.",
+        type: "string",
+      });
+    });
+
+    test("merges allOf branches", () => {
+      const { properties } = flattenUnions(setReminder.inputSchema) as Schema;
+
+      expect(properties.target).toEqual({
+        properties: {
+          applicationId: { type: "string" },
+          contact: { type: "string" },
+        },
+        required: ["applicationId"],
+        type: "object",
+      });
+    });
+  });
+
+  describe("gemini", () => {
+    test.each(FIXTURE_TOOLS.map((tool) => [tool.name, tool] as const))(
+      "leaves no references or unions in %s",
+      (_name, tool) => {
+        const rewritten = shim("gemini").rewriteTool(tool);
+
+        for (const schema of allSchemas(rewritten.inputSchema)) {
+          for (const keyword of [
+            "$defs",
+            "$ref",
+            "$schema",
+            "allOf",
+            "anyOf",
+            "oneOf",
+          ]) {
+            expect(schema).not.toHaveProperty(keyword);
+          }
+          expect(Array.isArray(schema.type)).toBe(false);
+        }
+      }
+    );
+  });
+
+  describe("openai-strict", () => {
+    test.each(FIXTURE_TOOLS.map((tool) => [tool.name, tool] as const))(
+      "closes and requires every object in %s",
+      (_name, tool) => {
+        const rewritten = shim("openai-strict").rewriteTool(tool);
+
+        for (const schema of allSchemas(rewritten.inputSchema)) {
+          if (schema.properties) {
+            expect(schema.additionalProperties).toBe(false);
+            expect(schema.required).toEqual(Object.keys(schema.properties));
+          }
+        }
+      }
+    );
+
+    test("lets optional properties be null", () => {
+      const { properties } = shim("openai-strict").rewriteTool(searchJobs)
+        .inputSchema as Schema;
+
+      expect(properties.query).toEqual({
+        description: "Keywords to search for",
+        type: "string",
+      });
+      expect(properties.filters.properties.remote).toEqual({
+        type: ["boolean", "null"],
+      });
+      expect(properties.filters.properties.salary.properties.currency).toEqual({
+        enum: ["EUR", "USD", null],
+        type: ["string", "null"],
+      });
+      expect(properties.seniority).toEqual({
+        anyOf: [{ enum: ["junior", "senior"] }, { type: "null" }],
+      });
+    });
+
+    test("shortens descriptions OpenAI would refuse", () => {
+      const rewritten = shim("openai-strict").rewriteTool(longNamed);
+
+      expect(rewritten.description).toHaveLength(1024);
+    });
+
+    test("drops the nulls standing in for left-out arguments", () => {
+      const restored = shim("openai-strict").restoreArguments!(
+        {
+          filters: {
+            remote: null,
+            salary: { currency: null, minimum: 50_000 },
+          },
+          locations: [{ city: "Berlin", radiusKm: null }],
+          query: "rust",
+          seniority: null,
+        },
+        searchJobs.inputSchema
+      );
+
+      expect(restored).toEqual({
+        filters: { salary: { minimum: 50_000 } },
+        locations: [{ city: "Berlin" }],
+        query: "rust",
+      });
+    });
+
+    test("follows references when restoring arguments", () => {
+      const restored = shim("openai-strict").restoreArguments!(
+        { company: { name: "Acme", parent: null }, stage: "offer" },
+        trackApplication.inputSchema
+      );
+
+      expect(restored).toEqual({ company: { name: "Acme" }, stage: "offer" });
+    });
+  });
+
+  describe("cursor", () => {
+    test("shortens long names and restores them on calls", () => {
+      const cursor = shim("cursor");
+
+      const rewritten = cursor.rewriteTool(longNamed);
+
+      expect(rewritten.name.length).toBeLessThanOrEqual(40);
+      expect(cursor.restoreName!(rewritten.name)).toBe(longNamed.name);
+    });
+
+    test("keeps shortened names apart", () => {
+      const cursor = shim("cursor");
+
+      const first = cursor.rewriteTool({
+        ...longNamed,
+        name: `${"a".repeat(45)}_one`,
+      });
+      const second = cursor.rewriteTool({
+        ...longNamed,
+        name: `${"a".repeat(45)}_two`,
+      });
+
+      expect(first.name).not.toBe(second.name);
+    });
+
+    test("leaves short names alone", () => {
+      const cursor = shim("cursor");
+
+      expect(cursor.rewriteTool(searchJobs)).toBe(searchJobs);
+      expect(cursor.restoreName!("search_jobs")).toBe("search_jobs");
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * session-recorder functionality tests
+ * Tests JSONL session recording, transport capture and redaction
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  jest,
+  test,
+} from "@jest/globals";
+
+import {
+  REDACTED,
+  redact,
+  SESSION_FORMAT_VERSION,
+  SessionRecorder,
+} from "../src/session-recorder.js";
+
+const TARGET_URL = "https://www.foundrole.com/mcp";
+
+const LIST_TOOLS = { id: 1, jsonrpc: "2.0", method: "tools/list" } as const;
+
+describe("session-recorder Tests", () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "session-recorder-"));
+    file = path.join(directory, "sessions", "session.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { force: true, recursive: true });
+  });
+
+  const readEntries = () =>
+    fs
+      .readFileSync(file, "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+
+  const createTransport = () => ({
+    onmessage: undefined as
+      | ((message: unknown, extra?: unknown) => void)
+      | undefined,
+    send: jest.fn(async (_message: unknown, _options?: unknown) => undefined),
+  });
+
+  test("starts each run with a session entry", () => {
+    new SessionRecorder({ file, targetUrl: TARGET_URL }).record(
+      "from-client",
+      LIST_TOOLS
+    );
+
+    const [session, message] = readEntries();
+    expect(session).toEqual({
+      proxyVersion: expect.any(String),
+      targetUrl: TARGET_URL,
+      time: expect.any(String),
+      type: "session",
+      version: SESSION_FORMAT_VERSION,
+    });
+    expect(message).toEqual({
+      direction: "from-client",
+      message: LIST_TOOLS,
+      time: expect.any(String),
+      type: "message",
+    });
+  });
+
+  test("appends later runs to the same file", () => {
+    new SessionRecorder({ file, targetUrl: TARGET_URL }).record(
+      "from-client",
+      LIST_TOOLS
+    );
+    new SessionRecorder({ file, targetUrl: TARGET_URL }).record(
+      "from-client",
+      LIST_TOOLS
+    );
+
+    expect(readEntries().map((entry) => entry.type)).toEqual([
+      "session",
+      "message",
+      "session",
+      "message",
+    ]);
+  });
+
+  test("writes a file only the user can read", () => {
+    new SessionRecorder({ file, targetUrl: TARGET_URL }).record(
+      "from-client",
+      LIST_TOOLS
+    );
+
+    if (process.platform !== "win32") {
+      expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  test("records what an attached transport sends and receives", async () => {
+    const recorder = new SessionRecorder({ file, targetUrl: TARGET_URL });
+    const transport = createTransport();
+    const receive = jest.fn();
+    transport.onmessage = receive;
+    const send = transport.send;
+
+    recorder.attach(transport as any, "server");
+    await (transport as any).send(LIST_TOOLS);
+    transport.onmessage?.({ id: 1, jsonrpc: "2.0", result: { tools: [] } });
+
+    expect(send).toHaveBeenCalledWith(LIST_TOOLS, undefined);
+    expect(receive).toHaveBeenCalled();
+    expect(
+      readEntries()
+        .slice(1)
+        .map((entry) => entry.direction)
+    ).toEqual(["to-server", "from-server"]);
+  });
+
+  test("redacts credentials and configured fields", () => {
+    const recorder = new SessionRecorder({
+      file,
+      redactFields: ["Email"],
+      targetUrl: TARGET_URL,
+    });
+
+    recorder.record("to-server", {
+      id: 2,
+      jsonrpc: "2.0",
+      method: "tools/call",
+      params: {
+        _meta: { Authorization: "Bearer secret" },
+        arguments: { email: "someone@example.com", title: "Engineer" },
+        name: "save_job",
+      },
+    });
+
+    expect(readEntries()[1].message.params).toEqual({
+      _meta: { Authorization: REDACTED },
+      arguments: { email: REDACTED, title: "Engineer" },
+      name: "save_job",
+    });
+  });
+
+  test("redacts inside arrays", () => {
+    expect(
+      redact([{ password: "hunter2", user: "sam" }], new Set(["password"]))
+    ).toEqual([{ password: REDACTED, user: "sam" }]);
+  });
+
+  test("stops recording without throwing when the file cannot be written", () => {
+    fs.writeFileSync(path.join(directory, "blocked"), "");
+    const recorder = new SessionRecorder({
+      file: path.join(directory, "blocked", "session.jsonl"),
+      targetUrl: TARGET_URL,
+    });
+
+    expect(() => recorder.record("from-client", LIST_TOOLS)).not.toThrow();
+    expect(() => recorder.record("from-client", LIST_TOOLS)).not.toThrow();
+    expect(console.error).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("[RECORDER] Stopped recording to"),
+      expect.objectContaining({ code: "EEXIST" })
+    );
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * session-replay functionality tests
+ * Tests reading recorded sessions and answering requests from them
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  jest,
+  test,
+} from "@jest/globals";
+
+jest.mock("@modelcontextprotocol/sdk/types.js", () => ({
+  ErrorCode: { InternalError: -32603 },
+}));
+
+import { SessionRecorder } from "../src/session-recorder.js";
+import { readSession, ReplayTransport } from "../src/session-replay.js";
+
+const TARGET_URL = "https://www.foundrole.com/mcp";
+
+const callTool = (id: number, name: string, args: Record<string, unknown>) =>
+  ({
+    id,
+    jsonrpc: "2.0",
+    method: "tools/call",
+    params: { _meta: { progressToken: id }, arguments: args, name },
+  }) as const;
+
+const toolResult = (id: number, text: string) =>
+  ({
+    id,
+    jsonrpc: "2.0",
+    result: { content: [{ text, type: "text" }] },
+  }) as const;
+
+describe("session-replay Tests", () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "session-replay-"));
+    file = path.join(directory, "session.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { force: true, recursive: true });
+  });
+
+  const record = (
+    exchanges: [request: any, response: any][],
+    redactFields?: string[]
+  ) => {
+    const recorder = new SessionRecorder({
+      file,
+      targetUrl: TARGET_URL,
+      ...(redactFields && { redactFields }),
+    });
+    for (const [request, response] of exchanges) {
+      recorder.record("from-client", request);
+      recorder.record("to-server", request);
+      recorder.record("from-server", response);
+      recorder.record("to-client", response);
+    }
+  };
+
+  // Sends a request through the transport and resolves with the answer
+  const ask = async (transport: ReplayTransport, request: any) => {
+    const answered = new Promise<any>((resolve) => {
+      transport.onmessage = resolve;
+    });
+    await transport.send(request);
+    return answered;
+  };
+
+  describe("readSession", () => {
+    test("pairs upstream requests with their responses", () => {
+      record([[callTool(1, "search_jobs", { q: "rust" }), toolResult(1, "3")]]);
+
+      expect(readSession(file)).toEqual([
+        {
+          answer: { result: { content: [{ text: "3", type: "text" }] } },
+          method: "tools/call",
+          params: {
+            _meta: { progressToken: 1 },
+            arguments: { q: "rust" },
+            name: "search_jobs",
+          },
+        },
+      ]);
+    });
+
+    test("keeps recorded errors", () => {
+      record([
+        [
+          callTool(1, "save_job", {}),
+          {
+            error: { code: -32602, message: "Missing job" },
+            id: 1,
+            jsonrpc: "2.0",
+          },
+        ],
+      ]);
+
+      expect(readSession(file)[0].answer).toEqual({
+        error: { code: -32602, message: "Missing job" },
+      });
+    });
+
+    test("keeps runs apart when request ids restart", () => {
+      record([
+        [callTool(1, "search_jobs", { q: "go" }), toolResult(1, "first")],
+      ]);
+      record([
+        [callTool(1, "search_jobs", { q: "go" }), toolResult(1, "second")],
+      ]);
+
+      expect(readSession(file).map((exchange) => exchange.answer)).toEqual([
+        { result: { content: [{ text: "first", type: "text" }] } },
+        { result: { content: [{ text: "second", type: "text" }] } },
+      ]);
+    });
+
+    test("reports a missing file", () => {
+      expect(() => readSession(path.join(directory, "missing.jsonl"))).toThrow(
+        "Could not read session file"
+      );
+    });
+
+    test("reports the line of invalid JSON", () => {
+      fs.writeFileSync(file, '{"type":"session","version":1}\nnot json\n');
+
+      expect(() => readSession(file)).toThrow(
+        `Invalid JSON in ${file} at line 2`
+      );
+    });
+
+    test("rejects sessions from a newer format", () => {
+      fs.writeFileSync(file, '{"type":"session","version":2}\n');
+
+      expect(() => readSession(file)).toThrow(
+        "Unsupported session format version 2"
+      );
+    });
+  });
+
+  describe("ReplayTransport", () => {
+    test("answers with the response recorded for the same params", async () => {
+      record([
+        [callTool(1, "search_jobs", { q: "rust" }), toolResult(1, "rust jobs")],
+        [callTool(2, "search_jobs", { q: "go" }), toolResult(2, "go jobs")],
+      ]);
+      const transport = new ReplayTransport(readSession(file));
+
+      const answer = await ask(
+        transport,
+        callTool(7, "search_jobs", { q: "go" })
+      );
+
+      expect(answer).toEqual({ ...toolResult(2, "go jobs"), id: 7 });
+    });
+
+    test("serves repeated requests in recorded order, then the last again", async () => {
+      record([
+        [callTool(1, "list_saved", {}), toolResult(1, "none")],
+        [callTool(2, "list_saved", {}), toolResult(2, "one job")],
+      ]);
+      const transport = new ReplayTransport(readSession(file));
+
+      const texts = [];
+      for (let id = 1; id <= 3; id++) {
+        const answer = await ask(transport, callTool(id, "list_saved", {}));
+        texts.push(answer.result.content[0].text);
+      }
+
+      expect(texts).toEqual(["none", "one job", "one job"]);
+    });
+
+    test("treats redacted values as matching anything", async () => {
+      record(
+        [
+          [
+            callTool(1, "apply", { email: "a@example.com" }),
+            toolResult(1, "ok"),
+          ],
+        ],
+        ["email"]
+      );
+      const transport = new ReplayTransport(readSession(file));
+
+      const answer = await ask(
+        transport,
+        callTool(2, "apply", { email: "b@example.com" })
+      );
+
+      expect(answer.result).toBeDefined();
+    });
+
+    test("matches initialize on its method alone", async () => {
+      const initialize = {
+        id: 0,
+        jsonrpc: "2.0",
+        method: "initialize",
+        params: { clientInfo: { name: "cursor", version: "1.0" } },
+      };
+      record([
+        [initialize, { id: 0, jsonrpc: "2.0", result: { serverInfo: {} } }],
+      ]);
+      const transport = new ReplayTransport(readSession(file));
+
+      const answer = await ask(transport, {
+        ...initialize,
+        params: { clientInfo: { name: "claude-ai", version: "0.1" } },
+      });
+
+      expect(answer.result).toEqual({ serverInfo: {} });
+    });
+
+    test("returns an error for requests missing from the recording", async () => {
+      record([[callTool(1, "search_jobs", { q: "rust" }), toolResult(1, "x")]]);
+      const transport = new ReplayTransport(readSession(file));
+
+      const answer = await ask(
+        transport,
+        callTool(3, "search_jobs", { q: "c" })
+      );
+
+      expect(answer).toEqual({
+        error: {
+          code: -32603,
+          message: "No recorded response for tools/call with these params",
+        },
+        id: 3,
+        jsonrpc: "2.0",
+      });
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining("[REPLAY] No recorded response for tools/call")
+      );
+    });
+
+    test("ignores notifications", async () => {
+      const transport = new ReplayTransport([]);
+      transport.onmessage = jest.fn();
+
+      await transport.send({
+        jsonrpc: "2.0",
+        method: "notifications/initialized",
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(transport.onmessage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -2,6 +2,10 @@
  * Jest setup file for global test configuration
  */
 
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
 import { jest } from "@jest/globals";
 
 // Set up global mocks for external dependencies
@@ -29,15 +33,26 @@ jest.mock("@modelcontextprotocol/sdk/types.js", () =>
   import("./mocks/mcp-sdk.js").then((m) => ({
     CallToolRequestSchema: m.CallToolRequestSchema,
     CompleteRequestSchema: m.CompleteRequestSchema,
+    CreateMessageRequestSchema: m.CreateMessageRequestSchema,
+    ElicitRequestSchema: m.ElicitRequestSchema,
+    ErrorCode: m.ErrorCode,
     GetPromptRequestSchema: m.GetPromptRequestSchema,
     ListPromptsRequestSchema: m.ListPromptsRequestSchema,
     ListResourcesRequestSchema: m.ListResourcesRequestSchema,
     ListResourceTemplatesRequestSchema: m.ListResourceTemplatesRequestSchema,
+    ListRootsRequestSchema: m.ListRootsRequestSchema,
     ListToolsRequestSchema: m.ListToolsRequestSchema,
     LoggingMessageNotificationSchema: m.LoggingMessageNotificationSchema,
+    McpError: m.McpError,
+    PromptListChangedNotificationSchema: m.PromptListChangedNotificationSchema,
     ReadResourceRequestSchema: m.ReadResourceRequestSchema,
+    ResourceListChangedNotificationSchema:
+      m.ResourceListChangedNotificationSchema,
     ResourceUpdatedNotificationSchema: m.ResourceUpdatedNotificationSchema,
+    RootsListChangedNotificationSchema: m.RootsListChangedNotificationSchema,
+    SetLevelRequestSchema: m.SetLevelRequestSchema,
     SubscribeRequestSchema: m.SubscribeRequestSchema,
+    ToolListChangedNotificationSchema: m.ToolListChangedNotificationSchema,
     UnsubscribeRequestSchema: m.UnsubscribeRequestSchema,
   }))
 );
@@ -63,13 +78,16 @@ jest.mock("win-version-info", () =>
 // Store original environment variables
 const originalEnv = process.env;
 
+// Keep persistent proxy state (credentials, caches) out of the real home dir
+const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "foundrole-mcp-test-"));
+
 // Mock console methods to prevent noise in tests
 const originalConsoleError = console.error;
 const originalConsoleLog = console.log;
 
 beforeEach(() => {
   // Reset environment variables before each test
-  process.env = { ...originalEnv };
+  process.env = { ...originalEnv, FOUNDROLE_MCP_HOME: stateDir };
 
   // Clear all mocks
   jest.clearAllMocks();
@@ -85,6 +103,8 @@ afterEach(() => {
 });
 
 afterAll(() => {
+  fs.rmSync(stateDir, { force: true, recursive: true });
+
   // Restore console methods
   console.error = originalConsoleError;
   console.log = originalConsoleLog;
@@ -0,0 +1,178 @@
+/**
+ * token-store functionality tests
+ * Tests encrypted per-profile credential persistence
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  jest,
+  test,
+} from "@jest/globals";
+
+import { TokenStore } from "../src/token-store.js";
+
+const SERVER_URL = "https://www.foundrole.com/mcp";
+
+describe("token-store Tests", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "token-store-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { force: true, recursive: true });
+  });
+
+  const createStore = (profile?: string, serverUrl = SERVER_URL) =>
+    new TokenStore({
+      directory,
+      serverUrl,
+      ...(profile && { profile }),
+    });
+
+  test("returns empty credentials when nothing is stored", () => {
+    expect(createStore().read()).toEqual({});
+  });
+
+  test("round-trips credentials through an encrypted file", () => {
+    const store = createStore();
+
+    store.update({
+      expiresAt: 1700000000000,
+      tokens: { access_token: "secret-access", token_type: "Bearer" },
+    });
+
+    expect(createStore().read()).toEqual({
+      expiresAt: 1700000000000,
+      tokens: { access_token: "secret-access", token_type: "Bearer" },
+    });
+    const raw = fs.readFileSync(store.filePath, "utf-8");
+    expect(raw).not.toContain("secret-access");
+    expect(JSON.parse(raw)).toMatchObject({ version: 1 });
+  });
+
+  test("creates the key and profile files readable only by the owner", () => {
+    const store = createStore();
+    store.update({ clientInformation: { client_id: "abc" } });
+
+    const mode = (file: string) => fs.statSync(file).mode & 0o777;
+    expect(mode(path.join(directory, "key"))).toBe(0o600);
+    expect(mode(store.filePath)).toBe(0o600);
+  });
+
+  test("uses the key another process created first", () => {
+    const keyPath = path.join(directory, "key");
+    const theirs = Buffer.alloc(32, 7).toString("base64");
+    const { linkSync } = fs;
+    jest.spyOn(fs, "linkSync").mockImplementationOnce((existing, link) => {
+      fs.writeFileSync(keyPath, theirs);
+      linkSync(existing, link);
+    });
+
+    const store = createStore();
+    store.update({ clientInformation: { client_id: "abc" } });
+
+    expect(fs.readFileSync(keyPath, "utf-8")).toBe(theirs);
+    expect(fs.readdirSync(directory)).not.toContainEqual(
+      expect.stringMatching(/\.tmp$/)
+    );
+    expect(createStore().read()).toEqual({
+      clientInformation: { client_id: "abc" },
+    });
+  });
+
+  test("merges updates into existing credentials", () => {
+    const store = createStore();
+    store.update({ clientInformation: { client_id: "abc" } });
+    store.update({ tokens: { access_token: "t", token_type: "Bearer" } });
+
+    expect(store.read()).toEqual({
+      clientInformation: { client_id: "abc" },
+      tokens: { access_token: "t", token_type: "Bearer" },
+    });
+  });
+
+  test("keeps profiles separate", () => {
+    createStore("recruiter").update({
+      tokens: { access_token: "recruiter-token", token_type: "Bearer" },
+    });
+    createStore("candidate").update({
+      tokens: { access_token: "candidate-token", token_type: "Bearer" },
+    });
+
+    expect(createStore("recruiter").read().tokens?.access_token).toBe(
+      "recruiter-token"
+    );
+    expect(createStore("candidate").read().tokens?.access_token).toBe(
+      "candidate-token"
+    );
+    expect(createStore().read()).toEqual({});
+    expect(TokenStore.listProfiles(directory)).toEqual([
+      "candidate",
+      "recruiter",
+    ]);
+  });
+
+  test("keeps credentials for different servers in one profile apart", () => {
+    createStore(undefined, "https://staging.foundrole.com/mcp").update({
+      tokens: { access_token: "staging", token_type: "Bearer" },
+    });
+
+    expect(createStore().read()).toEqual({});
+    expect(
+      createStore(undefined, "https://staging.foundrole.com/mcp").read().tokens
+        ?.access_token
+    ).toBe("staging");
+  });
+
+  test("clears selected fields or the whole entry", () => {
+    const store = createStore();
+    store.update({
+      clientInformation: { client_id: "abc" },
+      tokens: { access_token: "t", token_type: "Bearer" },
+    });
+
+    store.clear(["tokens"]);
+    expect(store.read()).toEqual({ clientInformation: { client_id: "abc" } });
+
+    store.clear();
+    expect(store.read()).toEqual({});
+    expect(fs.existsSync(store.filePath)).toBe(false);
+  });
+
+  test("ignores a profile file that cannot be decrypted", () => {
+    const store = createStore();
+    store.update({ clientInformation: { client_id: "abc" } });
+    fs.writeFileSync(
+      path.join(directory, "key"),
+      Buffer.alloc(32).toString("base64")
+    );
+
+    expect(store.read()).toEqual({});
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "[TOKEN-STORE] Ignoring unreadable credentials for profile 'default'"
+      )
+    );
+  });
+
+  test("rejects profile names that are not safe file names", () => {
+    expect(() => createStore("../escape")).toThrow(
+      'Invalid profile name "../escape"'
+    );
+  });
+
+  test("lists no profiles when the directory does not exist", () => {
+    expect(TokenStore.listProfiles(path.join(directory, "missing"))).toEqual(
+      []
+    );
+  });
+});
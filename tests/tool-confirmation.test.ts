@@ -0,0 +1,160 @@
+/**
+ * tool-confirmation functionality tests
+ * Tests asking the user before destructive tool calls, and the fallbacks
+ */
+
+import { describe, expect, jest, test } from "@jest/globals";
+
+import {
+  confirmToolCall,
+  isDestructiveTool,
+  summarizeArguments,
+  withConfirmArgument,
+} from "../src/tool-confirmation.js";
+
+const createServer = (
+  elicitation: Record<string, unknown> | undefined,
+  answer?: Record<string, unknown>
+) => ({
+  elicitInput: jest.fn(async (_params: unknown, _options: unknown) => answer),
+  getClientCapabilities: jest.fn(() => (elicitation ? { elicitation } : {})),
+});
+
+const params = {
+  arguments: { application_id: "app-42", reason: "withdrawn" },
+  name: "delete_application",
+};
+
+const confirm = (
+  server: ReturnType<typeof createServer>,
+  fallback: "allow" | "argument" | "block",
+  callParams: typeof params & { arguments: Record<string, unknown> } = params
+) =>
+  confirmToolCall({
+    fallback,
+    options: {},
+    params: callParams,
+    server: server as never,
+  });
+
+describe("tool-confirmation", () => {
+  describe("isDestructiveTool", () => {
+    test("only treats tools annotated destructiveHint as destructive", () => {
+      expect(
+        isDestructiveTool({ annotations: { destructiveHint: true } })
+      ).toBe(true);
+      expect(
+        isDestructiveTool({ annotations: { destructiveHint: false } })
+      ).toBe(false);
+      expect(isDestructiveTool({})).toBe(false);
+    });
+  });
+
+  describe("summarizeArguments", () => {
+    test("lists each argument on its own line", () => {
+      expect(summarizeArguments({ id: "app-42", notify: false })).toBe(
+        '  id: "app-42"\n  notify: false'
+      );
+    });
+
+    test("shortens long values", () => {
+      const summary = summarizeArguments({ note: "x".repeat(500) });
+
+      expect(summary.length).toBeLessThan(220);
+      expect(summary.endsWith("…")).toBe(true);
+    });
+
+    test("says when there are no arguments", () => {
+      expect(summarizeArguments()).toBe("  (none)");
+    });
+  });
+
+  describe("withConfirmArgument", () => {
+    test("adds a boolean confirm property to the input schema", () => {
+      const tool = withConfirmArgument({
+        inputSchema: { properties: { id: { type: "string" } }, type: "object" },
+        name: "delete_application",
+      });
+
+      expect(tool.inputSchema.properties).toEqual({
+        confirm: expect.objectContaining({ type: "boolean" }),
+        id: { type: "string" },
+      });
+    });
+  });
+
+  describe("confirmToolCall", () => {
+    test("asks the user with a summary of the arguments", async () => {
+      const server = createServer(
+        { form: {} },
+        { action: "accept", content: { confirm: true } }
+      );
+
+      const result = await confirm(server, "block");
+
+      expect(result).toEqual({ confirmed: true, params });
+      expect(server.elicitInput).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.stringContaining('application_id: "app-42"'),
+          requestedSchema: expect.objectContaining({ required: ["confirm"] }),
+        }),
+        {}
+      );
+    });
+
+    test("does not run the tool unless the user confirms", async () => {
+      for (const answer of [
+        { action: "accept", content: { confirm: false } },
+        { action: "decline" },
+        { action: "cancel" },
+      ]) {
+        const result = await confirm(
+          createServer({ form: {} }, answer),
+          "allow"
+        );
+
+        expect(result).toMatchObject({
+          confirmed: false,
+          result: { isError: true },
+        });
+      }
+    });
+
+    test("falls back for clients without form elicitation", async () => {
+      const server = createServer({ url: {} });
+
+      expect(await confirm(server, "allow")).toEqual({
+        confirmed: true,
+        params,
+      });
+      expect(await confirm(server, "block")).toMatchObject({
+        confirmed: false,
+        result: {
+          content: [
+            {
+              text: expect.stringContaining("cannot ask the user to confirm"),
+            },
+          ],
+        },
+      });
+      expect(server.elicitInput).not.toHaveBeenCalled();
+    });
+
+    test("requires and then strips the confirm argument", async () => {
+      const server = createServer(undefined);
+
+      expect(await confirm(server, "argument")).toMatchObject({
+        confirmed: false,
+        result: {
+          content: [{ text: expect.stringContaining('"confirm": true') }],
+        },
+      });
+      expect(
+        await confirm(server, "argument", {
+          ...params,
+          arguments: { ...params.arguments, confirm: true },
+        })
+      ).toEqual({ confirmed: true, params });
+    });
+  });
+});
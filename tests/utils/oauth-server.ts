@@ -0,0 +1,208 @@
+/**
+ * Local stand-in for the FoundRole authorization server.
+ * Implements just enough of RFC 9728, RFC 8414, RFC 7591 and OAuth 2.1
+ * (authorization code + PKCE, refresh, revocation) to drive the SDK auth flow.
+ */
+
+import { createHash } from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface StandInAuthServer {
+  baseUrl: string;
+  issuedTokens: string[];
+  mcpUrl: string;
+  registrations: Record<string, unknown>[];
+  revokedTokens: string[];
+  tokenRequests: Record<string, string>[];
+  close: () => Promise<void>;
+}
+
+interface PendingCode {
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Finds a free loopback port by briefly listening on port 0
+ */
+export async function getFreePort(): Promise<number> {
+  const server = http.createServer();
+  await new Promise<void>((resolve) => {
+    server.listen(0, "127.0.0.1", resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+  await new Promise<void>((resolve) => {
+    server.close(() => {
+      resolve();
+    });
+  });
+  return port;
+}
+
+export async function startStandInAuthServer({
+  expiresIn = 3600,
+}: { expiresIn?: number } = {}): Promise<StandInAuthServer> {
+  const codes = new Map<string, PendingCode>();
+  const refreshTokens = new Set<string>();
+  let counter = 0;
+
+  const state: Omit<StandInAuthServer, "baseUrl" | "close" | "mcpUrl"> = {
+    issuedTokens: [],
+    registrations: [],
+    revokedTokens: [],
+    tokenRequests: [],
+  };
+
+  const issueTokens = () => {
+    counter += 1;
+    const accessToken = `access-${counter}`;
+    const refreshToken = `refresh-${counter}`;
+    state.issuedTokens.push(accessToken);
+    refreshTokens.add(refreshToken);
+    return {
+      access_token: accessToken,
+      expires_in: expiresIn,
+      refresh_token: refreshToken,
+      token_type: "Bearer",
+    };
+  };
+
+  const server = http.createServer((req, res) => {
+    void (async () => {
+      const url = new URL(req.url ?? "/", baseUrl);
+
+      if (url.pathname.startsWith("/.well-known/oauth-protected-resource")) {
+        sendJson(res, 200, {
+          authorization_servers: [baseUrl],
+          resource: `${baseUrl}/mcp`,
+        });
+        return;
+      }
+
+      if (url.pathname === "/.well-known/oauth-authorization-server") {
+        sendJson(res, 200, {
+          authorization_endpoint: `${baseUrl}/authorize`,
+          code_challenge_methods_supported: ["S256"],
+          grant_types_supported: ["authorization_code", "refresh_token"],
+          issuer: baseUrl,
+          registration_endpoint: `${baseUrl}/register`,
+          response_types_supported: ["code"],
+          revocation_endpoint: `${baseUrl}/revoke`,
+          token_endpoint: `${baseUrl}/token`,
+          token_endpoint_auth_methods_supported: ["none"],
+        });
+        return;
+      }
+
+      if (url.pathname === "/register" && req.method === "POST") {
+        const metadata = JSON.parse(await readBody(req)) as Record<
+          string,
+          unknown
+        >;
+        state.registrations.push(metadata);
+        sendJson(res, 201, {
+          ...metadata,
+          client_id: `client-${state.registrations.length}`,
+          client_id_issued_at: Math.floor(Date.now() / 1000),
+        });
+        return;
+      }
+
+      if (url.pathname === "/authorize") {
+        const redirectUri = url.searchParams.get("redirect_uri") ?? "";
+        const code = `code-${codes.size + 1}`;
+        codes.set(code, {
+          codeChallenge: url.searchParams.get("code_challenge") ?? "",
+          redirectUri,
+        });
+        const redirect = new URL(redirectUri);
+        redirect.searchParams.set("code", code);
+        redirect.searchParams.set("state", url.searchParams.get("state") ?? "");
+        res.writeHead(302, { Location: redirect.toString() });
+        res.end();
+        return;
+      }
+
+      if (url.pathname === "/token" && req.method === "POST") {
+        const params = Object.fromEntries(
+          new URLSearchParams(await readBody(req))
+        );
+        state.tokenRequests.push(params);
+
+        if (params.grant_type === "authorization_code") {
+          const pending = codes.get(params.code ?? "");
+          const challenge = createHash("sha256")
+            .update(params.code_verifier ?? "")
+            .digest("base64url");
+          if (
+            !pending ||
+            pending.codeChallenge !== challenge ||
+            pending.redirectUri !== params.redirect_uri
+          ) {
+            sendJson(res, 400, { error: "invalid_grant" });
+            return;
+          }
+          codes.delete(params.code ?? "");
+          sendJson(res, 200, issueTokens());
+          return;
+        }
+
+        if (params.grant_type === "refresh_token") {
+          if (!refreshTokens.delete(params.refresh_token ?? "")) {
+            sendJson(res, 400, { error: "invalid_grant" });
+            return;
+          }
+          sendJson(res, 200, issueTokens());
+          return;
+        }
+
+        sendJson(res, 400, { error: "unsupported_grant_type" });
+        return;
+      }
+
+      if (url.pathname === "/revoke" && req.method === "POST") {
+        const params = new URLSearchParams(await readBody(req));
+        state.revokedTokens.push(params.get("token") ?? "");
+        res.writeHead(200);
+        res.end();
+        return;
+      }
+
+      res.writeHead(404);
+      res.end();
+    })();
+  });
+
+  await new Promise<void>((resolve) => {
+    server.listen(0, "127.0.0.1", resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    ...state,
+    baseUrl,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => {
+          resolve();
+        });
+        server.closeAllConnections();
+      }),
+    mcpUrl: `${baseUrl}/mcp`,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * write-file-atomic functionality tests
+ * Tests whole-file replacement through symlinks and with kept permissions
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, test } from "@jest/globals";
+
+import { writeFileAtomic } from "../src/write-file-atomic.js";
+
+describe("write-file-atomic Tests", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "write-file-atomic-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { force: true, recursive: true });
+  });
+
+  test("creates a file and leaves nothing else behind", () => {
+    const file = path.join(directory, "config.json");
+
+    writeFileAtomic(file, "{}");
+
+    expect(fs.readFileSync(file, "utf-8")).toBe("{}");
+    expect(fs.readdirSync(directory)).toEqual(["config.json"]);
+  });
+
+  test("writes through a symlink to its target", () => {
+    const target = path.join(directory, "dotfiles-config.json");
+    const link = path.join(directory, "config.json");
+    fs.writeFileSync(target, "{}");
+    fs.symlinkSync(target, link);
+
+    writeFileAtomic(link, '{"a":1}');
+
+    expect(fs.lstatSync(link).isSymbolicLink()).toBe(true);
+    expect(fs.readFileSync(target, "utf-8")).toBe('{"a":1}');
+  });
+
+  test("keeps the mode of an existing file unless given one", () => {
+    const file = path.join(directory, "config.json");
+    fs.writeFileSync(file, "{}");
+    fs.chmodSync(file, 0o640);
+
+    writeFileAtomic(file, '{"a":1}');
+    expect(fs.statSync(file).mode & 0o777).toBe(0o640);
+
+    writeFileAtomic(file, '{"a":2}', { mode: 0o600 });
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  test("removes the temporary file when the rename fails", () => {
+    // A directory in the way makes the rename fail after the write
+    const file = path.join(directory, "config.json");
+    fs.mkdirSync(path.join(file, "inner"), { recursive: true });
+
+    expect(() => {
+      writeFileAtomic(file, "{}");
+    }).toThrow();
+    expect(fs.readdirSync(directory)).toEqual(["config.json"]);
+  });
+});